@@ -10,10 +10,17 @@ import { Session } from "@supabase/supabase-js";
 import AuthPage from "./pages/AuthPage";
 import Dashboard from "./pages/Dashboard";
 import Sales from "./pages/Sales";
+import Customers from "./pages/Customers";
+import CustomerProfile from "./pages/CustomerProfile";
 import Products from "./pages/Products";
+import Suppliers from "./pages/Suppliers";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import Stocktakes from "./pages/Stocktakes";
 import Analysis from "./pages/Analysis";
 import Debtors from "./pages/Debtors";
 import Notes from "./pages/Notes";
+import Pricing from "./pages/Pricing";
+import Settings from "./pages/Settings";
 import Layout from "./components/Layout";
 import NotFound from "./pages/NotFound";
 
@@ -68,10 +75,17 @@ const App = () => {
             <Routes>
               <Route path="/" element={<Dashboard />} />
               <Route path="/sales" element={<Sales />} />
+              <Route path="/customers" element={<Customers />} />
+              <Route path="/customers/:id" element={<CustomerProfile />} />
               <Route path="/products" element={<Products />} />
+              <Route path="/suppliers" element={<Suppliers />} />
+              <Route path="/purchase-orders" element={<PurchaseOrders />} />
+              <Route path="/stocktakes" element={<Stocktakes />} />
               <Route path="/analysis" element={<Analysis />} />
               <Route path="/debtors" element={<Debtors />} />
               <Route path="/notes" element={<Notes />} />
+              <Route path="/pricing" element={<Pricing />} />
+              <Route path="/settings" element={<Settings />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </Layout>
@@ -0,0 +1,33 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/use-categories";
+import { categoryTree } from "@/lib/categories";
+
+interface CategorySelectProps {
+  // Category id, or "" for none
+  value: string;
+  onValueChange: (categoryId: string) => void;
+  noneLabel: string;
+}
+
+// Sub-categories are listed, indented, under their top-level category
+const CategorySelect = ({ value, onValueChange, noneLabel }: CategorySelectProps) => {
+  const { data: categories } = useCategories();
+
+  return (
+    <Select value={value || "none"} onValueChange={(selected) => onValueChange(selected === "none" ? "" : selected)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">{noneLabel}</SelectItem>
+        {categoryTree(categories ?? []).map(({ category, depth }) => (
+          <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-10" : undefined}>
+            {category.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CategorySelect;
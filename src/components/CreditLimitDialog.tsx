@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { CreditCheck } from "@/lib/sales";
+
+interface CreditLimitDialogProps {
+  creditCheck: CreditCheck | null;
+  customerName: string;
+  onOpenChange: (open: boolean) => void;
+  onOverride: (reason: string) => void;
+}
+
+// Asks for the reason a credit sale may take the customer past their limit
+const CreditLimitDialog = ({ creditCheck, customerName, onOpenChange, onOverride }: CreditLimitDialogProps) => {
+  const [overrideReason, setOverrideReason] = useState("");
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setOverrideReason("");
+    onOpenChange(open);
+  };
+
+  return (
+    <AlertDialog open={!!creditCheck} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Credit limit exceeded</AlertDialogTitle>
+          <AlertDialogDescription>
+            {customerName} owes RWF {creditCheck?.balance.toLocaleString()} on open sales. This sale adds RWF{" "}
+            {creditCheck?.saleAmount.toLocaleString()}, taking them over their RWF{" "}
+            {creditCheck?.creditLimit.toLocaleString()} credit limit. Take payment now, or give a reason to
+            override the limit. Overrides are logged for managers.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div>
+          <Label htmlFor="overrideReason">Override reason</Label>
+          <Textarea
+            id="overrideReason"
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            placeholder="e.g. Approved by the owner, customer pays Friday"
+            rows={3}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            disabled={!overrideReason.trim()}
+            onClick={() => {
+              onOverride(overrideReason.trim());
+              setOverrideReason("");
+            }}
+          >
+            Override and Save
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
+
+export default CreditLimitDialog;
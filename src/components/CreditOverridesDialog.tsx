@@ -0,0 +1,100 @@
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { saleDocumentNumber } from "@/lib/sale-documents";
+import { format } from "date-fns";
+
+interface CreditOverridesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Every credit limit override across customers, newest first. Only managers
+// can read overrides, so the list is empty for everyone else.
+const CreditOverridesDialog = ({ open, onOpenChange }: CreditOverridesDialogProps) => {
+  const { data: overrides, isLoading } = useQuery({
+    queryKey: ["credit-limit-overrides"],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("credit_limit_overrides")
+        .select("*, customers(name), sales(id, payment_status)")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: users } = useQuery({
+    queryKey: ["sale-users"],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("sale_users");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const userName = (userId: string) => users?.find(user => user.id === userId)?.full_name || "-";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Credit Limit Overrides</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div>Loading...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Sale</TableHead>
+                <TableHead className="text-right">Balance Before</TableHead>
+                <TableHead className="text-right">Sale Amount</TableHead>
+                <TableHead className="text-right">Limit</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {overrides?.map((override) => (
+                <TableRow key={override.id}>
+                  <TableCell>{format(new Date(override.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                  <TableCell>
+                    <Link
+                      to={`/customers/${override.customer_id}`}
+                      className="hover:underline"
+                      onClick={() => onOpenChange(false)}
+                    >
+                      {override.customers?.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{override.sales ? saleDocumentNumber(override.sales) : "Deleted sale"}</TableCell>
+                  <TableCell className="text-right">RWF {Number(override.balance_before).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">RWF {Number(override.sale_amount).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">RWF {Number(override.credit_limit).toLocaleString()}</TableCell>
+                  <TableCell>{userName(override.user_id)}</TableCell>
+                  <TableCell className="whitespace-pre-wrap">{override.reason}</TableCell>
+                </TableRow>
+              ))}
+              {overrides?.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center text-gray-500">
+                    No credit limit overrides recorded
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CreditOverridesDialog;
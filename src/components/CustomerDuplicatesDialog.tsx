@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface CustomerDuplicatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CustomerDuplicatesDialog = ({ open, onOpenChange }: CustomerDuplicatesDialogProps) => {
+  const [pendingMerge, setPendingMerge] = useState<{ survivorId: string; duplicateId: string } | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["customer-duplicates"],
+    enabled: open,
+    queryFn: async () => {
+      const { data: pairs, error } = await supabase.rpc("find_duplicate_customers");
+      if (error) throw error;
+
+      const ids = Array.from(new Set(pairs.flatMap(pair => [pair.customer_id, pair.duplicate_id])));
+      if (ids.length === 0) return { pairs, customers: {} };
+
+      const { data: customers, error: customersError } = await supabase
+        .from("customers")
+        .select("*, sales(count)")
+        .in("id", ids);
+      if (customersError) throw customersError;
+
+      return { pairs, customers: Object.fromEntries(customers.map(customer => [customer.id, customer])) };
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ survivorId, duplicateId }: { survivorId: string; duplicateId: string }) => {
+      const { data: customer, error } = await supabase.rpc("merge_customers", {
+        p_survivor_id: survivorId,
+        p_duplicate_id: duplicateId,
+      });
+      if (error) throw error;
+      return customer;
+    },
+    onSuccess: (customer) => {
+      queryClient.invalidateQueries({ queryKey: ["customer-duplicates"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["price-lists"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["sale-returns"] });
+      queryClient.invalidateQueries({ queryKey: ["debtors"] });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      setPendingMerge(null);
+      toast({
+        title: "✅ Success",
+        description: `Customers merged into ${customer.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      setPendingMerge(null);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const customerName = (id: string | undefined) => (id && data?.customers[id]?.name) || "";
+
+  const renderCustomer = (id: string, otherId: string) => {
+    const customer = data?.customers[id];
+    if (!customer) return null;
+    return (
+      <div className="flex-1 rounded border p-3 space-y-1 text-sm">
+        <div className="font-medium">{customer.name}</div>
+        <div className="text-gray-600">{customer.phone || "No phone"}</div>
+        <div className="text-gray-600">{customer.email || "No email"}</div>
+        {customer.address && <div className="text-gray-600">{customer.address}</div>}
+        <div className="text-gray-500">
+          {customer.sales[0]?.count || 0} sales · since {format(new Date(customer.created_at), "MMM yyyy")}
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          className="mt-2"
+          onClick={() => setPendingMerge({ survivorId: id, duplicateId: otherId })}
+        >
+          Keep this one
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Possible Duplicate Customers</DialogTitle>
+          </DialogHeader>
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : data?.pairs.length === 0 ? (
+            <p className="text-sm text-gray-500">No duplicates found.</p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Merging moves every sale, debt, payment and return to the customer you keep, copies over any
+                contact details it is missing and deletes the other record.
+              </p>
+              {data?.pairs.map((pair) => (
+                <div key={`${pair.customer_id}-${pair.duplicate_id}`} className="space-y-2">
+                  <div className="text-xs font-medium uppercase text-amber-700">
+                    {pair.reason}{pair.reason === "Similar name" ? ` (${Math.round(pair.similarity * 100)}% match)` : ""}
+                  </div>
+                  <div className="flex gap-4">
+                    {renderCustomer(pair.customer_id, pair.duplicate_id)}
+                    {renderCustomer(pair.duplicate_id, pair.customer_id)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(isOpen) => !isOpen && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge customers?</AlertDialogTitle>
+            <AlertDialogDescription>
+              All records of {customerName(pendingMerge?.duplicateId)} will be moved to{" "}
+              {customerName(pendingMerge?.survivorId)} and {customerName(pendingMerge?.duplicateId)} will be
+              deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (pendingMerge) mergeMutation.mutate(pendingMerge);
+              }}
+              disabled={mergeMutation.isPending}
+            >
+              {mergeMutation.isPending ? "Merging..." : "Merge"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CustomerDuplicatesDialog;
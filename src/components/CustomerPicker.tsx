@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Check, ChevronsUpDown, UserPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface CustomerOption {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
+interface CustomerPickerProps {
+  customers: CustomerOption[];
+  balances: Record<string, number>;
+  // Id of the selected customer and the name shown for it
+  selectedId: string | null;
+  value: string;
+  onSelect: (customer: CustomerOption) => void;
+  onCreate: (name: string) => void;
+  disabled?: boolean;
+}
+
+const CustomerPicker = ({ customers, balances, selectedId, value, onSelect, onCreate, disabled }: CustomerPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const exactMatch = customers.some(c => c.name.toLowerCase() === search.trim().toLowerCase());
+
+  const close = () => {
+    setSearch("");
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className="w-full justify-between font-normal"
+          disabled={disabled}
+        >
+          <span className={cn("truncate", !value && "text-muted-foreground")}>
+            {value || "Select or add a customer"}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] min-w-80 p-0" align="start">
+        <Command>
+          <CommandInput
+            value={search}
+            onValueChange={setSearch}
+            placeholder="Search name, phone or email"
+          />
+          <CommandList>
+            <CommandEmpty>No customer found.</CommandEmpty>
+            <CommandGroup>
+              {customers.map((customer) => {
+                const balance = balances[customer.id] || 0;
+                return (
+                  <CommandItem
+                    key={customer.id}
+                    value={`${customer.name} ${customer.phone || ""} ${customer.email || ""} ${customer.id}`}
+                    onSelect={() => {
+                      onSelect(customer);
+                      close();
+                    }}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", selectedId === customer.id ? "opacity-100" : "opacity-0")} />
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{customer.name}</div>
+                      {(customer.phone || customer.email) && (
+                        <div className="truncate text-xs text-gray-500">{customer.phone || customer.email}</div>
+                      )}
+                    </div>
+                    {balance > 0 && (
+                      <span className="ml-2 text-xs text-red-600">Owes RWF {balance.toLocaleString()}</span>
+                    )}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+            {search.trim() && !exactMatch && (
+              <CommandGroup forceMount>
+                <CommandItem
+                  forceMount
+                  value={`create ${search}`}
+                  onSelect={() => {
+                    onCreate(search.trim());
+                    close();
+                  }}
+                >
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Add "{search.trim()}" as a new customer
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CustomerPicker;
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { company } from "@/lib/company";
+import { companyLines, formatMoney } from "@/lib/sale-documents";
+import { buildCustomerStatement, downloadCustomerStatementPdf, statementPeriod } from "@/lib/customer-statement";
+import { Printer, Download } from "lucide-react";
+import { endOfDay, format, parseISO, startOfMonth } from "date-fns";
+
+interface CustomerStatementDialogProps {
+  customerId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CustomerStatementDialog = ({ customerId, onOpenChange }: CustomerStatementDialogProps) => {
+  const [from, setFrom] = useState(format(startOfMonth(new Date()), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+
+  const { data: statement, isLoading } = useQuery({
+    queryKey: ["customer-statement", customerId, from, to],
+    enabled: !!customerId && !!from && !!to && from <= to,
+    queryFn: async () => {
+      // Everything up to the end of the period is needed for the opening balance
+      const [customerResult, salesResult, debtorsResult, paymentsResult, returnsResult] = await Promise.all([
+        supabase
+          .from("customers")
+          .select("name, email, phone, address")
+          .eq("id", customerId)
+          .single(),
+        supabase
+          .from("sales")
+          .select("id, sale_date, total_amount, payment_status")
+          .eq("customer_id", customerId)
+          .lte("sale_date", endOfDay(parseISO(to)).toISOString()),
+        supabase
+          .from("debtors")
+          .select("sale_id, amount_owed, amount_paid, is_resolved, updated_at")
+          .eq("customer_id", customerId),
+        supabase
+          .from("payments")
+          .select("id, sale_id, amount, payment_date, method, reference")
+          .eq("customer_id", customerId)
+          .lte("payment_date", to),
+        supabase
+          .from("sale_returns")
+          .select("id, sale_id, return_date, debt_reduction, credit_amount")
+          .eq("customer_id", customerId)
+          .lte("return_date", to),
+      ]);
+
+      if (customerResult.error) throw customerResult.error;
+      if (salesResult.error) throw salesResult.error;
+      if (debtorsResult.error) throw debtorsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (returnsResult.error) throw returnsResult.error;
+
+      return buildCustomerStatement({
+        customer: customerResult.data,
+        from,
+        to,
+        sales: salesResult.data,
+        debtors: debtorsResult.data,
+        payments: paymentsResult.data,
+        returns: returnsResult.data,
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!customerId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="no-print">
+          <DialogTitle>Statement of Account</DialogTitle>
+        </DialogHeader>
+
+        <div className="no-print grid grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="statementFrom">From</Label>
+            <Input id="statementFrom" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div>
+            <Label htmlFor="statementTo">To</Label>
+            <Input id="statementTo" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading || !statement ? (
+          <div>Loading...</div>
+        ) : (
+          <>
+            <div className="print-area space-y-6 bg-white text-gray-900 p-6">
+              <div className="flex justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-blue-600">{company.name}</h2>
+                  {companyLines().map((line) => (
+                    <p key={line} className="text-sm text-gray-600">{line}</p>
+                  ))}
+                </div>
+                <div className="text-right">
+                  <h3 className="text-xl font-bold uppercase">Statement of Account</h3>
+                  <p className="text-sm">{statementPeriod(statement)}</p>
+                  <p className="text-sm">Issued: {format(new Date(), "MMM dd, yyyy")}</p>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-500">Customer</p>
+                <p className="font-medium">{statement.customer.name}</p>
+                {statement.customer.address && <p className="text-sm">{statement.customer.address}</p>}
+                {statement.customer.phone && <p className="text-sm">{statement.customer.phone}</p>}
+                {statement.customer.email && <p className="text-sm">{statement.customer.email}</p>}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell>{format(parseISO(statement.from), "MMM dd, yyyy")}</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="font-medium">Opening balance</TableCell>
+                    <TableCell></TableCell>
+                    <TableCell></TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(statement.openingBalance)}</TableCell>
+                  </TableRow>
+                  {statement.entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{format(parseISO(entry.date), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>{entry.reference}</TableCell>
+                      <TableCell>{entry.description}</TableCell>
+                      <TableCell className="text-right">{entry.debit > 0 ? formatMoney(entry.debit) : ""}</TableCell>
+                      <TableCell className="text-right">{entry.credit > 0 ? formatMoney(entry.credit) : ""}</TableCell>
+                      <TableCell className="text-right">{formatMoney(entry.balance)}</TableCell>
+                    </TableRow>
+                  ))}
+                  {statement.entries.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center text-gray-500">
+                        No transactions in this period
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+
+              <div className="ml-auto w-72 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Opening Balance</span>
+                  <span>{formatMoney(statement.openingBalance)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Total Charges</span>
+                  <span>{formatMoney(statement.totalDebits)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Total Payments & Credits</span>
+                  <span>{formatMoney(statement.totalCredits)}</span>
+                </div>
+                <div className="flex justify-between font-bold">
+                  <span>Closing Balance</span>
+                  <span className={statement.closingBalance > 0 ? "text-red-600" : "text-green-600"}>
+                    {formatMoney(statement.closingBalance)}
+                  </span>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">Please contact us if any entry on this statement is incorrect.</p>
+            </div>
+
+            <div className="no-print flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => window.print()}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print
+              </Button>
+              <Button onClick={() => downloadCustomerStatementPdf(statement)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerStatementDialog;
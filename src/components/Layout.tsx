@@ -8,10 +8,16 @@ import { useQuery } from "@tanstack/react-query";
 import {
   LayoutDashboard,
   ShoppingCart,
+  Contact,
   Package,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
   BarChart3,
   Users,
   StickyNote,
+  Tags,
+  Settings,
   Menu,
   X,
   LogOut,
@@ -56,10 +62,16 @@ const Layout = ({ children }: LayoutProps) => {
   const navigation = [
     { name: "Dashboard", href: "/", icon: LayoutDashboard },
     { name: "Sales", href: "/sales", icon: ShoppingCart },
+    { name: "Customers", href: "/customers", icon: Contact },
     { name: "Products", href: "/products", icon: Package },
+    { name: "Suppliers", href: "/suppliers", icon: Truck },
+    { name: "Purchase Orders", href: "/purchase-orders", icon: ClipboardList },
+    { name: "Stocktakes", href: "/stocktakes", icon: ClipboardCheck },
     { name: "Analysis", href: "/analysis", icon: BarChart3 },
     { name: "Debtors", href: "/debtors", icon: Users },
     { name: "Notes", href: "/notes", icon: StickyNote },
+    { name: "Pricing", href: "/pricing", icon: Tags },
+    { name: "Settings", href: "/settings", icon: Settings },
   ];
 
   return (
@@ -93,7 +105,8 @@ const Layout = ({ children }: LayoutProps) => {
           <nav className="flex-1 p-4 space-y-2">
             {navigation.map((item) => {
               const Icon = item.icon;
-              const isActive = location.pathname === item.href;
+              const isActive = location.pathname === item.href ||
+                (item.href !== "/" && location.pathname.startsWith(`${item.href}/`));
               return (
                 <Button
                   key={item.name}
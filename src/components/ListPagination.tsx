@@ -0,0 +1,73 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  // Real hrefs keep pages shareable and open-in-new-tab friendly
+  hrefFor: (page: number) => string;
+  onPageChange: (page: number) => void;
+}
+
+// First, last and the pages around the current one, with gaps marked by null
+const visiblePages = (page: number, pageCount: number) => {
+  const pages: (number | null)[] = [];
+  for (let p = 1; p <= pageCount; p++) {
+    if (p === 1 || p === pageCount || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
+
+const ListPagination = ({ page, pageCount, hrefFor, onPageChange }: ListPaginationProps) => {
+  if (pageCount <= 1) return null;
+
+  const go = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= pageCount && target !== page) onPageChange(target);
+  };
+
+  return (
+    <Pagination className="mt-4">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={hrefFor(Math.max(page - 1, 1))}
+            onClick={go(page - 1)}
+            className={page === 1 ? "pointer-events-none opacity-50" : ""}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((p, index) => (
+          <PaginationItem key={p ?? `gap-${index}`}>
+            {p === null ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink href={hrefFor(p)} onClick={go(p)} isActive={p === page}>
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href={hrefFor(Math.min(page + 1, pageCount))}
+            onClick={go(page + 1)}
+            className={page === pageCount ? "pointer-events-none opacity-50" : ""}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default ListPagination;
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { categoryTree } from "@/lib/categories";
+import { Edit, Trash2 } from "lucide-react";
+
+interface ManageCategoriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ManageCategoriesDialog = ({ open, onOpenChange }: ManageCategoriesDialogProps) => {
+  const [editingCategory, setEditingCategory] = useState<Tables<"categories"> | null>(null);
+  const [name, setName] = useState("");
+  const [parentId, setParentId] = useState("none");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: categories, isLoading } = useQuery({
+    queryKey: ["categories", "with-counts"],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*, products(count)")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const productCount = (category: { products: { count: number }[] }) => category.products[0]?.count ?? 0;
+  const hasSubcategories = (id: string) => categories?.some(category => category.parent_id === id);
+
+  // Only top-level categories can hold sub-categories, and a category with
+  // sub-categories of its own stays top-level
+  const parentOptions = categories?.filter(category =>
+    !category.parent_id && category.id !== editingCategory?.id) ?? [];
+  const canHaveParent = !editingCategory || !hasSubcategories(editingCategory.id);
+
+  const resetForm = () => {
+    setEditingCategory(null);
+    setName("");
+    setParentId("none");
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["categories"] });
+    queryClient.invalidateQueries({ queryKey: ["products"] });
+    queryClient.invalidateQueries({ queryKey: ["category-pricing"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const categoryData = { name: name.trim(), parent_id: parentId === "none" ? null : parentId };
+      const { error } = editingCategory
+        ? await supabase
+          .from("categories")
+          .update({ ...categoryData, updated_at: new Date().toISOString() })
+          .eq("id", editingCategory.id)
+        : await supabase.from("categories").insert(categoryData);
+      if (error) {
+        // Names are unique regardless of case
+        if (error.code === "23505") throw new Error(`There is already a category called ${categoryData.name}`);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "✅ Success",
+        description: editingCategory ? "Category updated" : "Category added",
+      });
+      resetForm();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("categories")
+        .delete()
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "✅ Success",
+        description: "Category deleted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (category: Tables<"categories">) => {
+    setEditingCategory(category);
+    setName(category.name);
+    setParentId(category.parent_id ?? "none");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    saveMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Product Categories</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4">
+            <div className="flex-1 min-w-48">
+              <Label htmlFor="categoryName">{editingCategory ? "Rename Category" : "New Category"}</Label>
+              <Input
+                id="categoryName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="w-56">
+              <Label>Parent</Label>
+              <Select value={parentId} onValueChange={setParentId} disabled={!canHaveParent}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None (top-level)</SelectItem>
+                  {parentOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex space-x-2">
+              {editingCategory && (
+                <Button type="button" variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              )}
+              <Button type="submit" disabled={!name.trim() || saveMutation.isPending}>
+                {editingCategory ? "Save" : "Add Category"}
+              </Button>
+            </div>
+          </form>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Products</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryTree(categories ?? []).map(({ category, depth }) => {
+                  const inUse = productCount(category) > 0 || hasSubcategories(category.id);
+                  return (
+                    <TableRow key={category.id}>
+                      <TableCell className={depth > 0 ? "pl-8 text-gray-700" : "font-medium"}>
+                        {category.name}
+                      </TableCell>
+                      <TableCell className="text-right">{productCount(category)}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button variant="ghost" size="sm" onClick={() => handleEdit(category)}>
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(category.id)}
+                            disabled={inUse}
+                            title={inUse ? "Move its products and sub-categories first" : undefined}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {categories?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-gray-500">
+                      No categories yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageCategoriesDialog;
@@ -0,0 +1,66 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { paymentMethodLabels } from "@/lib/payments";
+import { format } from "date-fns";
+
+interface PaymentHistoryProps {
+  saleId: string;
+}
+
+const PaymentHistory = ({ saleId }: PaymentHistoryProps) => {
+  const { data: payments, isLoading } = useQuery({
+    queryKey: ["payments", saleId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("sale_id", saleId)
+        .order("payment_date", { ascending: true })
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!payments || payments.length === 0) {
+    return <p className="text-center text-gray-500 py-4">No payments recorded yet</p>;
+  }
+
+  const totalPaid = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Method</TableHead>
+          <TableHead>Reference</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {payments.map((payment) => (
+          <TableRow key={payment.id}>
+            <TableCell>{format(new Date(payment.payment_date), "MMM dd, yyyy")}</TableCell>
+            <TableCell>{paymentMethodLabels[payment.method]}</TableCell>
+            <TableCell>{payment.reference}</TableCell>
+            <TableCell className="text-right">RWF {Number(payment.amount).toLocaleString()}</TableCell>
+          </TableRow>
+        ))}
+        <TableRow>
+          <TableCell colSpan={3} className="font-bold">Total Paid</TableCell>
+          <TableCell className="text-right font-bold text-green-600">
+            RWF {totalPaid.toLocaleString()}
+          </TableCell>
+        </TableRow>
+      </TableBody>
+    </Table>
+  );
+};
+
+export default PaymentHistory;
@@ -0,0 +1,481 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import CreditLimitDialog from "@/components/CreditLimitDialog";
+import CustomerPicker from "@/components/CustomerPicker";
+import { useToast } from "@/hooks/use-toast";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { useCustomerPrices } from "@/hooks/use-customer-prices";
+import { calculateSaleTotals } from "@/lib/sale-totals";
+import { resolvePrice, type PricingRules } from "@/lib/pricing";
+import { checkCreditLimit, createSale, invalidateSaleQueries, type CreditCheck } from "@/lib/sales";
+import { withoutVariantParents } from "@/lib/variants";
+import { ScanBarcode, X, Minus, Plus, Trash2, FileText } from "lucide-react";
+
+interface PosModeProps {
+  onClose: () => void;
+  onShowReceipt: (saleId: string) => void;
+}
+
+interface PosLine {
+  product: Tables<"products">;
+  quantity: number;
+}
+
+const WALK_IN_CUSTOMER = "Walk-in Customer";
+
+// Full-screen quick entry for walk-in sales. A barcode scanner in keyboard
+// wedge mode types the SKU followed by Enter, so the scan field only needs
+// to handle Enter. Typed shortcuts work from the same field:
+//   SKU or 3*SKU   add one (or three) of the product
+//   *5             set the selected line to 5 units
+//   + / -          change the selected line by one (empty field)
+//   ↑ / ↓          move the selection
+//   Delete         remove the selected line (empty field)
+//   Ctrl+Enter     check out, Esc closes
+const PosMode = ({ onClose, onShowReceipt }: PosModeProps) => {
+  const [lines, setLines] = useState<PosLine[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [scanValue, setScanValue] = useState("");
+  const [customerName, setCustomerName] = useState(WALK_IN_CUSTOMER);
+  // Null while selling to the walk-in customer
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [onCredit, setOnCredit] = useState(false);
+  const [lastSale, setLastSale] = useState<{ id: string; total: number } | null>(null);
+  const [creditCheck, setCreditCheck] = useState<CreditCheck | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useAppSettings();
+
+  const { data: products } = useQuery({
+    queryKey: ["products"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*")
+        .eq("is_active", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: categoryPricing } = useQuery({
+    queryKey: ["category-pricing"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("category_pricing")
+        .select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: customers } = useQuery({
+    queryKey: ["customers", "active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("*, price_lists(name)")
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: customerBalances } = useQuery({
+    queryKey: ["debtors", "open-balances"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("debtors")
+        .select("customer_id, amount_owed, amount_paid")
+        .eq("is_resolved", false);
+      if (error) throw error;
+      return data.reduce<Record<string, number>>((balances, debtor) => {
+        balances[debtor.customer_id] = (balances[debtor.customer_id] || 0) +
+          Number(debtor.amount_owed) - Number(debtor.amount_paid);
+        return balances;
+      }, {});
+    },
+  });
+
+  // The first walk-in sale creates the walk-in customer; later ones reuse it
+  const walkInCustomer = customers?.find(c => c.name === WALK_IN_CUSTOMER);
+  const selectedCustomer = customerId ? customers?.find(c => c.id === customerId) : walkInCustomer;
+
+  // Priced the same way as the sale dialog, so a customer's price list
+  // applies here too
+  const priceListId = selectedCustomer?.price_list_id;
+  const { data: customerPrices } = useCustomerPrices(priceListId);
+
+  const pricingRules: PricingRules = {
+    settings,
+    categories: categoryPricing || [],
+    customerPrices: (priceListId && customerPrices) || {},
+  };
+
+  // Lines follow the customer: typing their name after scanning reprices them
+  const linePrice = (line: PosLine) => resolvePrice(line.product, pricingRules).price;
+
+  const tax = {
+    rate: Number(settings?.tax_rate ?? 0),
+    inclusive: settings?.prices_include_tax ?? true,
+  };
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * linePrice(line), 0);
+  const totals = calculateSaleTotals(subtotal, { type: null, value: 0 }, tax);
+
+  const focusScan = () => scanInputRef.current?.focus();
+
+  const showError = (description: string) => {
+    toast({
+      title: "Error",
+      description,
+      variant: "destructive",
+    });
+  };
+
+  const setLineQuantity = (index: number, quantity: number) => {
+    const line = lines[index];
+    if (!line) return;
+    if (quantity <= 0) {
+      removeLine(index);
+      return;
+    }
+    if (quantity > line.product.stock_quantity) {
+      showError(`Only ${line.product.stock_quantity} of ${line.product.name} in stock`);
+      return;
+    }
+    setLines(lines.map((l, i) => (i === index ? { ...l, quantity } : l)));
+  };
+
+  const removeLine = (index: number) => {
+    setLines(lines.filter((_, i) => i !== index));
+    setSelectedIndex(Math.max(0, Math.min(selectedIndex, lines.length - 2)));
+  };
+
+  const addProduct = (product: Tables<"products">, quantity: number) => {
+    const existingIndex = lines.findIndex(line => line.product.id === product.id);
+    const currentQuantity = existingIndex >= 0 ? lines[existingIndex].quantity : 0;
+    if (currentQuantity + quantity > product.stock_quantity) {
+      showError(`Only ${product.stock_quantity} of ${product.name} in stock`);
+      return;
+    }
+
+    if (existingIndex >= 0) {
+      setLines(lines.map((line, i) => (i === existingIndex ? { ...line, quantity: line.quantity + quantity } : line)));
+      setSelectedIndex(existingIndex);
+    } else {
+      setLines([...lines, { product, quantity }]);
+      setSelectedIndex(lines.length);
+    }
+  };
+
+  const handleScan = (value: string) => {
+    // "*5" sets the quantity of the selected line
+    const setQuantity = value.match(/^\*(\d+)$/);
+    if (setQuantity) {
+      setLineQuantity(selectedIndex, parseInt(setQuantity[1]));
+      return;
+    }
+
+    // "3*SKU" adds several units at once
+    const withQuantity = value.match(/^(\d+)\*(.+)$/);
+    const quantity = withQuantity ? parseInt(withQuantity[1]) : 1;
+    const code = (withQuantity ? withQuantity[2] : value).trim().toLowerCase();
+
+    const sellable = withoutVariantParents(products || []);
+    const product = sellable.find(p => p.sku?.toLowerCase() === code)
+      || sellable.find(p => p.name.toLowerCase() === code);
+    if (!product) {
+      showError(`No product with SKU "${code}"`);
+      return;
+    }
+    addProduct(product, quantity);
+  };
+
+  // Quick add: POS only needs a name, details can be filled in later
+  const createCustomerMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase
+        .from("customers")
+        .insert({ name })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (customer) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      setCustomerName(customer.name);
+      setCustomerId(customer.id);
+      focusScan();
+    },
+    onError: (error: Error) => showError(error.message),
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: (creditOverrideReason?: string) => createSale({
+      customerId: customerId ?? walkInCustomer?.id,
+      customerName: customerId ? customerName : WALK_IN_CUSTOMER,
+      paymentStatus: onCredit ? "pending" : "paid",
+      creditOverrideReason,
+      items: lines.map(line => ({
+        product_id: line.product.id,
+        quantity: line.quantity,
+        unit_price: linePrice(line),
+      })),
+      discount: { type: null, value: 0 },
+      tax,
+    }),
+    onSuccess: (sale) => {
+      invalidateSaleQueries(queryClient);
+      setLastSale({ id: sale.id, total: Number(sale.total_amount) });
+      setLines([]);
+      setSelectedIndex(0);
+      setCustomerName(WALK_IN_CUSTOMER);
+      setCustomerId(null);
+      setOnCredit(false);
+      toast({
+        title: "✅ Success",
+        description: `Sale of RWF ${Number(sale.total_amount).toLocaleString()} recorded`,
+      });
+      focusScan();
+    },
+    onError: (error: Error) => {
+      showError(error.message);
+      focusScan();
+    },
+  });
+
+  const checkout = async () => {
+    if (lines.length === 0 || checkoutMutation.isPending) return;
+    if (onCredit && (!selectedCustomer || selectedCustomer.id === walkInCustomer?.id)) {
+      showError("Choose the customer to sell on credit");
+      return;
+    }
+
+    // Same credit limit check as the sale dialog
+    if (onCredit && selectedCustomer) {
+      try {
+        const check = await checkCreditLimit(selectedCustomer, totals.totalAmount);
+        if (check?.exceeded) {
+          setCreditCheck(check);
+          return;
+        }
+      } catch (error) {
+        showError((error as Error).message);
+        return;
+      }
+    }
+
+    checkoutMutation.mutate(undefined);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const isEmpty = scanValue === "";
+
+    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      checkout();
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      if (!isEmpty) handleScan(scanValue);
+      setScanValue("");
+    } else if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setSelectedIndex(Math.min(selectedIndex + 1, lines.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setSelectedIndex(Math.max(selectedIndex - 1, 0));
+    } else if (isEmpty && (e.key === "+" || e.key === "-")) {
+      e.preventDefault();
+      const line = lines[selectedIndex];
+      if (line) setLineQuantity(selectedIndex, line.quantity + (e.key === "+" ? 1 : -1));
+    } else if (isEmpty && e.key === "Delete") {
+      e.preventDefault();
+      if (lines[selectedIndex]) removeLine(selectedIndex);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      if (isEmpty) onClose();
+      else setScanValue("");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-gray-100 dark:bg-gray-900">
+      <div className="flex items-center justify-between bg-white dark:bg-gray-800 shadow px-6 py-4">
+        <div className="flex items-center space-x-2">
+          <ScanBarcode className="h-6 w-6 text-blue-600" />
+          <h1 className="text-2xl font-bold">Point of Sale</h1>
+        </div>
+        <Button variant="outline" onClick={onClose}>
+          <X className="h-4 w-4 mr-2" />
+          Exit POS
+        </Button>
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        <div className="flex-1 flex flex-col p-6 space-y-4 overflow-hidden">
+          <Input
+            ref={scanInputRef}
+            autoFocus
+            value={scanValue}
+            onChange={(e) => setScanValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Scan a barcode or type a SKU and press Enter"
+            className="h-14 text-xl"
+          />
+          <p className="text-xs text-gray-500">
+            3*SKU adds several · *5 sets the quantity · +/- adjust · ↑/↓ select · Delete removes · Ctrl+Enter checks out · Esc exits
+          </p>
+
+          <div className="flex-1 overflow-y-auto bg-white dark:bg-gray-800 rounded shadow">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>SKU</TableHead>
+                  <TableHead className="text-right">Price</TableHead>
+                  <TableHead className="text-center">Qty</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow
+                    key={line.product.id}
+                    onClick={() => {
+                      setSelectedIndex(index);
+                      focusScan();
+                    }}
+                    className={index === selectedIndex ? "bg-blue-50 dark:bg-blue-950" : ""}
+                  >
+                    <TableCell className="font-medium">{line.product.name}</TableCell>
+                    <TableCell>{line.product.sku}</TableCell>
+                    <TableCell className="text-right">RWF {linePrice(line).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-center space-x-2">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLineQuantity(index, line.quantity - 1)}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <span className="w-8 text-center">{line.quantity}</span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setLineQuantity(index, line.quantity + 1)}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">RWF {(line.quantity * linePrice(line)).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Button type="button" variant="ghost" size="sm" onClick={() => removeLine(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {lines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500 py-12">
+                      Scan a product to start a sale
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        <div className="w-96 bg-white dark:bg-gray-800 shadow-lg p-6 flex flex-col space-y-4">
+          <div>
+            <Label>Customer</Label>
+            <CustomerPicker
+              customers={customers || []}
+              balances={customerBalances || {}}
+              selectedId={selectedCustomer?.id ?? null}
+              value={customerName}
+              onSelect={(customer) => {
+                setCustomerName(customer.name);
+                setCustomerId(customer.id);
+                focusScan();
+              }}
+              onCreate={(name) => createCustomerMutation.mutate(name)}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Switch id="posOnCredit" checked={onCredit} onCheckedChange={setOnCredit} />
+            <Label htmlFor="posOnCredit">Sell on credit</Label>
+          </div>
+
+          <div className="space-y-1 text-sm border-t pt-4">
+            <div className="flex justify-between">
+              <span>Items</span>
+              <span>{lines.reduce((sum, line) => sum + line.quantity, 0)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Net (excl. VAT)</span>
+              <span>RWF {totals.netAmount.toLocaleString()}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>VAT ({tax.rate}%{tax.inclusive ? ", included" : ""})</span>
+              <span>RWF {totals.taxAmount.toLocaleString()}</span>
+            </div>
+          </div>
+          <div className="flex justify-between text-3xl font-bold">
+            <span>Total</span>
+            <span>RWF {totals.totalAmount.toLocaleString()}</span>
+          </div>
+
+          <Button
+            className="h-14 text-lg"
+            onClick={checkout}
+            disabled={lines.length === 0 || checkoutMutation.isPending}
+          >
+            {checkoutMutation.isPending ? "Recording..." : "Checkout (Ctrl+Enter)"}
+          </Button>
+
+          {lastSale && (
+            <div className="mt-auto rounded border border-green-300 bg-green-50 p-3 text-sm text-green-800">
+              <div>Last sale: RWF {lastSale.total.toLocaleString()}</div>
+              <Button variant="link" className="px-0 h-auto" onClick={() => onShowReceipt(lastSale.id)}>
+                <FileText className="h-4 w-4 mr-1" />
+                Print receipt
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <CreditLimitDialog
+        creditCheck={creditCheck}
+        customerName={customerName}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCreditCheck(null);
+            focusScan();
+          }
+        }}
+        onOverride={(reason) => checkoutMutation.mutate(reason)}
+      />
+    </div>
+  );
+};
+
+export default PosMode;
@@ -0,0 +1,219 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import {
+  ProductImportMapping,
+  guessProductImportMapping,
+  productImportFields,
+  readSpreadsheet,
+  validateProductImport,
+} from "@/lib/product-import";
+
+interface ProductImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Render with a fresh key per opening so each import starts from an empty form
+const ProductImportDialog = ({ open, onOpenChange }: ProductImportDialogProps) => {
+  const [file, setFile] = useState<{ name: string; headers: string[]; rows: string[][] } | null>(null);
+  const [mapping, setMapping] = useState<ProductImportMapping | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Archived products are included so their SKUs aren't reused by accident
+  const { data: existingProducts } = useQuery({
+    queryKey: ["products", "import-lookup"],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, sku, name, is_active, parent_id");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: categories } = useCategories();
+
+  const importRows = file && mapping && existingProducts && categories
+    ? validateProductImport(file.rows, mapping, existingProducts, categories)
+    : [];
+  const validRows = importRows.filter(row => row.errors.length === 0);
+  const invalidCount = importRows.length - validRows.length;
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("import_products", {
+        p_rows: validRows.map(row => row.values),
+      });
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-ledger-discrepancies"] });
+      onOpenChange(false);
+      toast({
+        title: "✅ Success",
+        description: `Import complete: ${result.created} created, ${result.updated} updated` +
+          (invalidCount > 0 ? `, ${invalidCount} skipped` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    setIsReading(true);
+    try {
+      const { headers, rows } = await readSpreadsheet(selected);
+      setFile({ name: selected.name, headers, rows });
+      setMapping(guessProductImportMapping(headers));
+    } catch (error) {
+      setFile(null);
+      setMapping(null);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const mappedFields = productImportFields.filter(field => mapping?.[field.key] !== null);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-6">
+          <div>
+            <Label htmlFor="importFile">CSV or Excel file</Label>
+            <Input id="importFile" type="file" accept=".csv,.xlsx" onChange={handleFileChange} disabled={isReading} />
+            <p className="text-xs text-gray-500 mt-1">
+              The first row must hold column headers. Rows whose SKU matches an existing product update it; other
+              rows create new products. Empty cells leave the current value unchanged.
+            </p>
+          </div>
+
+          {isReading && <div>Reading file...</div>}
+
+          {file && mapping && (
+            <>
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Column Mapping</p>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  {productImportFields.map((field) => (
+                    <div key={field.key}>
+                      <Label>{field.label}</Label>
+                      <Select
+                        value={mapping[field.key] === null ? "none" : String(mapping[field.key])}
+                        onValueChange={(value) => setMapping({
+                          ...mapping,
+                          [field.key]: value === "none" ? null : parseInt(value),
+                        })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Don't import</SelectItem>
+                          {file.headers.map((header, index) => (
+                            <SelectItem key={index} value={String(index)}>
+                              {header || `Column ${index + 1}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm font-medium">
+                  Preview: {file.rows.length} rows in {file.name}
+                  {invalidCount > 0 && <span className="text-red-600"> · {invalidCount} with errors will be skipped</span>}
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Action</TableHead>
+                      {mappedFields.map((field) => (
+                        <TableHead key={field.key}>{field.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {importRows.map((row) => (
+                      <TableRow key={row.line} className={row.errors.length > 0 ? "bg-red-50" : undefined}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <div className="space-y-1">
+                              <Badge variant="destructive">Error</Badge>
+                              {row.errors.map((error) => (
+                                <p key={error} className="text-xs text-red-600">{error}</p>
+                              ))}
+                            </div>
+                          ) : (
+                            <Badge variant={row.action === "create" ? "default" : "secondary"}>
+                              {row.action === "create" ? "Create" : "Update"}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        {mappedFields.map((field) => (
+                          <TableCell key={field.key}>{row.values[field.key] ?? ""}</TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => importMutation.mutate()}
+              disabled={validRows.length === 0 || importMutation.isPending}
+            >
+              {importMutation.isPending ? "Importing..." : `Import ${validRows.length} Products`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductImportDialog;
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { purchaseOrderNumber } from "@/lib/purchasing";
+
+interface ReceivePurchaseOrderDialogProps {
+  purchaseOrderId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Render with key={purchaseOrderId} so each order starts from a fresh form
+const ReceivePurchaseOrderDialog = ({ purchaseOrderId, onOpenChange }: ReceivePurchaseOrderDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: purchaseOrder, isLoading } = useQuery({
+    queryKey: ["purchase-order", purchaseOrderId],
+    enabled: !!purchaseOrderId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("purchase_orders")
+        .select("*, suppliers(name), purchase_order_items(*, products(name, sku))")
+        .eq("id", purchaseOrderId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Lines default to receiving everything still outstanding
+  const quantityFor = (item: { id: string; quantity: number; quantity_received: number }) =>
+    quantities[item.id] ?? String(item.quantity - item.quantity_received);
+
+  const receiveItems = (purchaseOrder?.purchase_order_items ?? [])
+    .map(item => ({ purchase_order_item_id: item.id, quantity: parseInt(quantityFor(item)) || 0 }))
+    .filter(item => item.quantity > 0);
+
+  const receiveMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("receive_purchase_order", {
+        p_purchase_order_id: purchaseOrderId,
+        p_items: receiveItems,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (order) => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-order", purchaseOrderId] });
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      onOpenChange(false);
+      toast({
+        title: "✅ Success",
+        description: order.status === "received"
+          ? "Stock received. The purchase order is complete."
+          : "Stock received. The rest of the order is still outstanding.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!purchaseOrderId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Receive Stock{purchaseOrder ? ` - ${purchaseOrderNumber(purchaseOrder.id)}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !purchaseOrder ? (
+          <div>Loading...</div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              receiveMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-gray-600">
+              {purchaseOrder.suppliers?.name}. Received items are added to stock at the unit cost on this order,
+              which feeds into each product's cost under the costing method.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Ordered</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="w-32">Receive Now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchaseOrder.purchase_order_items.map((item) => {
+                  const outstanding = item.quantity - item.quantity_received;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        {item.products?.name}
+                        {item.products?.sku && <span className="text-xs text-gray-500"> · {item.products.sku}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">RWF {Number(item.unit_cost).toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{item.quantity_received}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding}
+                          value={quantityFor(item)}
+                          onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                          disabled={outstanding === 0}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={receiveItems.length === 0 || receiveMutation.isPending}>
+                {receiveMutation.isPending ? "Receiving..." : "Receive Stock"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceivePurchaseOrderDialog;
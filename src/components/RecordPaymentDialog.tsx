@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { paymentMethodLabels } from "@/lib/payments";
+import { format } from "date-fns";
+
+interface RecordPaymentDialogProps {
+  debtor: {
+    id: string;
+    amount_owed: number;
+    amount_paid: number;
+    customers?: { name: string } | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Render with key={debtor?.id} so each debtor starts from a fresh form
+const RecordPaymentDialog = ({ debtor, onOpenChange }: RecordPaymentDialogProps) => {
+  const balance = debtor ? Number(debtor.amount_owed) - Number(debtor.amount_paid) : 0;
+  const [amount, setAmount] = useState(balance.toString());
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [method, setMethod] = useState<Enums<"payment_method">>("cash");
+  const [reference, setReference] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("record_payment", {
+        p_debtor_id: debtor.id,
+        p_amount: parseFloat(amount),
+        p_method: method,
+        p_payment_date: paymentDate,
+        p_reference: reference || null,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ["debtors"] });
+      queryClient.invalidateQueries({ queryKey: ["debtor-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["payments"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-profile"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-statement"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      onOpenChange(false);
+      toast({
+        title: "✅ Success",
+        description: Number(payment.amount) >= balance
+          ? "Payment recorded. The debt is now fully paid."
+          : `Payment recorded. RWF ${(balance - Number(payment.amount)).toLocaleString()} still outstanding.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0 || value > balance) {
+      toast({
+        title: "Error",
+        description: `Enter an amount greater than 0 and at most RWF ${balance.toLocaleString()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    recordPaymentMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!debtor} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+        </DialogHeader>
+        {debtor && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>{debtor.customers?.name || "Unknown Customer"}</p>
+              <p>
+                Outstanding balance:{" "}
+                <span className="font-bold text-red-600">RWF {balance.toLocaleString()}</span>
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="amount">Amount (RWF)</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={balance}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="paymentDate">Payment Date</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="method">Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as Enums<"payment_method">)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reference">Reference (Optional)</Label>
+                <Input
+                  id="reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Transaction ID, cheque no..."
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={recordPaymentMutation.isPending}>
+                {recordPaymentMutation.isPending ? "Recording..." : "Record Payment"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RecordPaymentDialog;
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/csv";
+import { isLowStock, suggestedReorderQuantity } from "@/lib/stock";
+import { withoutVariantParents } from "@/lib/variants";
+import { Download, ClipboardList } from "lucide-react";
+import { format } from "date-fns";
+
+interface ReorderListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReorderListDialog = ({ open, onOpenChange }: ReorderListDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [supplierId, setSupplierId] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  const { data: reorderList, isLoading } = useQuery({
+    queryKey: ["products", "reorder-list"],
+    enabled: open,
+    queryFn: async () => {
+      const [productsResult, onOrderResult] = await Promise.all([
+        supabase
+          .from("products")
+          .select("id, parent_id, name, sku, cost, stock_quantity, reorder_level, reorder_quantity")
+          .eq("is_active", true)
+          .order("name"),
+        supabase
+          .from("purchase_order_items")
+          .select("product_id, quantity, quantity_received, purchase_orders!inner(status)")
+          .in("purchase_orders.status", ["ordered", "partially_received"]),
+      ]);
+      if (productsResult.error) throw productsResult.error;
+      if (onOrderResult.error) throw onOrderResult.error;
+
+      const onOrder: Record<string, number> = {};
+      onOrderResult.data.forEach(item => {
+        onOrder[item.product_id] = (onOrder[item.product_id] || 0) + item.quantity - item.quantity_received;
+      });
+
+      return withoutVariantParents(productsResult.data)
+        .filter(isLowStock)
+        .map(product => ({
+          ...product,
+          onOrder: onOrder[product.id] || 0,
+          suggested: suggestedReorderQuantity(product, onOrder[product.id]),
+        }));
+    },
+  });
+
+  const { data: suppliers } = useQuery({
+    queryKey: ["suppliers", { showArchived: false }],
+    enabled: open,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("suppliers")
+        .select("*, purchase_orders(status, received_amount, amount_paid)")
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const quantityFor = (item: { id: string; suggested: number }) =>
+    quantities[item.id] ?? String(item.suggested);
+
+  const orderLines = (reorderList ?? [])
+    .map(item => ({ product_id: item.id, quantity: parseInt(quantityFor(item)) || 0, unit_cost: Number(item.cost) }))
+    .filter(line => line.quantity > 0);
+
+  const createOrderMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("create_purchase_order", {
+        p_supplier_id: supplierId,
+        p_items: orderLines,
+        p_notes: "Created from the reorder list",
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["products", "reorder-list"] });
+      onOpenChange(false);
+      navigate("/purchase-orders");
+      toast({
+        title: "✅ Success",
+        description: "Purchase order created from the reorder list",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleExport = () => {
+    downloadCsv(`Reorder-List-${format(new Date(), "yyyy-MM-dd")}.csv`, [
+      ["Product", "SKU", "On Hand", "Reorder Level", "On Order", "Order Quantity", "Unit Cost", "Line Total"],
+      ...(reorderList ?? []).map(item => {
+        const quantity = parseInt(quantityFor(item)) || 0;
+        return [
+          item.name,
+          item.sku,
+          item.stock_quantity,
+          item.reorder_level,
+          item.onOrder,
+          quantity,
+          Number(item.cost),
+          quantity * Number(item.cost),
+        ];
+      }),
+    ]);
+  };
+
+  const orderTotal = orderLines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reorder List</DialogTitle>
+        </DialogHeader>
+        {isLoading || !reorderList ? (
+          <div>Loading...</div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Products at or below their reorder level. Quantities already on open purchase orders are taken off
+              the suggestion.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">On Hand</TableHead>
+                  <TableHead className="text-right">Reorder Level</TableHead>
+                  <TableHead className="text-right">On Order</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="w-32">Order Qty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reorderList.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-gray-500">
+                      No products are low on stock
+                    </TableCell>
+                  </TableRow>
+                )}
+                {reorderList.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>
+                      {item.name}
+                      {item.sku && <span className="text-xs text-gray-500"> · {item.sku}</span>}
+                    </TableCell>
+                    <TableCell className="text-right font-bold text-red-600">{item.stock_quantity}</TableCell>
+                    <TableCell className="text-right">{item.reorder_level}</TableCell>
+                    <TableCell className="text-right">{item.onOrder || "-"}</TableCell>
+                    <TableCell className="text-right">RWF {Number(item.cost).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={quantityFor(item)}
+                        onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-wrap items-end justify-between gap-4">
+              <div className="w-64">
+                <Label>Supplier</Label>
+                <Select value={supplierId} onValueChange={setSupplierId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {suppliers?.map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="text-right text-sm">
+                <p className="text-gray-500">Order Total</p>
+                <p className="text-lg font-bold">RWF {orderTotal.toLocaleString()}</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={handleExport} disabled={reorderList.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button
+                type="button"
+                onClick={() => createOrderMutation.mutate()}
+                disabled={!supplierId || orderLines.length === 0 || createOrderMutation.isPending}
+              >
+                <ClipboardList className="h-4 w-4 mr-2" />
+                {createOrderMutation.isPending ? "Creating..." : "Create Purchase Order"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReorderListDialog;
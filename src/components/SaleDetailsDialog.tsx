@@ -0,0 +1,274 @@
+import { useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Paperclip, Trash2, Upload } from "lucide-react";
+import { format } from "date-fns";
+
+const BUCKET = "sale-attachments";
+
+interface SaleDetailsDialogProps {
+  saleId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const SaleDetailsDialog = ({ saleId, onOpenChange }: SaleDetailsDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sale, isLoading } = useQuery({
+    queryKey: ["sale-details", saleId],
+    enabled: !!saleId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales")
+        .select(`
+          *,
+          customers(name, email, phone),
+          sale_items(id, quantity, unit_price, discount_amount, line_total, products(name))
+        `)
+        .eq("id", saleId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: attachments } = useQuery({
+    queryKey: ["sale-attachments", saleId],
+    enabled: !!saleId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sale_attachments")
+        .select("*")
+        .eq("sale_id", saleId)
+        .order("created_at");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidateAttachments = () => {
+    queryClient.invalidateQueries({ queryKey: ["sale-attachments", saleId] });
+    queryClient.invalidateQueries({ queryKey: ["sales"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      for (const file of files) {
+        // Storage rejects keys with characters like # or ?, so the key gets a
+        // safe copy of the name; the original is kept for display
+        const filePath = `${saleId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]/g, "_")}`;
+        const { error: uploadError } = await supabase.storage
+          .from(BUCKET)
+          .upload(filePath, file, { contentType: file.type || undefined });
+        if (uploadError) throw uploadError;
+
+        const { error } = await supabase
+          .from("sale_attachments")
+          .insert({
+            sale_id: saleId,
+            user_id: user.id,
+            file_path: filePath,
+            file_name: file.name,
+            content_type: file.type || null,
+            size_bytes: file.size,
+          });
+        if (error) {
+          // Don't leave an orphaned file behind when the record fails
+          await supabase.storage.from(BUCKET).remove([filePath]);
+          throw error;
+        }
+      }
+    },
+    onSuccess: (_, files) => {
+      invalidateAttachments();
+      toast({
+        title: "✅ Success",
+        description: `${files.length} file${files.length === 1 ? "" : "s"} attached`,
+      });
+    },
+    onError: (error: Error) => {
+      invalidateAttachments();
+      onError(error);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachment: Tables<"sale_attachments">) => {
+      const { error } = await supabase
+        .from("sale_attachments")
+        .delete()
+        .eq("id", attachment.id);
+      if (error) throw error;
+
+      const { error: storageError } = await supabase.storage
+        .from(BUCKET)
+        .remove([attachment.file_path]);
+      if (storageError) throw storageError;
+    },
+    onSuccess: () => {
+      invalidateAttachments();
+      toast({
+        title: "✅ Success",
+        description: "Attachment removed",
+      });
+    },
+    onError,
+  });
+
+  // The bucket is private, so downloads go through a short-lived signed URL
+  const downloadAttachment = async (attachment: Tables<"sale_attachments">) => {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .createSignedUrl(attachment.file_path, 60, { download: attachment.file_name });
+    if (error) {
+      onError(error);
+      return;
+    }
+    window.open(data.signedUrl, "_blank");
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length > 0) uploadMutation.mutate(files);
+  };
+
+  return (
+    <Dialog open={!!saleId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Sale Details{sale?.customers?.name ? ` - ${sale.customers.name}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !sale ? (
+          <div>Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Date</p>
+                <p className="font-medium">{format(new Date(sale.sale_date), "MMM dd, yyyy")}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Payment Status</p>
+                <p className="font-medium capitalize">{sale.payment_status}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Total</p>
+                <p className="font-medium">RWF {Number(sale.total_amount).toLocaleString()}</p>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">Line Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sale.sale_items.map((item) => (
+                  <TableRow key={item.id}>
+                    <TableCell>{item.products?.name}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">RWF {Number(item.unit_price).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">RWF {Number(item.line_total).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div>
+              <Label>Notes</Label>
+              <p className="text-sm whitespace-pre-wrap mt-1">
+                {sale.notes || <span className="text-gray-500">No notes</span>}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Attachments</Label>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploadMutation.isPending}
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  {uploadMutation.isPending ? "Uploading..." : "Attach Files"}
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept="image/*,application/pdf"
+                  className="hidden"
+                  onChange={handleFiles}
+                />
+              </div>
+              {attachments?.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  No attachments. Add signed delivery notes or photos of payment slips.
+                </p>
+              )}
+              {attachments?.map((attachment) => (
+                <div key={attachment.id} className="flex items-center justify-between rounded border p-2 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Paperclip className="h-4 w-4 text-gray-500" />
+                    <span className="font-medium">{attachment.file_name}</span>
+                    <span className="text-gray-500">
+                      {formatFileSize(attachment.size_bytes)} · {format(new Date(attachment.created_at), "MMM dd, yyyy")}
+                    </span>
+                  </div>
+                  <div className="flex space-x-1">
+                    <Button variant="ghost" size="sm" onClick={() => downloadAttachment(attachment)}>
+                      <Download className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(attachment)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaleDetailsDialog;
@@ -0,0 +1,158 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { company } from "@/lib/company";
+import { buildSaleDocument, companyLines, downloadSaleDocumentPdf, formatMoney, taxSummaryLines } from "@/lib/sale-documents";
+import { Printer, Download } from "lucide-react";
+import { format } from "date-fns";
+
+interface SaleDocumentDialogProps {
+  saleId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SaleDocumentDialog = ({ saleId, onOpenChange }: SaleDocumentDialogProps) => {
+  const { data: saleDocument, isLoading } = useQuery({
+    queryKey: ["sale-document", saleId],
+    enabled: !!saleId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales")
+        .select(`
+          *,
+          customers(name, email, phone, address),
+          sale_items(id, quantity, unit_price, discount_amount, line_total, products(name)),
+          payments(amount)
+        `)
+        .eq("id", saleId)
+        .single();
+      if (error) throw error;
+
+      const { customers, sale_items, payments, ...sale } = data;
+      return buildSaleDocument({
+        sale,
+        customer: customers,
+        items: sale_items.map((item) => ({
+          id: item.id,
+          name: item.products?.name || "Unknown product",
+          quantity: item.quantity,
+          unit_price: Number(item.unit_price),
+          discount_amount: Number(item.discount_amount),
+          line_total: Number(item.line_total),
+        })),
+        amountPaid: payments.reduce((sum, payment) => sum + Number(payment.amount), 0),
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!saleId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="no-print">
+          <DialogTitle>{saleDocument?.title || "Sale Document"}</DialogTitle>
+        </DialogHeader>
+        {isLoading || !saleDocument ? (
+          <div>Loading...</div>
+        ) : (
+          <>
+            <div className="print-area space-y-6 bg-white text-gray-900 p-6">
+              <div className="flex justify-between">
+                <div>
+                  <h2 className="text-2xl font-bold text-blue-600">{company.name}</h2>
+                  {companyLines().map((line) => (
+                    <p key={line} className="text-sm text-gray-600">{line}</p>
+                  ))}
+                </div>
+                <div className="text-right">
+                  <h3 className="text-xl font-bold uppercase">{saleDocument.title}</h3>
+                  <p className="text-sm">{saleDocument.number}</p>
+                  <p className="text-sm">Date: {format(new Date(saleDocument.sale.sale_date), "MMM dd, yyyy")}</p>
+                  {saleDocument.kind === "invoice" && saleDocument.sale.due_date && (
+                    <p className="text-sm">Due: {format(new Date(saleDocument.sale.due_date), "MMM dd, yyyy")}</p>
+                  )}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-500">Bill To</p>
+                <p className="font-medium">{saleDocument.customer?.name}</p>
+                {saleDocument.customer?.address && <p className="text-sm">{saleDocument.customer.address}</p>}
+                {saleDocument.customer?.phone && <p className="text-sm">{saleDocument.customer.phone}</p>}
+                {saleDocument.customer?.email && <p className="text-sm">{saleDocument.customer.email}</p>}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
+                    <TableHead className="text-right">Line Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {saleDocument.items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.name}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">{formatMoney(item.unit_price)}</TableCell>
+                      <TableCell className="text-right">
+                        {item.discount_amount > 0 ? formatMoney(-item.discount_amount) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">{formatMoney(item.line_total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="ml-auto w-64 space-y-1 text-sm">
+                {taxSummaryLines(saleDocument.sale).map(([label, amount]) => (
+                  <div key={label} className="flex justify-between">
+                    <span>{label}</span>
+                    <span>{formatMoney(amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-bold">
+                  <span>Total</span>
+                  <span>{formatMoney(saleDocument.total)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Amount Paid</span>
+                  <span>{formatMoney(saleDocument.amountPaid)}</span>
+                </div>
+                <div className="flex justify-between font-bold">
+                  <span>Balance Due</span>
+                  <span className={saleDocument.balance > 0 ? "text-red-600" : "text-green-600"}>
+                    {formatMoney(saleDocument.balance)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Payment Status</span>
+                  <span className="uppercase">{saleDocument.sale.payment_status}</span>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">Thank you for your business.</p>
+            </div>
+
+            <div className="no-print flex justify-end space-x-2">
+              <Button variant="outline" onClick={() => window.print()}>
+                <Printer className="h-4 w-4 mr-2" />
+                Print
+              </Button>
+              <Button onClick={() => downloadSaleDocumentPdf(saleDocument)}>
+                <Download className="h-4 w-4 mr-2" />
+                Download PDF
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaleDocumentDialog;
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+
+interface SaleReturnDialogProps {
+  saleId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Render with key={saleId} so each sale starts from a fresh form
+const SaleReturnDialog = ({ saleId, onOpenChange }: SaleReturnDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState("");
+  const [returnDate, setReturnDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: sale, isLoading } = useQuery({
+    queryKey: ["sale-return-source", saleId],
+    enabled: !!saleId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sales")
+        .select(`
+          id,
+          subtotal,
+          total_amount,
+          customers(name),
+          sale_items(id, quantity, unit_price, line_total, products(name), sale_return_items(quantity)),
+          debtors(amount_owed, amount_paid, is_resolved)
+        `)
+        .eq("id", saleId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Same as sale_item_refund: the line's share of the sale total, so order
+  // discounts and tax are refunded in proportion
+  const saleShare = sale && Number(sale.subtotal) > 0 ? Number(sale.total_amount) / Number(sale.subtotal) : 0;
+
+  const lines = sale?.sale_items.map((item) => {
+    const returned = item.sale_return_items.reduce((sum, r) => sum + r.quantity, 0);
+    return {
+      id: item.id,
+      name: item.products?.name || "Unknown product",
+      sold: item.quantity,
+      returned,
+      remaining: item.quantity - returned,
+      unitPrice: Number(item.unit_price),
+      unitRefund: Number(item.line_total) / item.quantity * saleShare,
+    };
+  }) || [];
+
+  const returnValue = lines.reduce((sum, line) => sum + Math.round((quantities[line.id] || 0) * line.unitRefund * 100) / 100, 0);
+  const openBalance = sale?.debtors
+    .filter((debtor) => !debtor.is_resolved)
+    .reduce((sum, debtor) => sum + Number(debtor.amount_owed) - Number(debtor.amount_paid), 0) || 0;
+  const debtReduction = Math.min(returnValue, openBalance);
+  const creditAmount = returnValue - debtReduction;
+
+  const createReturnMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("create_sale_return", {
+        p_sale_id: saleId,
+        p_reason: reason || null,
+        p_return_date: returnDate,
+        p_items: Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([saleItemId, quantity]) => ({ sale_item_id: saleItemId, quantity })),
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (saleReturn) => {
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["sale-returns"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["debtors"] });
+      queryClient.invalidateQueries({ queryKey: ["debtor-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      queryClient.invalidateQueries({ queryKey: ["analytics"] });
+      onOpenChange(false);
+      toast({
+        title: "✅ Success",
+        description: Number(saleReturn.credit_amount) > 0
+          ? `Return recorded and stock restored. Credit note of RWF ${Number(saleReturn.credit_amount).toLocaleString()} issued.`
+          : "Return recorded, stock restored and debtor balance reduced.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (returnValue <= 0) {
+      toast({
+        title: "Error",
+        description: "Enter a return quantity for at least one item",
+        variant: "destructive",
+      });
+      return;
+    }
+    createReturnMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!saleId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Return Items{sale?.customers?.name ? ` - ${sale.customers.name}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !sale ? (
+          <div>Loading...</div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Sold</TableHead>
+                  <TableHead>Returned</TableHead>
+                  <TableHead>Unit Price</TableHead>
+                  <TableHead>Refund / Unit</TableHead>
+                  <TableHead>Return Qty</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line) => (
+                  <TableRow key={line.id}>
+                    <TableCell>{line.name}</TableCell>
+                    <TableCell>{line.sold}</TableCell>
+                    <TableCell>{line.returned}</TableCell>
+                    <TableCell>RWF {line.unitPrice.toLocaleString()}</TableCell>
+                    <TableCell>RWF {(Math.round(line.unitRefund * 100) / 100).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={line.remaining}
+                        value={quantities[line.id] || 0}
+                        onChange={(e) => setQuantities({
+                          ...quantities,
+                          [line.id]: Math.min(Math.max(parseInt(e.target.value) || 0, 0), line.remaining),
+                        })}
+                        disabled={line.remaining === 0}
+                        className="w-20"
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="returnDate">Return Date</Label>
+                <Input
+                  id="returnDate"
+                  type="date"
+                  value={returnDate}
+                  onChange={(e) => setReturnDate(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="reason">Reason (Optional)</Label>
+                <Textarea
+                  id="reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Damaged, wrong item..."
+                />
+              </div>
+            </div>
+
+            <div className="ml-auto w-72 space-y-1 text-sm">
+              <div className="flex justify-between font-bold">
+                <span>Return Value</span>
+                <span>RWF {returnValue.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Debtor Balance Reduction</span>
+                <span>RWF {debtReduction.toLocaleString()}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Credit Note</span>
+                <span className="text-green-600">RWF {creditAmount.toLocaleString()}</span>
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createReturnMutation.isPending}>
+                {createReturnMutation.isPending ? "Recording..." : "Record Return"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaleReturnDialog;
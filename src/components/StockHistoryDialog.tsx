@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { stockMovementLabels } from "@/lib/stock";
+import { AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+
+interface StockHistoryDialogProps {
+  productId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const StockHistoryDialog = ({ productId, onOpenChange }: StockHistoryDialogProps) => {
+  const [quantityChange, setQuantityChange] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["stock-movements", productId],
+    enabled: !!productId,
+    queryFn: async () => {
+      const [productResult, movementsResult] = await Promise.all([
+        supabase
+          .from("products")
+          .select("name, stock_quantity")
+          .eq("id", productId)
+          .single(),
+        supabase
+          .from("stock_movements")
+          .select("*")
+          .eq("product_id", productId)
+          .order("created_at", { ascending: false }),
+      ]);
+      if (productResult.error) throw productResult.error;
+      if (movementsResult.error) throw movementsResult.error;
+      return { product: productResult.data, movements: movementsResult.data };
+    },
+  });
+
+  const { data: users } = useQuery({
+    queryKey: ["sale-users"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("sale_users");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("adjust_stock", {
+        p_product_id: productId,
+        p_quantity_change: parseInt(quantityChange),
+        p_reason: reason.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stock-movements", productId] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-ledger-discrepancies"] });
+      setQuantityChange("");
+      setReason("");
+      toast({
+        title: "✅ Success",
+        description: "Stock adjusted",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const userName = (userId: string | null) =>
+    (userId && users?.find(user => user.id === userId)?.full_name) || "-";
+
+  const ledgerQuantity = data?.movements.reduce((sum, movement) => sum + movement.quantity_change, 0) ?? 0;
+  const change = parseInt(quantityChange);
+
+  return (
+    <Dialog open={!!productId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock History{data ? ` - ${data.product.name}` : ""}</DialogTitle>
+        </DialogHeader>
+        {isLoading || !data ? (
+          <div>Loading...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">On Hand</p>
+                <p className="text-2xl font-bold">{data.product.stock_quantity}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Ledger Total</p>
+                <p className="text-2xl font-bold">{ledgerQuantity}</p>
+                {ledgerQuantity !== data.product.stock_quantity && (
+                  <p className="flex items-center text-xs text-red-600">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    Differs from on-hand quantity by {data.product.stock_quantity - ledgerQuantity}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <form
+              className="rounded border p-4 space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                adjustMutation.mutate();
+              }}
+            >
+              <p className="text-sm font-medium">Manual Adjustment</p>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="quantityChange">Units (+ add, - remove)</Label>
+                  <Input
+                    id="quantityChange"
+                    type="number"
+                    step="1"
+                    value={quantityChange}
+                    onChange={(e) => setQuantityChange(e.target.value)}
+                    placeholder="e.g. -2"
+                    required
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label htmlFor="adjustmentReason">Reason</Label>
+                  <Input
+                    id="adjustmentReason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Damaged in storage"
+                    required
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={!change || !reason.trim() || adjustMutation.isPending}
+                >
+                  {adjustMutation.isPending ? "Saving..." : "Adjust Stock"}
+                </Button>
+              </div>
+            </form>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">After</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.movements.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500">
+                      No stock movements recorded
+                    </TableCell>
+                  </TableRow>
+                )}
+                {data.movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{format(new Date(movement.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{stockMovementLabels[movement.movement_type]}</Badge>
+                    </TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${movement.quantity_change < 0 ? "text-red-600" : "text-green-600"}`}
+                    >
+                      {movement.quantity_change > 0 ? "+" : ""}{movement.quantity_change}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.quantity_after}</TableCell>
+                    <TableCell className="text-right">
+                      {movement.unit_cost === null ? "-" : `RWF ${Number(movement.unit_cost).toLocaleString()}`}
+                    </TableCell>
+                    <TableCell>{movement.reason || "-"}</TableCell>
+                    <TableCell>{userName(movement.user_id)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockHistoryDialog;
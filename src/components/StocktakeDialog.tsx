@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { downloadCsv } from "@/lib/csv";
+import { stocktakeNumber, stocktakeStatusLabels, stocktakeTotals, stocktakeVariance } from "@/lib/stocktake";
+import { Download, Save, CheckCircle } from "lucide-react";
+import { format } from "date-fns";
+
+interface StocktakeDialogProps {
+  stocktakeId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const varianceClass = (value: number) =>
+  value < 0 ? "text-red-600 font-medium" : value > 0 ? "text-green-600 font-medium" : undefined;
+
+const formatUnits = (units: number) => `${units > 0 ? "+" : ""}${units}`;
+
+// Render with key={stocktakeId} so each stocktake starts from its saved counts
+const StocktakeDialog = ({ stocktakeId, onOpenChange }: StocktakeDialogProps) => {
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [search, setSearch] = useState("");
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: stocktake, isLoading } = useQuery({
+    queryKey: ["stocktake", stocktakeId],
+    enabled: !!stocktakeId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("stocktakes")
+        .select("*, stocktake_items(*, products(name, sku, stock_quantity, cost))")
+        .eq("id", stocktakeId)
+        .single();
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const isCounting = stocktake?.status === "counting";
+  const items = [...(stocktake?.stocktake_items ?? [])]
+    .sort((a, b) => (a.products?.name || "").localeCompare(b.products?.name || ""));
+
+  // Unsaved counts are kept per product; an empty field clears the count
+  const countFor = (item: { product_id: string; counted_quantity: number | null }) =>
+    counts[item.product_id] ?? (item.counted_quantity === null ? "" : String(item.counted_quantity));
+
+  const countedQuantity = (item: { product_id: string; counted_quantity: number | null }) => {
+    const value = countFor(item).trim();
+    return value === "" ? null : parseInt(value);
+  };
+
+  const variances = items.map(item => stocktakeVariance(item, countedQuantity(item)));
+  const totals = stocktakeTotals(variances);
+
+  const pendingCounts = items
+    .filter(item => item.product_id in counts && countedQuantity(item) !== item.counted_quantity)
+    .map(item => ({ product_id: item.product_id, counted_quantity: countedQuantity(item) }));
+
+  const hasInvalidCount = pendingCounts.some(count =>
+    count.counted_quantity !== null && (Number.isNaN(count.counted_quantity) || count.counted_quantity < 0));
+
+  const saveCounts = async () => {
+    if (pendingCounts.length === 0) return;
+    const { error } = await supabase.rpc("record_stocktake_counts", {
+      p_stocktake_id: stocktakeId,
+      p_counts: pendingCounts,
+    });
+    if (error) throw error;
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: saveCounts,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stocktake", stocktakeId] });
+      queryClient.invalidateQueries({ queryKey: ["stocktakes"] });
+      setCounts({});
+      toast({
+        title: "✅ Success",
+        description: "Counts saved",
+      });
+    },
+    onError: showError,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async () => {
+      await saveCounts();
+      const { error } = await supabase.rpc("approve_stocktake", {
+        p_stocktake_id: stocktakeId,
+        p_reason: reason.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stocktake", stocktakeId] });
+      queryClient.invalidateQueries({ queryKey: ["stocktakes"] });
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      onOpenChange(false);
+      toast({
+        title: "✅ Success",
+        description: `Stocktake approved. ${variances.filter(line => line.units !== 0).length} products were adjusted.`,
+      });
+    },
+    onError: (error: Error) => {
+      // Counts saved before a failed approval are kept
+      queryClient.invalidateQueries({ queryKey: ["stocktake", stocktakeId] });
+      showError(error);
+    },
+  });
+
+  const handleExport = () => {
+    if (!stocktake) return;
+    downloadCsv(`Stocktake-${stocktakeNumber(stocktake.id)}-${format(new Date(stocktake.created_at), "yyyy-MM-dd")}.csv`, [
+      ["Product", "SKU", "System Qty", "Counted", "Variance", "Unit Cost", "Variance (RWF)"],
+      ...items.map((item, index) => {
+        const line = variances[index];
+        return [
+          item.products?.name,
+          item.products?.sku,
+          line.expected,
+          line.counted,
+          line.counted === null ? null : line.units,
+          line.unitCost,
+          line.counted === null ? null : line.value,
+        ];
+      }),
+    ]);
+  };
+
+  const searchTerm = search.trim().toLowerCase();
+
+  return (
+    <Dialog open={!!stocktakeId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Stocktake{stocktake ? ` - ${stocktakeNumber(stocktake.id)}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+        {isLoading || !stocktake ? (
+          <div>Loading...</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              <Badge variant={isCounting ? "outline" : stocktake.status === "approved" ? "default" : "destructive"}>
+                {stocktakeStatusLabels[stocktake.status]}
+              </Badge>
+              <span>{stocktake.category || "All categories"}</span>
+              <span>· Started {format(new Date(stocktake.created_at), "MMM dd, yyyy")}</span>
+              {stocktake.approved_at && (
+                <span>· Approved {format(new Date(stocktake.approved_at), "MMM dd, yyyy")}</span>
+              )}
+              {stocktake.reason && <span>· {stocktake.reason}</span>}
+            </div>
+            {stocktake.notes && <p className="text-sm text-gray-600">{stocktake.notes}</p>}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-gray-500">Counted</p>
+                <p className="text-lg font-bold">{totals.counted} of {items.length}</p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-gray-500">Shortages</p>
+                <p className="text-lg font-bold text-red-600">
+                  {totals.shortageUnits} · RWF {totals.shortageValue.toLocaleString()}
+                </p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-gray-500">Surpluses</p>
+                <p className="text-lg font-bold text-green-600">
+                  {formatUnits(totals.surplusUnits)} · RWF {totals.surplusValue.toLocaleString()}
+                </p>
+              </div>
+              <div className="rounded-md border p-3">
+                <p className="text-xs text-gray-500">Net Variance</p>
+                <p className={`text-lg font-bold ${varianceClass(totals.netValue) || ""}`}>
+                  RWF {totals.netValue.toLocaleString()}
+                </p>
+              </div>
+            </div>
+
+            <Input
+              placeholder="Search by product name or SKU..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">System Qty</TableHead>
+                  <TableHead className="w-32">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Unit Cost</TableHead>
+                  <TableHead className="text-right">Variance (RWF)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item, index) => {
+                  const line = variances[index];
+                  const matches = !searchTerm ||
+                    item.products?.name.toLowerCase().includes(searchTerm) ||
+                    item.products?.sku?.toLowerCase().includes(searchTerm);
+                  if (!matches) return null;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        {item.products?.name}
+                        {item.products?.sku && <span className="text-xs text-gray-500"> · {item.products.sku}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {isCounting || line.counted !== null ? line.expected : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {isCounting ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            value={countFor(item)}
+                            onChange={(e) => setCounts({ ...counts, [item.product_id]: e.target.value })}
+                          />
+                        ) : (
+                          line.counted ?? "Not counted"
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${varianceClass(line.units) || ""}`}>
+                        {line.counted === null ? "-" : formatUnits(line.units)}
+                      </TableCell>
+                      <TableCell className="text-right">RWF {line.unitCost.toLocaleString()}</TableCell>
+                      <TableCell className={`text-right ${varianceClass(line.value) || ""}`}>
+                        {line.counted === null ? "-" : `RWF ${line.value.toLocaleString()}`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {isCounting && (
+              <div className="space-y-1">
+                <Label htmlFor="stocktakeReason">Adjustment Reason</Label>
+                <Input
+                  id="stocktakeReason"
+                  placeholder="e.g. Monthly count, October"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+                <p className="text-xs text-gray-500">
+                  Approving sets each counted product's stock to the count and records the difference in its stock
+                  history with this reason. Uncounted products are left unchanged.
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={handleExport}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              {isCounting && (
+                <>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => saveMutation.mutate()}
+                    disabled={pendingCounts.length === 0 || hasInvalidCount || saveMutation.isPending}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {saveMutation.isPending ? "Saving..." : "Save Counts"}
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={() => approveMutation.mutate()}
+                    disabled={totals.counted === 0 || !reason.trim() || hasInvalidCount || approveMutation.isPending}
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {approveMutation.isPending ? "Approving..." : "Approve & Adjust Stock"}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StocktakeDialog;
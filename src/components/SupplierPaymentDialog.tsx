@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { paymentMethodLabels } from "@/lib/payments";
+import { purchaseOrderNumber, purchaseOrderPayable } from "@/lib/purchasing";
+import { format } from "date-fns";
+
+interface SupplierPaymentDialogProps {
+  purchaseOrder: {
+    id: string;
+    total_amount: number;
+    received_amount: number;
+    amount_paid: number;
+    suppliers?: { name: string } | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Render with key={purchaseOrder?.id} so each order starts from a fresh form
+const SupplierPaymentDialog = ({ purchaseOrder, onOpenChange }: SupplierPaymentDialogProps) => {
+  const payable = purchaseOrder ? Math.max(purchaseOrderPayable(purchaseOrder), 0) : 0;
+  const remaining = purchaseOrder ? Number(purchaseOrder.total_amount) - Number(purchaseOrder.amount_paid) : 0;
+  const [amount, setAmount] = useState(payable.toString());
+  const [paymentDate, setPaymentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [method, setMethod] = useState<Enums<"payment_method">>("bank_transfer");
+  const [reference, setReference] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const recordPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("record_supplier_payment", {
+        p_purchase_order_id: purchaseOrder.id,
+        p_amount: parseFloat(amount),
+        p_method: method,
+        p_payment_date: paymentDate,
+        p_reference: reference || null,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      onOpenChange(false);
+      toast({
+        title: "✅ Success",
+        description: "Supplier payment recorded",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0 || value > remaining) {
+      toast({
+        title: "Error",
+        description: `Enter an amount greater than 0 and at most RWF ${remaining.toLocaleString()}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    recordPaymentMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!purchaseOrder} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Pay Supplier</DialogTitle>
+        </DialogHeader>
+        {purchaseOrder && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="text-sm text-gray-600">
+              <p>{purchaseOrder.suppliers?.name} · {purchaseOrderNumber(purchaseOrder.id)}</p>
+              <p>
+                Owed for goods received:{" "}
+                <span className="font-bold text-red-600">RWF {payable.toLocaleString()}</span>
+              </p>
+              <p>Left to pay on the order: RWF {remaining.toLocaleString()}</p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="amount">Amount (RWF)</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max={remaining}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="paymentDate">Payment Date</Label>
+                <Input
+                  id="paymentDate"
+                  type="date"
+                  value={paymentDate}
+                  onChange={(e) => setPaymentDate(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="method">Method</Label>
+                <Select value={method} onValueChange={(value) => setMethod(value as Enums<"payment_method">)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(paymentMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="reference">Reference (Optional)</Label>
+                <Input
+                  id="reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Transaction ID, cheque no..."
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={recordPaymentMutation.isPending}>
+                {recordPaymentMutation.isPending ? "Recording..." : "Record Payment"}
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierPaymentDialog;
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { variantLabel } from "@/lib/variants";
+import { ChevronDown } from "lucide-react";
+
+interface VariantPickerButtonProps {
+  parent: Tables<"products">;
+  variants: Tables<"products">[];
+  getAvailableStock: (product: Tables<"products">) => number;
+  onAdd: (product: Tables<"products">) => void;
+}
+
+// Stands in for a parent product in the sale dialog, which is never sold
+// itself, and lists its variants to add
+const VariantPickerButton = ({ parent, variants, getAvailableStock, onAdd }: VariantPickerButtonProps) => {
+  const [open, setOpen] = useState(false);
+  const inStock = variants.some(variant => getAvailableStock(variant) > 0);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="text-left justify-between"
+          disabled={!inStock}
+        >
+          <span className="truncate">{parent.name}</span>
+          <ChevronDown className="h-3 w-3 ml-1 shrink-0" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2" align="start">
+        <div className="space-y-1">
+          {variants.map((variant) => {
+            const available = getAvailableStock(variant);
+            return (
+              <Button
+                key={variant.id}
+                type="button"
+                variant="ghost"
+                className="w-full justify-between"
+                onClick={() => {
+                  onAdd(variant);
+                  setOpen(false);
+                }}
+                disabled={available === 0}
+              >
+                <span className="truncate">{variantLabel(variant.variant_attributes)}</span>
+                <span className="text-xs text-gray-500">{available} in stock</span>
+              </Button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default VariantPickerButton;
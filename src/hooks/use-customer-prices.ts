@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+// Prices of a customer's price list, keyed by product id
+export function useCustomerPrices(priceListId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["customer-prices", priceListId],
+    enabled: !!priceListId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_list_items")
+        .select("product_id, price")
+        .eq("price_list_id", priceListId);
+      if (error) throw error;
+      return Object.fromEntries(data.map(item => [item.product_id, Number(item.price)]));
+    },
+  });
+}
@@ -9,39 +9,236 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          costing_method: Database["public"]["Enums"]["costing_method"]
+          default_markup_percent: number
+          id: boolean
+          min_margin_percent: number
+          prices_include_tax: boolean
+          tax_rate: number
+          updated_at: string
+        }
+        Insert: {
+          costing_method?: Database["public"]["Enums"]["costing_method"]
+          default_markup_percent?: number
+          id?: boolean
+          min_margin_percent?: number
+          prices_include_tax?: boolean
+          tax_rate?: number
+          updated_at?: string
+        }
+        Update: {
+          costing_method?: Database["public"]["Enums"]["costing_method"]
+          default_markup_percent?: number
+          id?: boolean
+          min_margin_percent?: number
+          prices_include_tax?: boolean
+          tax_rate?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      categories: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_pricing: {
+        Row: {
+          category: string
+          markup_percent: number
+          min_margin_percent: number | null
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          markup_percent: number
+          min_margin_percent?: number | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          markup_percent?: number
+          min_margin_percent?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cost_layers: {
+        Row: {
+          created_at: string
+          id: string
+          product_id: string
+          quantity_received: number
+          quantity_remaining: number
+          stock_movement_id: string | null
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          product_id: string
+          quantity_received: number
+          quantity_remaining: number
+          stock_movement_id?: string | null
+          unit_cost: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          product_id?: string
+          quantity_received?: number
+          quantity_remaining?: number
+          stock_movement_id?: string | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cost_layers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cost_layers_stock_movement_id_fkey"
+            columns: ["stock_movement_id"]
+            isOneToOne: false
+            referencedRelation: "stock_movements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_limit_overrides: {
+        Row: {
+          balance_before: number
+          created_at: string
+          credit_limit: number
+          customer_id: string
+          id: string
+          reason: string
+          sale_amount: number
+          sale_id: string | null
+          user_id: string
+        }
+        Insert: {
+          balance_before: number
+          created_at?: string
+          credit_limit: number
+          customer_id: string
+          id?: string
+          reason: string
+          sale_amount: number
+          sale_id?: string | null
+          user_id: string
+        }
+        Update: {
+          balance_before?: number
+          created_at?: string
+          credit_limit?: number
+          customer_id?: string
+          id?: string
+          reason?: string
+          sale_amount?: number
+          sale_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_limit_overrides_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_limit_overrides_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string | null
           created_at: string
+          credit_limit: number | null
           email: string | null
           id: string
+          is_active: boolean
           name: string
           phone: string | null
+          price_list_id: string | null
           updated_at: string
         }
         Insert: {
           address?: string | null
           created_at?: string
+          credit_limit?: number | null
           email?: string | null
           id?: string
+          is_active?: boolean
           name: string
           phone?: string | null
+          price_list_id?: string | null
           updated_at?: string
         }
         Update: {
           address?: string | null
           created_at?: string
+          credit_limit?: number | null
           email?: string | null
           id?: string
+          is_active?: boolean
           name?: string
           phone?: string | null
+          price_list_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "customers_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       debtors: {
         Row: {
           amount_owed: number
+          amount_paid: number
           created_at: string
           customer_id: string
           due_date: string
@@ -52,6 +249,7 @@ export type Database = {
         }
         Insert: {
           amount_owed: number
+          amount_paid?: number
           created_at?: string
           customer_id: string
           due_date: string
@@ -62,6 +260,7 @@ export type Database = {
         }
         Update: {
           amount_owed?: number
+          amount_paid?: number
           created_at?: string
           customer_id?: string
           due_date?: string
@@ -120,47 +319,204 @@ export type Database = {
         }
         Relationships: []
       }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          customer_id: string
+          debtor_id: string | null
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          payment_date: string
+          reference: string | null
+          sale_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          customer_id: string
+          debtor_id?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          payment_date?: string
+          reference?: string | null
+          sale_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          customer_id?: string
+          debtor_id?: string | null
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          payment_date?: string
+          reference?: string | null
+          sale_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_debtor_id_fkey"
+            columns: ["debtor_id"]
+            isOneToOne: false
+            referencedRelation: "debtors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_list_items: {
+        Row: {
+          created_at: string
+          id: string
+          price: number
+          price_list_id: string
+          product_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          price: number
+          price_list_id: string
+          product_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          price?: number
+          price_list_id?: string
+          product_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_list_items_price_list_id_fkey"
+            columns: ["price_list_id"]
+            isOneToOne: false
+            referencedRelation: "price_lists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_list_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_lists: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       products: {
         Row: {
           category: string | null
+          category_id: string | null
           cost: number
           created_at: string
           description: string | null
           id: string
           is_active: boolean
+          min_margin_percent: number | null
           name: string
+          parent_id: string | null
           price: number
+          reorder_level: number
+          reorder_quantity: number | null
           sku: string | null
           stock_quantity: number
           updated_at: string
+          variant_attributes: Json
         }
         Insert: {
           category?: string | null
+          category_id?: string | null
           cost?: number
           created_at?: string
           description?: string | null
           id?: string
           is_active?: boolean
+          min_margin_percent?: number | null
           name: string
+          parent_id?: string | null
           price: number
+          reorder_level?: number
+          reorder_quantity?: number | null
           sku?: string | null
           stock_quantity?: number
           updated_at?: string
+          variant_attributes?: Json
         }
         Update: {
           category?: string | null
+          category_id?: string | null
           cost?: number
           created_at?: string
           description?: string | null
           id?: string
           is_active?: boolean
+          min_margin_percent?: number | null
           name?: string
+          parent_id?: string | null
           price?: number
+          reorder_level?: number
+          reorder_quantity?: number | null
           sku?: string | null
           stock_quantity?: number
           updated_at?: string
+          variant_attributes?: Json
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -189,81 +545,369 @@ export type Database = {
         }
         Relationships: []
       }
-      sale_items: {
+      purchase_order_items: {
         Row: {
           created_at: string
           id: string
           product_id: string
+          purchase_order_id: string
           quantity: number
-          sale_id: string
-          total_cost: number | null
-          total_price: number | null
+          quantity_received: number
           unit_cost: number
-          unit_price: number
         }
         Insert: {
           created_at?: string
           id?: string
           product_id: string
+          purchase_order_id: string
           quantity: number
-          sale_id: string
-          total_cost?: number | null
-          total_price?: number | null
+          quantity_received?: number
           unit_cost: number
-          unit_price: number
         }
         Update: {
           created_at?: string
           id?: string
           product_id?: string
+          purchase_order_id?: string
           quantity?: number
-          sale_id?: string
-          total_cost?: number | null
-          total_price?: number | null
+          quantity_received?: number
           unit_cost?: number
-          unit_price?: number
         }
         Relationships: [
           {
-            foreignKeyName: "sale_items_product_id_fkey"
+            foreignKeyName: "purchase_order_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sale_items_sale_id_fkey"
-            columns: ["sale_id"]
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
             isOneToOne: false
-            referencedRelation: "sales"
+            referencedRelation: "purchase_orders"
             referencedColumns: ["id"]
           },
         ]
       }
-      sales: {
+      purchase_orders: {
         Row: {
+          amount_paid: number
           created_at: string
-          customer_id: string
-          due_date: string | null
+          expected_date: string | null
           id: string
           notes: string | null
-          payment_status: Database["public"]["Enums"]["payment_status"]
-          profit: number | null
-          sale_date: string
+          order_date: string
+          received_amount: number
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
           total_amount: number
-          total_cost: number
           updated_at: string
           user_id: string
         }
         Insert: {
+          amount_paid?: number
           created_at?: string
-          customer_id: string
-          due_date?: string | null
+          expected_date?: string | null
           id?: string
           notes?: string | null
-          payment_status?: Database["public"]["Enums"]["payment_status"]
-          profit?: number | null
-          sale_date?: string
+          order_date?: string
+          received_amount?: number
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_paid?: number
+          created_at?: string
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          received_amount?: number
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_attachments: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          file_name: string
+          file_path: string
+          id: string
+          sale_id: string
+          size_bytes: number
+          user_id: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          file_name: string
+          file_path: string
+          id?: string
+          sale_id: string
+          size_bytes?: number
+          user_id: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          id?: string
+          sale_id?: string
+          size_bytes?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_attachments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_items: {
+        Row: {
+          created_at: string
+          discount_amount: number
+          discount_type: Database["public"]["Enums"]["discount_type"] | null
+          discount_value: number
+          id: string
+          line_total: number
+          product_id: string
+          quantity: number
+          sale_id: string
+          total_cost: number | null
+          total_price: number | null
+          unit_cost: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number
+          id?: string
+          line_total?: number
+          product_id: string
+          quantity: number
+          sale_id: string
+          total_cost?: number | null
+          total_price?: number | null
+          unit_cost: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number
+          id?: string
+          line_total?: number
+          product_id?: string
+          quantity?: number
+          sale_id?: string
+          total_cost?: number | null
+          total_price?: number | null
+          unit_cost?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_return_items: {
+        Row: {
+          created_at: string
+          id: string
+          net_amount: number
+          product_id: string
+          quantity: number
+          refund_amount: number
+          return_id: string
+          sale_item_id: string
+          unit_cost: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          net_amount?: number
+          product_id: string
+          quantity: number
+          refund_amount?: number
+          return_id: string
+          sale_item_id: string
+          unit_cost: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          net_amount?: number
+          product_id?: string
+          quantity?: number
+          refund_amount?: number
+          return_id?: string
+          sale_item_id?: string
+          unit_cost?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_return_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "sale_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_sale_item_id_fkey"
+            columns: ["sale_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_returns: {
+        Row: {
+          created_at: string
+          credit_amount: number
+          customer_id: string
+          debt_reduction: number
+          id: string
+          reason: string | null
+          return_date: string
+          sale_id: string
+          tax_amount: number
+          total_amount: number
+          total_cost: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          credit_amount?: number
+          customer_id: string
+          debt_reduction?: number
+          id?: string
+          reason?: string | null
+          return_date?: string
+          sale_id: string
+          tax_amount?: number
+          total_amount?: number
+          total_cost?: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          credit_amount?: number
+          customer_id?: string
+          debt_reduction?: number
+          id?: string
+          reason?: string | null
+          return_date?: string
+          sale_id?: string
+          tax_amount?: number
+          total_amount?: number
+          total_cost?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_returns_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          created_at: string
+          customer_id: string
+          discount_amount: number
+          discount_type: Database["public"]["Enums"]["discount_type"] | null
+          discount_value: number
+          due_date: string | null
+          id: string
+          net_amount: number
+          notes: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          profit: number | null
+          sale_date: string
+          subtotal: number
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_rate: number
+          total_amount: number
+          total_cost: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          customer_id: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number
+          due_date?: string | null
+          id?: string
+          net_amount?: number
+          notes?: string | null
+          payment_status?: Database["public"]["Enums"]["payment_status"]
+          profit?: number | null
+          sale_date?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
           total_amount: number
           total_cost?: number
           updated_at?: string
@@ -272,12 +916,20 @@ export type Database = {
         Update: {
           created_at?: string
           customer_id?: string
+          discount_amount?: number
+          discount_type?: Database["public"]["Enums"]["discount_type"] | null
+          discount_value?: number
           due_date?: string | null
           id?: string
+          net_amount?: number
           notes?: string | null
           payment_status?: Database["public"]["Enums"]["payment_status"]
           profit?: number | null
           sale_date?: string
+          subtotal?: number
+          tax_amount?: number
+          tax_inclusive?: boolean
+          tax_rate?: number
           total_amount?: number
           total_cost?: number
           updated_at?: string
@@ -293,15 +945,572 @@ export type Database = {
           },
         ]
       }
+      stock_movements: {
+        Row: {
+          created_at: string
+          id: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          product_id: string
+          quantity_after: number
+          quantity_change: number
+          reason: string | null
+          reference_id: string | null
+          unit_cost: number | null
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          product_id: string
+          quantity_after: number
+          quantity_change: number
+          reason?: string | null
+          reference_id?: string | null
+          unit_cost?: number | null
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          movement_type?: Database["public"]["Enums"]["stock_movement_type"]
+          product_id?: string
+          quantity_after?: number
+          quantity_change?: number
+          reason?: string | null
+          reference_id?: string | null
+          unit_cost?: number | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_items: {
+        Row: {
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          expected_quantity: number | null
+          id: string
+          product_id: string
+          stocktake_id: string
+          unit_cost: number | null
+        }
+        Insert: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          expected_quantity?: number | null
+          id?: string
+          product_id: string
+          stocktake_id: string
+          unit_cost?: number | null
+        }
+        Update: {
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          expected_quantity?: number | null
+          id?: string
+          product_id?: string
+          stocktake_id?: string
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_items_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          category: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          reason: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          reason?: string | null
+          status?: Database["public"]["Enums"]["stocktake_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          reason?: string | null
+          status?: Database["public"]["Enums"]["stocktake_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      supplier_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          payment_date: string
+          purchase_order_id: string
+          reference: string | null
+          supplier_id: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          payment_date?: string
+          purchase_order_id: string
+          reference?: string | null
+          supplier_id: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          method?: Database["public"]["Enums"]["payment_method"]
+          payment_date?: string
+          purchase_order_id?: string
+          reference?: string | null
+          supplier_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_payments_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_payments_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      adjust_stock: {
+        Args: {
+          p_product_id: string
+          p_quantity_change: number
+          p_reason: string
+        }
+        Returns: {
+          category: string | null
+          cost: number
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          min_margin_percent: number | null
+          name: string
+          price: number
+          sku: string | null
+          stock_quantity: number
+          updated_at: string
+        }
+      }
+      approve_stocktake: {
+        Args: {
+          p_stocktake_id: string
+          p_reason: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          category: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          reason: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_purchase_order: {
+        Args: {
+          p_expected_date?: string
+          p_items: Json
+          p_notes?: string
+          p_supplier_id: string
+        }
+        Returns: {
+          amount_paid: number
+          created_at: string
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          received_amount: number
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_sale: {
+        Args: {
+          p_credit_override_reason?: string
+          p_customer_email?: string
+          p_customer_id?: string
+          p_customer_name: string
+          p_customer_phone?: string
+          p_discount_type?: Database["public"]["Enums"]["discount_type"]
+          p_discount_value?: number
+          p_due_date?: string
+          p_items: Json
+          p_notes?: string
+          p_payment_status?: Database["public"]["Enums"]["payment_status"]
+          p_tax_inclusive?: boolean
+          p_tax_rate?: number
+        }
+        Returns: {
+          created_at: string
+          customer_id: string
+          discount_amount: number
+          discount_type: Database["public"]["Enums"]["discount_type"] | null
+          discount_value: number
+          due_date: string | null
+          id: string
+          net_amount: number
+          notes: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          profit: number | null
+          sale_date: string
+          subtotal: number
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_rate: number
+          total_amount: number
+          total_cost: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      create_sale_return: {
+        Args: {
+          p_sale_id: string
+          p_items: Json
+          p_reason?: string
+          p_return_date?: string
+        }
+        Returns: {
+          created_at: string
+          credit_amount: number
+          customer_id: string
+          debt_reduction: number
+          id: string
+          reason: string | null
+          return_date: string
+          sale_id: string
+          tax_amount: number
+          total_amount: number
+          total_cost: number
+          user_id: string
+        }
+      }
+      customer_credit_balance: {
+        Args: {
+          p_customer_id: string
+          p_exclude_sale_id?: string
+        }
+        Returns: number
+      }
+      delete_product: {
+        Args: {
+          p_product_id: string
+        }
+        Returns: undefined
+      }
+      delete_sale: {
+        Args: {
+          p_sale_id: string
+        }
+        Returns: undefined
+      }
+      find_duplicate_customers: {
+        Args: {
+          p_min_similarity?: number
+        }
+        Returns: {
+          customer_id: string
+          duplicate_id: string
+          reason: string
+          similarity: number
+        }[]
+      }
+      import_products: {
+        Args: {
+          p_rows: Json
+        }
+        Returns: {
+          created: number
+          updated: number
+        }[]
+      }
+      inventory_value: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      is_manager: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      merge_customers: {
+        Args: {
+          p_duplicate_id: string
+          p_survivor_id: string
+        }
+        Returns: {
+          address: string | null
+          created_at: string
+          email: string | null
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          price_list_id: string | null
+          updated_at: string
+        }
+      }
+      receive_purchase_order: {
+        Args: {
+          p_items: Json
+          p_purchase_order_id: string
+        }
+        Returns: {
+          amount_paid: number
+          created_at: string
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          received_amount: number
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+          user_id: string
+        }
+      }
+      record_payment: {
+        Args: {
+          p_debtor_id: string
+          p_amount: number
+          p_method?: Database["public"]["Enums"]["payment_method"]
+          p_payment_date?: string
+          p_reference?: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          customer_id: string
+          debtor_id: string | null
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          payment_date: string
+          reference: string | null
+          sale_id: string
+          user_id: string
+        }
+      }
+      record_stocktake_counts: {
+        Args: {
+          p_stocktake_id: string
+          p_counts: Json
+        }
+        Returns: undefined
+      }
+      record_supplier_payment: {
+        Args: {
+          p_amount: number
+          p_method?: Database["public"]["Enums"]["payment_method"]
+          p_payment_date?: string
+          p_purchase_order_id: string
+          p_reference?: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          id: string
+          method: Database["public"]["Enums"]["payment_method"]
+          payment_date: string
+          purchase_order_id: string
+          reference: string | null
+          supplier_id: string
+          user_id: string
+        }
+      }
+      sale_users: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          full_name: string
+          id: string
+        }[]
+      }
+      search_text: {
+        Args: {
+          "": Database["public"]["Tables"]["sales"]["Row"]
+        }
+        Returns: string
+      }
+      start_stocktake: {
+        Args: {
+          p_category?: string
+          p_notes?: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          category: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          reason: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          updated_at: string
+          user_id: string
+        }
+      }
+      stock_ledger_discrepancies: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          product_id: string
+          name: string
+          stock_quantity: number
+          ledger_quantity: number
+        }[]
+      }
+      update_sale: {
+        Args: {
+          p_credit_override_reason?: string
+          p_customer_id?: string
+          p_discount_type?: Database["public"]["Enums"]["discount_type"]
+          p_discount_value?: number
+          p_due_date?: string
+          p_items: Json
+          p_notes?: string
+          p_payment_status: Database["public"]["Enums"]["payment_status"]
+          p_sale_id: string
+          p_tax_inclusive?: boolean
+          p_tax_rate?: number
+        }
+        Returns: {
+          created_at: string
+          customer_id: string
+          discount_amount: number
+          discount_type: Database["public"]["Enums"]["discount_type"] | null
+          discount_value: number
+          due_date: string | null
+          id: string
+          net_amount: number
+          notes: string | null
+          payment_status: Database["public"]["Enums"]["payment_status"]
+          profit: number | null
+          sale_date: string
+          subtotal: number
+          tax_amount: number
+          tax_inclusive: boolean
+          tax_rate: number
+          total_amount: number
+          total_cost: number
+          updated_at: string
+          user_id: string
+        }
+      }
     }
     Enums: {
+      costing_method: "weighted_average" | "fifo"
+      discount_type: "percent" | "fixed"
+      payment_method: "cash" | "mobile_money" | "bank_transfer" | "card" | "cheque"
       payment_status: "paid" | "pending" | "overdue"
+      purchase_order_status: "ordered" | "partially_received" | "received" | "cancelled"
+      stock_movement_type: "sale" | "return" | "purchase" | "adjustment" | "stocktake"
+      stocktake_status: "counting" | "approved" | "cancelled"
       user_role: "admin" | "manager" | "sales_rep"
     }
     CompositeTypes: {
@@ -418,7 +1627,13 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      costing_method: ["weighted_average", "fifo"],
+      discount_type: ["percent", "fixed"],
+      payment_method: ["cash", "mobile_money", "bank_transfer", "card", "cheque"],
       payment_status: ["paid", "pending", "overdue"],
+      purchase_order_status: ["ordered", "partially_received", "received", "cancelled"],
+      stock_movement_type: ["sale", "return", "purchase", "adjustment", "stocktake"],
+      stocktake_status: ["counting", "approved", "cancelled"],
       user_role: ["admin", "manager", "sales_rep"],
     },
   },
@@ -0,0 +1,58 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+type Category = Pick<Tables<"categories">, "id" | "name" | "parent_id">;
+
+export type CategoryLevel = "top" | "sub";
+
+// Top-level categories in name order, each followed by its sub-categories
+export const categoryTree = <T extends Category>(categories: T[]) =>
+  categories
+    .filter(category => !category.parent_id)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(parent => [
+      { category: parent, depth: 0 },
+      ...categories
+        .filter(category => category.parent_id === parent.id)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(category => ({ category, depth: 1 })),
+    ]);
+
+// e.g. "Phones › Smartphones"
+export const categoryPath = (categoryId: string | null, categories: Category[]) => {
+  const category = categories.find(c => c.id === categoryId);
+  if (!category) return null;
+  const parent = categories.find(c => c.id === category.parent_id);
+  return parent ? `${parent.name} › ${category.name}` : category.name;
+};
+
+const topLevelCategory = (categoryId: string | null, categories: Category[]) => {
+  const category = categories.find(c => c.id === categoryId);
+  return categories.find(c => c.id === category?.parent_id) ?? category;
+};
+
+interface CategoryTotals {
+  categoryId: string | null;
+  revenue: number;
+  cost: number;
+  profit: number;
+  quantity: number;
+}
+
+// Merges per-category totals into top-level categories, or keeps each
+// sub-category apart under its full path
+export const rollUpCategories = (totals: CategoryTotals[], categories: Category[], level: CategoryLevel) => {
+  const rolledUp = new Map<string, Omit<CategoryTotals, "categoryId">>();
+  totals.forEach(({ categoryId, ...data }) => {
+    const name = (level === "top"
+      ? topLevelCategory(categoryId, categories)?.name
+      : categoryPath(categoryId, categories)) || "Uncategorized";
+    const current = rolledUp.get(name) || { revenue: 0, cost: 0, profit: 0, quantity: 0 };
+    rolledUp.set(name, {
+      revenue: current.revenue + data.revenue,
+      cost: current.cost + data.cost,
+      profit: current.profit + data.profit,
+      quantity: current.quantity + data.quantity,
+    });
+  });
+  return Array.from(rolledUp.entries()).map(([name, data]) => ({ name, ...data }));
+};
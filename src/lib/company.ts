@@ -0,0 +1,8 @@
+// Letterhead printed on invoices, receipts and statements
+export const company = {
+  name: "IsTech Ltd",
+  address: "Kigali, Rwanda",
+  phone: "",
+  email: "",
+  tin: "",
+};
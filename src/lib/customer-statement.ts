@@ -0,0 +1,193 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format, parseISO } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { company } from "@/lib/company";
+import { paymentMethodLabels } from "@/lib/payments";
+import { companyLines, formatMoney, saleDocumentNumber } from "@/lib/sale-documents";
+
+export interface CustomerStatementData {
+  customer: Pick<Tables<"customers">, "name" | "email" | "phone" | "address">;
+  from: string;
+  to: string;
+  sales: Pick<Tables<"sales">, "id" | "sale_date" | "total_amount" | "payment_status">[];
+  debtors: Pick<Tables<"debtors">, "sale_id" | "amount_owed" | "amount_paid" | "is_resolved" | "updated_at">[];
+  payments: Pick<Tables<"payments">, "id" | "sale_id" | "amount" | "payment_date" | "method" | "reference">[];
+  returns: Pick<Tables<"sale_returns">, "id" | "sale_id" | "return_date" | "debt_reduction" | "credit_amount">[];
+}
+
+export interface StatementEntry {
+  id: string;
+  date: string;
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface CustomerStatement {
+  customer: CustomerStatementData["customer"];
+  from: string;
+  to: string;
+  openingBalance: number;
+  entries: StatementEntry[];
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+}
+
+const dayOf = (date: string) => format(parseISO(date), "yyyy-MM-dd");
+
+// The balance is what the customer owes, so it always reconciles with the
+// open debtor balances: sales paid up front are charged and paid on the same
+// day, and returns only count for the part that reduced an open debt. Credit
+// notes issued on returns are listed for reference but not carried.
+export const buildCustomerStatement = (data: CustomerStatementData): CustomerStatement => {
+  const debtorsBySale = new Map(data.debtors.map(debtor => [debtor.sale_id, debtor]));
+  const numbers = new Map(data.sales.map(sale => [sale.id, saleDocumentNumber(sale)]));
+
+  const movements: Omit<StatementEntry, "balance">[] = [];
+
+  data.sales.forEach(sale => {
+    const number = numbers.get(sale.id) || "";
+    const total = Number(sale.total_amount);
+    movements.push({ id: `sale-${sale.id}`, date: dayOf(sale.sale_date), reference: number, description: "Sale", debit: total, credit: 0 });
+
+    const debtor = debtorsBySale.get(sale.id);
+    if (!debtor) {
+      movements.push({ id: `upfront-${sale.id}`, date: dayOf(sale.sale_date), reference: number, description: "Paid at sale", debit: 0, credit: total });
+    } else if (debtor.is_resolved && Number(debtor.amount_paid) < Number(debtor.amount_owed)) {
+      // Debts closed by marking the sale paid have no payment records
+      movements.push({
+        id: `settled-${sale.id}`,
+        date: dayOf(debtor.updated_at),
+        reference: number,
+        description: "Marked as paid",
+        debit: 0,
+        credit: Number(debtor.amount_owed) - Number(debtor.amount_paid),
+      });
+    }
+  });
+
+  data.payments.forEach(payment => {
+    movements.push({
+      id: `payment-${payment.id}`,
+      date: dayOf(payment.payment_date),
+      reference: numbers.get(payment.sale_id) || "",
+      description: `Payment, ${paymentMethodLabels[payment.method]}${payment.reference ? ` (${payment.reference})` : ""}`,
+      debit: 0,
+      credit: Number(payment.amount),
+    });
+  });
+
+  data.returns.forEach(saleReturn => {
+    const creditNote = Number(saleReturn.credit_amount);
+    movements.push({
+      id: `return-${saleReturn.id}`,
+      date: dayOf(saleReturn.return_date),
+      reference: numbers.get(saleReturn.sale_id) || "",
+      description: creditNote > 0 ? `Return, credit note ${formatMoney(creditNote)} issued` : "Return",
+      debit: 0,
+      credit: Number(saleReturn.debt_reduction),
+    });
+  });
+
+  // Charges go before the payments that settle them on the same day
+  movements.sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+  const openingBalance = movements
+    .filter(movement => movement.date < data.from)
+    .reduce((sum, movement) => sum + movement.debit - movement.credit, 0);
+
+  let balance = openingBalance;
+  const entries = movements
+    .filter(movement => movement.date >= data.from && movement.date <= data.to)
+    .map(movement => {
+      balance += movement.debit - movement.credit;
+      return { ...movement, balance };
+    });
+
+  return {
+    customer: data.customer,
+    from: data.from,
+    to: data.to,
+    openingBalance,
+    entries,
+    totalDebits: entries.reduce((sum, entry) => sum + entry.debit, 0),
+    totalCredits: entries.reduce((sum, entry) => sum + entry.credit, 0),
+    closingBalance: balance,
+  };
+};
+
+export const statementPeriod = (statement: CustomerStatement) =>
+  `${format(parseISO(statement.from), "MMM dd, yyyy")} - ${format(parseISO(statement.to), "MMM dd, yyyy")}`;
+
+export const downloadCustomerStatementPdf = (statement: CustomerStatement) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(18);
+  doc.text(company.name, 14, 20);
+  doc.setFontSize(10);
+  companyLines().forEach((line, index) => doc.text(line, 14, 27 + index * 5));
+
+  doc.setFontSize(16);
+  doc.text("STATEMENT OF ACCOUNT", pageWidth - 14, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(statementPeriod(statement), pageWidth - 14, 27, { align: "right" });
+  doc.text(`Issued: ${format(new Date(), "MMM dd, yyyy")}`, pageWidth - 14, 32, { align: "right" });
+
+  const billTo = [
+    statement.customer.name,
+    statement.customer.address,
+    statement.customer.phone,
+    statement.customer.email,
+  ].filter(Boolean);
+  doc.setFontSize(11);
+  doc.text("Customer:", 14, 52);
+  doc.setFontSize(10);
+  billTo.forEach((line, index) => doc.text(line, 14, 58 + index * 5));
+
+  let finalY = 0;
+  autoTable(doc, {
+    startY: 60 + billTo.length * 5,
+    head: [["Date", "Reference", "Description", "Debit", "Credit", "Balance"]],
+    body: [
+      [format(parseISO(statement.from), "MMM dd, yyyy"), "", "Opening balance", "", "", formatMoney(statement.openingBalance)],
+      ...statement.entries.map((entry) => [
+        format(parseISO(entry.date), "MMM dd, yyyy"),
+        entry.reference,
+        entry.description,
+        entry.debit > 0 ? formatMoney(entry.debit) : "",
+        entry.credit > 0 ? formatMoney(entry.credit) : "",
+        formatMoney(entry.balance),
+      ]),
+    ],
+    columnStyles: {
+      3: { halign: "right" },
+      4: { halign: "right" },
+      5: { halign: "right" },
+    },
+    didDrawPage: (data) => {
+      finalY = data.cursor?.y ?? finalY;
+    },
+  });
+
+  const totals: [string, string][] = [
+    ["Opening Balance", formatMoney(statement.openingBalance)],
+    ["Total Charges", formatMoney(statement.totalDebits)],
+    ["Total Payments & Credits", formatMoney(statement.totalCredits)],
+    ["Closing Balance", formatMoney(statement.closingBalance)],
+  ];
+  totals.forEach(([label, value], index) => {
+    const y = finalY + 10 + index * 6;
+    doc.text(label, pageWidth - 90, y);
+    doc.text(value, pageWidth - 14, y, { align: "right" });
+  });
+
+  doc.setFontSize(9);
+  doc.text("Please contact us if any entry on this statement is incorrect.", 14, finalY + 16 + totals.length * 6);
+
+  doc.save(`Statement-${statement.customer.name.replace(/\s+/g, "-")}-${statement.to}.pdf`);
+};
@@ -0,0 +1,9 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export const paymentMethodLabels: Record<Enums<"payment_method">, string> = {
+  cash: "Cash",
+  mobile_money: "Mobile Money",
+  bank_transfer: "Bank Transfer",
+  card: "Card",
+  cheque: "Cheque",
+};
@@ -0,0 +1,52 @@
+import type { Tables } from "@/integrations/supabase/types";
+
+// Resolves the suggested selling price and the minimum-margin floor for a
+// product. See the pricing_rules migration for the order rules apply in.
+
+export type PriceSource = "price_list" | "list_price" | "category_markup" | "default_markup";
+
+export interface PricingRules {
+  settings: Pick<Tables<"app_settings">, "default_markup_percent" | "min_margin_percent"> | null | undefined;
+  categories: Pick<Tables<"category_pricing">, "category" | "markup_percent" | "min_margin_percent">[];
+  // Prices of the selected customer's price list, keyed by product id
+  customerPrices: Record<string, number>;
+}
+
+type PricedProduct = Pick<Tables<"products">, "id" | "cost" | "price" | "category" | "min_margin_percent">;
+
+export const priceSourceLabels: Record<PriceSource, string> = {
+  price_list: "Customer price list",
+  list_price: "List price",
+  category_markup: "Category markup",
+  default_markup: "Default markup",
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const categoryRule = (product: PricedProduct, rules: PricingRules) =>
+  rules.categories.find((rule) => rule.category === product.category);
+
+export const resolvePrice = (product: PricedProduct, rules: PricingRules): { price: number; source: PriceSource } => {
+  const customerPrice = rules.customerPrices[product.id];
+  if (customerPrice !== undefined) return { price: customerPrice, source: "price_list" };
+
+  if (Number(product.price) > 0) return { price: Number(product.price), source: "list_price" };
+
+  const category = categoryRule(product, rules);
+  if (category) {
+    return { price: round2(product.cost * (1 + Number(category.markup_percent) / 100)), source: "category_markup" };
+  }
+
+  const markup = Number(rules.settings?.default_markup_percent ?? 50);
+  return { price: round2(product.cost * (1 + markup / 100)), source: "default_markup" };
+};
+
+export const resolveMinMargin = (product: PricedProduct, rules: PricingRules) =>
+  Number(product.min_margin_percent ?? categoryRule(product, rules)?.min_margin_percent ?? rules.settings?.min_margin_percent ?? 0);
+
+// Margin is measured on the selling price: (price - cost) / price
+export const marginPercent = (netPrice: number, cost: number) =>
+  netPrice > 0 ? (netPrice - cost) / netPrice * 100 : -100;
+
+export const minimumPrice = (cost: number, minMarginPercent: number) =>
+  round2(cost / (1 - minMarginPercent / 100));
@@ -0,0 +1,202 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { downloadBlob, downloadCsv, parseCsv } from "@/lib/csv";
+import { variantLabel } from "@/lib/variants";
+import { format } from "date-fns";
+
+// The columns the import understands, in export order. Exported files use
+// these labels as headers so they can be edited and imported straight back.
+export const productImportFields = [
+  { key: "sku", label: "SKU", aliases: ["code", "item code", "barcode"] },
+  { key: "name", label: "Name", aliases: ["product", "product name", "item"] },
+  { key: "category", label: "Category", aliases: [] },
+  { key: "description", label: "Description", aliases: [] },
+  { key: "cost", label: "Cost", aliases: ["cost price", "unit cost"] },
+  { key: "price", label: "List Price", aliases: ["price", "selling price"] },
+  { key: "min_margin_percent", label: "Min. Margin (%)", aliases: ["min margin", "margin"] },
+  { key: "stock_quantity", label: "Stock", aliases: ["stock quantity", "quantity", "qty", "on hand"] },
+  { key: "reorder_level", label: "Reorder Level", aliases: ["reorder point"] },
+  { key: "reorder_quantity", label: "Reorder Quantity", aliases: ["reorder qty"] },
+] as const;
+
+export type ProductImportField = typeof productImportFields[number]["key"];
+
+// Column index in the file for each field, or null when it isn't imported
+export type ProductImportMapping = Record<ProductImportField, number | null>;
+
+export interface ProductImportRow {
+  line: number;
+  action: "create" | "update";
+  values: Partial<Record<ProductImportField, string | number>>;
+  errors: string[];
+}
+
+type ExistingProduct = Pick<Tables<"products">, "id" | "sku" | "name" | "is_active" | "parent_id">;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+const numberRules: Partial<Record<ProductImportField, { integer: boolean; min: number; max?: number }>> = {
+  cost: { integer: false, min: 0 },
+  price: { integer: false, min: 0 },
+  min_margin_percent: { integer: false, min: 0, max: 99 },
+  stock_quantity: { integer: true, min: 0 },
+  reorder_level: { integer: true, min: 0 },
+  reorder_quantity: { integer: true, min: 1 },
+};
+
+export const readSpreadsheet = async (file: File) => {
+  let rows: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    const { default: ExcelJS } = await import("exceljs");
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await file.arrayBuffer());
+    const sheet = workbook.worksheets[0];
+    if (!sheet) throw new Error("The workbook has no sheets");
+
+    rows = [];
+    sheet.eachRow((row) => {
+      rows.push(Array.from({ length: sheet.columnCount }, (_, i) => row.getCell(i + 1).text));
+    });
+  } else if (/\.csv$/i.test(file.name)) {
+    rows = parseCsv(await file.text());
+  } else {
+    throw new Error("Choose a .csv or .xlsx file");
+  }
+
+  const [headers = [], ...dataRows] = rows.map(row => row.map(cell => cell.trim()));
+  if (headers.length === 0) throw new Error("The file is empty");
+
+  return { headers, rows: dataRows.filter(row => row.some(Boolean)) };
+};
+
+export const guessProductImportMapping = (headers: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  return Object.fromEntries(productImportFields.map(field => {
+    const names = [field.key.replace(/_/g, " "), field.label, ...field.aliases].map(normalizeHeader);
+    const index = normalized.findIndex(header => names.includes(header));
+    return [field.key, index === -1 ? null : index];
+  })) as ProductImportMapping;
+};
+
+export const validateProductImport = (
+  rows: string[][],
+  mapping: ProductImportMapping,
+  existingProducts: ExistingProduct[],
+  categories: Pick<Tables<"categories">, "name">[],
+): ProductImportRow[] => {
+  const categoryNames = new Set(categories.map(category => category.name.toLowerCase()));
+  const productsBySku = new Map<string, ExistingProduct[]>();
+  existingProducts.forEach(product => {
+    if (!product.sku?.trim()) return;
+    const sku = product.sku.trim().toLowerCase();
+    productsBySku.set(sku, [...(productsBySku.get(sku) || []), product]);
+  });
+
+  const fileLinesBySku = new Map<string, number[]>();
+
+  const importRows = rows.map((row, index) => {
+    const line = index + 2; // Spreadsheet row, after the header
+    const values: ProductImportRow["values"] = {};
+    const errors: string[] = [];
+
+    productImportFields.forEach(field => {
+      const column = mapping[field.key];
+      const raw = column === null ? "" : (row[column] ?? "").trim();
+      if (!raw) return;
+
+      const rule = numberRules[field.key];
+      if (!rule) {
+        values[field.key] = raw;
+        return;
+      }
+
+      const value = Number(raw.replace(/[,\s]/g, ""));
+      if (
+        !Number.isFinite(value) ||
+        (rule.integer && !Number.isInteger(value)) ||
+        value < rule.min ||
+        (rule.max !== undefined && value > rule.max)
+      ) {
+        const kind = rule.integer ? "a whole number" : "a number";
+        const range = rule.max !== undefined ? `between ${rule.min} and ${rule.max}` : `of ${rule.min} or more`;
+        errors.push(`${field.label} "${raw}" must be ${kind} ${range}`);
+      } else {
+        values[field.key] = value;
+      }
+    });
+
+    const sku = typeof values.sku === "string" ? values.sku.toLowerCase() : null;
+    const matches = sku ? productsBySku.get(sku) || [] : [];
+
+    if (sku) fileLinesBySku.set(sku, [...(fileLinesBySku.get(sku) || []), line]);
+    if (matches.length > 1) {
+      errors.push(`SKU ${values.sku} matches ${matches.length} existing products`);
+    }
+    if (matches.length === 0 && !values.name) {
+      errors.push("Name is required for new products");
+    }
+    // Products only go into existing categories, matched regardless of case
+    if (typeof values.category === "string" && !categoryNames.has(values.category.toLowerCase())) {
+      errors.push(`Category "${values.category}" does not exist. Add it under Categories first`);
+    }
+    if (matches.length === 1 && !matches[0].is_active) {
+      errors.push(`${matches[0].name} is archived. Restore it before importing changes to it`);
+    }
+    // A product with variants holds no stock of its own
+    if (
+      matches.length === 1 &&
+      values.stock_quantity !== undefined &&
+      existingProducts.some(product => product.parent_id === matches[0].id)
+    ) {
+      errors.push(`Stock for ${matches[0].name} is held on its variants. Import stock against the variant SKUs`);
+    }
+
+    return { line, action: matches.length > 0 ? "update" : "create", values, errors } as ProductImportRow;
+  });
+
+  importRows.forEach(row => {
+    const sku = typeof row.values.sku === "string" ? row.values.sku.toLowerCase() : null;
+    const lines = sku ? fileLinesBySku.get(sku) || [] : [];
+    if (lines.length > 1) {
+      row.errors.push(`SKU ${row.values.sku} also appears on row ${lines.filter(l => l !== row.line).join(", ")}`);
+    }
+  });
+
+  return importRows;
+};
+
+type ExportProduct = Tables<"products">;
+
+const exportRows = (products: ExportProduct[]) => [
+  [...productImportFields.map(field => field.label), "Variant Options", "Active", "Created"],
+  ...products.map(product => [
+    ...productImportFields.map(field => product[field.key] ?? null),
+    variantLabel(product.variant_attributes),
+    product.is_active ? "Yes" : "No",
+    format(new Date(product.created_at), "yyyy-MM-dd"),
+  ]),
+];
+
+export const exportProducts = async (products: ExportProduct[], fileType: "csv" | "xlsx") => {
+  const filename = `Products-${format(new Date(), "yyyy-MM-dd")}.${fileType}`;
+  const rows = exportRows(products);
+
+  if (fileType === "csv") {
+    downloadCsv(filename, rows);
+    return;
+  }
+
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet("Products");
+  sheet.addRows(rows);
+  sheet.getRow(1).font = { bold: true };
+  sheet.columns.forEach(column => {
+    column.width = 16;
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  downloadBlob(filename, new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  }));
+};
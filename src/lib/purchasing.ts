@@ -0,0 +1,15 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export const purchaseOrderStatusLabels: Record<Enums<"purchase_order_status">, string> = {
+  ordered: "Ordered",
+  partially_received: "Partially Received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const purchaseOrderNumber = (id: string) => `PO-${id.slice(0, 8).toUpperCase()}`;
+
+// What we owe the supplier: goods received but not yet paid for. Advance
+// payments show up as a negative balance.
+export const purchaseOrderPayable = (order: { received_amount: number; amount_paid: number }) =>
+  Number(order.received_amount) - Number(order.amount_paid);
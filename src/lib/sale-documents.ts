@@ -0,0 +1,126 @@
+import jsPDF from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+import { company } from "@/lib/company";
+
+export interface SaleDocumentData {
+  sale: Tables<"sales">;
+  customer: Pick<Tables<"customers">, "name" | "email" | "phone" | "address"> | null;
+  items: { id: string; name: string; quantity: number; unit_price: number; discount_amount: number; line_total: number }[];
+  amountPaid: number;
+}
+
+export interface SaleDocument extends SaleDocumentData {
+  kind: "invoice" | "receipt";
+  title: string;
+  number: string;
+  total: number;
+  balance: number;
+}
+
+export const saleDocumentNumber = (sale: Pick<Tables<"sales">, "id" | "payment_status">) =>
+  `${sale.payment_status === "paid" ? "RCT" : "INV"}-${sale.id.slice(0, 8).toUpperCase()}`;
+
+// Paid sales are handed out as receipts, anything still owed as an invoice
+export const buildSaleDocument = (data: SaleDocumentData): SaleDocument => {
+  const isPaid = data.sale.payment_status === "paid";
+  const total = Number(data.sale.total_amount);
+
+  return {
+    ...data,
+    kind: isPaid ? "receipt" : "invoice",
+    title: isPaid ? "Receipt" : "Invoice",
+    number: saleDocumentNumber(data.sale),
+    total,
+    amountPaid: isPaid ? total : data.amountPaid,
+    balance: isPaid ? 0 : Math.max(total - data.amountPaid, 0),
+  };
+};
+
+export const formatMoney = (amount: number) => `RWF ${Number(amount).toLocaleString()}`;
+
+// Subtotal, discount and VAT rows shown above the total
+export const taxSummaryLines = (sale: Tables<"sales">): [string, number][] => {
+  const lines: [string, number][] = [["Subtotal", Number(sale.subtotal)]];
+  if (Number(sale.discount_amount) > 0) lines.push(["Discount", -Number(sale.discount_amount)]);
+  lines.push(["Net (excl. VAT)", Number(sale.net_amount)]);
+  lines.push([
+    `VAT ${Number(sale.tax_rate)}%${sale.tax_inclusive ? " (included)" : ""}`,
+    Number(sale.tax_amount),
+  ]);
+  return lines;
+};
+
+export const companyLines = () =>
+  [company.address, company.phone, company.email, company.tin && `TIN: ${company.tin}`].filter(Boolean);
+
+export const downloadSaleDocumentPdf = (saleDocument: SaleDocument) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(18);
+  doc.text(company.name, 14, 20);
+  doc.setFontSize(10);
+  companyLines().forEach((line, index) => doc.text(line, 14, 27 + index * 5));
+
+  doc.setFontSize(16);
+  doc.text(saleDocument.title.toUpperCase(), pageWidth - 14, 20, { align: "right" });
+  doc.setFontSize(10);
+  doc.text(saleDocument.number, pageWidth - 14, 27, { align: "right" });
+  doc.text(`Date: ${format(new Date(saleDocument.sale.sale_date), "MMM dd, yyyy")}`, pageWidth - 14, 32, { align: "right" });
+  if (saleDocument.kind === "invoice" && saleDocument.sale.due_date) {
+    doc.text(`Due: ${format(new Date(saleDocument.sale.due_date), "MMM dd, yyyy")}`, pageWidth - 14, 37, { align: "right" });
+  }
+
+  const billTo = [
+    saleDocument.customer?.name,
+    saleDocument.customer?.address,
+    saleDocument.customer?.phone,
+    saleDocument.customer?.email,
+  ].filter(Boolean);
+  doc.setFontSize(11);
+  doc.text("Bill To:", 14, 52);
+  doc.setFontSize(10);
+  billTo.forEach((line, index) => doc.text(line, 14, 58 + index * 5));
+
+  let finalY = 0;
+  autoTable(doc, {
+    startY: 60 + billTo.length * 5,
+    head: [["Product", "Qty", "Unit Price", "Discount", "Line Total"]],
+    body: saleDocument.items.map((item) => [
+      item.name,
+      item.quantity.toString(),
+      formatMoney(item.unit_price),
+      item.discount_amount > 0 ? formatMoney(-item.discount_amount) : "-",
+      formatMoney(item.line_total),
+    ]),
+    columnStyles: {
+      1: { halign: "right" },
+      2: { halign: "right" },
+      3: { halign: "right" },
+      4: { halign: "right" },
+    },
+    didDrawPage: (data) => {
+      finalY = data.cursor?.y ?? finalY;
+    },
+  });
+
+  const totals: [string, string][] = [
+    ...taxSummaryLines(saleDocument.sale).map(([label, amount]): [string, string] => [label, formatMoney(amount)]),
+    ["Total", formatMoney(saleDocument.total)],
+    ["Amount Paid", formatMoney(saleDocument.amountPaid)],
+    ["Balance Due", formatMoney(saleDocument.balance)],
+    ["Payment Status", saleDocument.sale.payment_status.toUpperCase()],
+  ];
+  totals.forEach(([label, value], index) => {
+    const y = finalY + 10 + index * 6;
+    doc.text(label, pageWidth - 80, y);
+    doc.text(value, pageWidth - 14, y, { align: "right" });
+  });
+
+  doc.setFontSize(9);
+  doc.text("Thank you for your business.", 14, finalY + 16 + totals.length * 6);
+
+  doc.save(`${saleDocument.number}.pdf`);
+};
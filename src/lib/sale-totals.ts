@@ -0,0 +1,42 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+// Mirrors calculate_discount / compute_sale_totals in the database so the
+// sale dialog previews exactly what create_sale will store
+
+export type DiscountType = Enums<"discount_type">;
+
+export interface Discount {
+  type: DiscountType | null;
+  value: number;
+}
+
+export interface SaleTax {
+  rate: number;
+  inclusive: boolean;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const calculateDiscount = (base: number, discount: Discount) => {
+  if (!discount.type || !discount.value || discount.value <= 0) return 0;
+  if (discount.type === "percent") return round2(base * Math.min(discount.value, 100) / 100);
+  return Math.min(discount.value, base);
+};
+
+export const calculateLineTotal = (quantity: number, unitPrice: number, discount: Discount) => {
+  const gross = quantity * unitPrice;
+  return gross - calculateDiscount(gross, discount);
+};
+
+export const calculateSaleTotals = (subtotal: number, discount: Discount, tax: SaleTax) => {
+  const discountAmount = calculateDiscount(subtotal, discount);
+  const taxable = subtotal - discountAmount;
+
+  if (tax.inclusive) {
+    const taxAmount = round2(taxable * tax.rate / (100 + tax.rate));
+    return { subtotal, discountAmount, taxAmount, netAmount: taxable - taxAmount, totalAmount: taxable };
+  }
+
+  const taxAmount = round2(taxable * tax.rate / 100);
+  return { subtotal, discountAmount, taxAmount, netAmount: taxable, totalAmount: taxable + taxAmount };
+};
@@ -0,0 +1,106 @@
+import type { QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import type { Discount, SaleTax } from "@/lib/sale-totals";
+
+export interface SaleLineInput {
+  product_id: string;
+  quantity: number;
+  unit_price: number;
+  discount?: Discount;
+}
+
+export interface CreateSaleInput {
+  // An existing customer; without one a customer is created from the name
+  customerId?: string | null;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  paymentStatus: Enums<"payment_status">;
+  dueDate?: string;
+  notes?: string;
+  creditOverrideReason?: string;
+  items: SaleLineInput[];
+  discount: Discount;
+  tax: SaleTax;
+}
+
+export const saleLinePayload = (items: SaleLineInput[]) => items.map(item => ({
+  product_id: item.product_id,
+  quantity: item.quantity,
+  unit_price: item.unit_price,
+  discount_type: item.discount && item.discount.value > 0 ? item.discount.type : null,
+  discount_value: item.discount?.value || 0,
+}));
+
+export const saleDiscountAndTax = (discount: Discount, tax: SaleTax) => ({
+  p_discount_type: discount.value > 0 ? discount.type : null,
+  p_discount_value: discount.value,
+  p_tax_rate: tax.rate,
+  p_tax_inclusive: tax.inclusive,
+});
+
+// Customer, sale, items and stock are written in one transaction server-side.
+// Both the sale dialog and the POS checkout go through here.
+export const createSale = async (input: CreateSaleInput) => {
+  const { data: sale, error } = await supabase.rpc("create_sale", {
+    p_customer_id: input.customerId || null,
+    p_customer_name: input.customerName,
+    p_customer_email: input.customerEmail || null,
+    p_customer_phone: input.customerPhone || null,
+    p_payment_status: input.paymentStatus,
+    p_due_date: input.dueDate || null,
+    p_notes: input.notes || null,
+    p_credit_override_reason: input.creditOverrideReason || null,
+    p_items: saleLinePayload(input.items),
+    ...saleDiscountAndTax(input.discount, input.tax),
+  });
+
+  if (error) throw error;
+  return sale;
+};
+
+// Mirrors enforce_credit_limit so the seller can be asked for an override
+// reason before submitting instead of hitting the server error
+export const checkCreditLimit = async (
+  customer: { id: string; credit_limit: number | null },
+  saleAmount: number,
+  excludeSaleId?: string,
+) => {
+  if (customer.credit_limit === null) return null;
+
+  const { data: balance, error } = await supabase.rpc("customer_credit_balance", {
+    p_customer_id: customer.id,
+    p_exclude_sale_id: excludeSaleId,
+  });
+  if (error) throw error;
+
+  const creditLimit = Number(customer.credit_limit);
+  return {
+    creditLimit,
+    balance: Number(balance),
+    saleAmount,
+    exceeded: Number(balance) + saleAmount > creditLimit,
+  };
+};
+
+export type CreditCheck = NonNullable<Awaited<ReturnType<typeof checkCreditLimit>>>;
+
+// Everything a sale being created, edited or deleted can change
+export const invalidateSaleQueries = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: ["sales"] });
+  queryClient.invalidateQueries({ queryKey: ["sale-details"] });
+  queryClient.invalidateQueries({ queryKey: ["sale-document"] });
+  queryClient.invalidateQueries({ queryKey: ["sale-returns"] });
+  queryClient.invalidateQueries({ queryKey: ["products"] });
+  queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+  queryClient.invalidateQueries({ queryKey: ["customers"] });
+  queryClient.invalidateQueries({ queryKey: ["customer-profile"] });
+  queryClient.invalidateQueries({ queryKey: ["customer-statement"] });
+  queryClient.invalidateQueries({ queryKey: ["debtors"] });
+  queryClient.invalidateQueries({ queryKey: ["debtor-stats"] });
+  queryClient.invalidateQueries({ queryKey: ["payments"] });
+  queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  queryClient.invalidateQueries({ queryKey: ["chart-data"] });
+  queryClient.invalidateQueries({ queryKey: ["analytics"] });
+};
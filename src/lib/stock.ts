@@ -0,0 +1,32 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export const stockMovementLabels: Record<Enums<"stock_movement_type">, string> = {
+  sale: "Sale",
+  return: "Return",
+  purchase: "Purchase Receipt",
+  adjustment: "Adjustment",
+  stocktake: "Stocktake",
+};
+
+export const costingMethodLabels: Record<Enums<"costing_method">, string> = {
+  weighted_average: "Weighted Average",
+  fifo: "FIFO (First In, First Out)",
+};
+
+interface ReorderPoint {
+  stock_quantity: number;
+  reorder_level: number;
+  reorder_quantity: number | null;
+}
+
+export const isLowStock = (product: Pick<ReorderPoint, "stock_quantity" | "reorder_level">) =>
+  product.stock_quantity <= product.reorder_level;
+
+// Without a set reorder quantity, suggest enough to bring stock back up to
+// twice the reorder level. Units already on open purchase orders count
+// towards it.
+export const suggestedReorderQuantity = (product: ReorderPoint, onOrder = 0) =>
+  Math.max(
+    (product.reorder_quantity ?? Math.max(product.reorder_level * 2 - product.stock_quantity, 1)) - onOrder,
+    0,
+  );
@@ -0,0 +1,40 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export const stocktakeStatusLabels: Record<Enums<"stocktake_status">, string> = {
+  counting: "Counting",
+  approved: "Approved",
+  cancelled: "Cancelled",
+};
+
+export const stocktakeNumber = (id: string) => `ST-${id.slice(0, 8).toUpperCase()}`;
+
+interface StocktakeLine {
+  counted_quantity: number | null;
+  expected_quantity: number | null;
+  unit_cost: number | null;
+  products: { stock_quantity: number; cost: number } | null;
+}
+
+// A saved count is compared with the stock on hand when it was counted; a
+// count not saved yet, with the current stock. The cost is the current cost
+// until the stocktake is approved, then the cost recorded at approval.
+export const stocktakeVariance = (line: StocktakeLine, counted = line.counted_quantity) => {
+  const expected = (counted === line.counted_quantity ? line.expected_quantity : null)
+    ?? line.products?.stock_quantity ?? 0;
+  const unitCost = Number(line.unit_cost ?? line.products?.cost ?? 0);
+  const units = counted === null ? 0 : counted - expected;
+  return { expected, counted, unitCost, units, value: units * unitCost };
+};
+
+export const stocktakeTotals = (variances: ReturnType<typeof stocktakeVariance>[]) =>
+  variances.reduce(
+    (totals, line) => ({
+      counted: totals.counted + (line.counted === null ? 0 : 1),
+      shortageUnits: totals.shortageUnits + Math.min(line.units, 0),
+      shortageValue: totals.shortageValue + Math.min(line.value, 0),
+      surplusUnits: totals.surplusUnits + Math.max(line.units, 0),
+      surplusValue: totals.surplusValue + Math.max(line.value, 0),
+      netValue: totals.netValue + line.value,
+    }),
+    { counted: 0, shortageUnits: 0, shortageValue: 0, surplusUnits: 0, surplusValue: 0, netValue: 0 },
+  );
@@ -0,0 +1,27 @@
+import type { Json } from "@/integrations/supabase/types";
+
+export interface VariantOption {
+  name: string;
+  value: string;
+}
+
+export const variantOptions = (attributes: Json): VariantOption[] =>
+  Array.isArray(attributes)
+    ? attributes.flatMap(option =>
+      option && typeof option === "object" && !Array.isArray(option)
+        ? [{ name: String(option.name ?? ""), value: String(option.value ?? "") }]
+        : [])
+    : [];
+
+// Matches variant_label() in the database, e.g. "256GB / Black"
+export const variantLabel = (attributes: Json) =>
+  variantOptions(attributes).map(option => option.value.trim()).filter(Boolean).join(" / ");
+
+// Parents only group their variants; they hold no stock and are never sold
+export const variantParentIds = (products: { parent_id: string | null }[]) =>
+  new Set(products.flatMap(product => product.parent_id ? [product.parent_id] : []));
+
+export const withoutVariantParents = <T extends { id: string; parent_id: string | null }>(products: T[]) => {
+  const parentIds = variantParentIds(products);
+  return products.filter(product => !parentIds.has(product.id));
+};
@@ -6,11 +6,15 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from "recharts";
 import { TrendingUp, DollarSign, Package, ShoppingCart } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryLevel, rollUpCategories } from "@/lib/categories";
 import { format, subDays, startOfDay, endOfDay, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
 const Analysis = () => {
   const [dateRange, setDateRange] = useState("monthly");
   const [customStartDate, setCustomStartDate] = useState("");
   const [customEndDate, setCustomEndDate] = useState("");
+  const [categoryLevel, setCategoryLevel] = useState<CategoryLevel>("top");
+  const { data: categories } = useCategories();
 
   const getDateRange = () => {
     const today = new Date();
@@ -44,7 +48,7 @@ const Analysis = () => {
         .from("sales")
         .select(`
           *,
-          sale_items(*, products(name, category)),
+          sale_items(*, products(name, category_id)),
           customers(name)
         `)
         .gte("sale_date", start.toISOString())
@@ -55,25 +59,62 @@ const Analysis = () => {
         .from("sale_items")
         .select(`
           quantity,
-          unit_price,
           unit_cost,
-          products(name, category),
-          sales!inner(sale_date)
+          line_total,
+          products(name, category_id, parent:products!parent_id(name)),
+          sales!inner(sale_date, subtotal, net_amount)
         `)
         .gte("sales.sale_date", start.toISOString())
         .lte("sales.sale_date", end.toISOString());
 
-      // Calculate metrics
+      // Get returns recorded in the period; they are subtracted from every metric
+      const { data: returnsData } = await supabase
+        .from("sale_returns")
+        .select(`
+          return_date,
+          total_amount,
+          total_cost,
+          tax_amount,
+          sale_return_items(quantity, unit_cost, net_amount, products(name, category_id, parent:products!parent_id(name)))
+        `)
+        .gte("return_date", format(start, "yyyy-MM-dd"))
+        .lte("return_date", format(end, "yyyy-MM-dd"));
+
+      // Line revenue excludes VAT and carries its share of any order discount
+      const soldItems = productPerformance?.map(item => ({
+        quantity: item.quantity,
+        unit_cost: item.unit_cost,
+        products: item.products,
+        revenue: Number(item.sales.subtotal) > 0
+          ? Number(item.line_total) / Number(item.sales.subtotal) * Number(item.sales.net_amount)
+          : 0,
+      })) || [];
+
+      // Returned lines enter the product and category maps with negative quantities
+      const returnedItems = returnsData?.flatMap(r => r.sale_return_items.map(item => ({
+        quantity: -item.quantity,
+        unit_cost: item.unit_cost,
+        products: item.products,
+        revenue: -Number(item.net_amount),
+      }))) || [];
+      const itemMovements = [...soldItems, ...returnedItems];
+
+      // Calculate metrics. Revenue is net of VAT; the tax is reported on its own
       
-      const totalRevenue = salesData?.reduce((sum, sale) => sum + Number(sale.total_amount), 0) || 0;
-      const totalCost = salesData?.reduce((sum, sale) => sum + Number(sale.total_cost), 0) || 0;
+      const returnedRevenue = returnsData?.reduce((sum, r) => sum + Number(r.total_amount) - Number(r.tax_amount), 0) || 0;
+      const returnedCost = returnsData?.reduce((sum, r) => sum + Number(r.total_cost), 0) || 0;
+      const returnedTax = returnsData?.reduce((sum, r) => sum + Number(r.tax_amount), 0) || 0;
+      const totalRevenue = (salesData?.reduce((sum, sale) => sum + Number(sale.net_amount), 0) || 0) - returnedRevenue;
+      const taxCollected = (salesData?.reduce((sum, sale) => sum + Number(sale.tax_amount), 0) || 0) - returnedTax;
+      const totalCost = (salesData?.reduce((sum, sale) => sum + Number(sale.total_cost), 0) || 0) - returnedCost;
       const totalProfit = totalRevenue - totalCost;
 
-      // Category analysis
-      const categoryMap = new Map();
-      productPerformance?.forEach(item => {
-        const category = item.products?.category || 'Uncategorized';
-        const revenue = item.quantity * Number(item.unit_price);
+      // Category analysis, per assigned category. Rolled up to the chosen
+      // level outside the query so switching levels doesn't refetch
+      const categoryMap = new Map<string | null, { revenue: number; cost: number; profit: number; quantity: number }>();
+      itemMovements.forEach(item => {
+        const category = item.products?.category_id ?? null;
+        const revenue = item.revenue;
         const cost = item.quantity * Number(item.unit_cost);
         const profit = revenue - cost;
         
@@ -86,19 +127,19 @@ const Analysis = () => {
         });
       });
 
-      const categoryData = Array.from(categoryMap.entries()).map(([name, data]) => ({
-        name,
+      const categoryTotals = Array.from(categoryMap.entries()).map(([categoryId, data]) => ({
+        categoryId,
         revenue: data.revenue,
         cost: data.cost,
         profit: data.profit,
         quantity: data.quantity,
       }));
 
-      // Top products by profit
+      // Top products by profit. Variants roll up into their parent product
       const productMap = new Map();
-      productPerformance?.forEach(item => {
-        const productName = item.products?.name || 'Unknown';
-        const revenue = item.quantity * Number(item.unit_price);
+      itemMovements.forEach(item => {
+        const productName = item.products?.parent?.name || item.products?.name || 'Unknown';
+        const revenue = item.revenue;
         const cost = item.quantity * Number(item.unit_cost);
         const profit = revenue - cost;
         
@@ -134,8 +175,12 @@ const Analysis = () => {
           return saleDate >= dayStart && saleDate <= dayEnd;
         }) || [];
 
-        const dayRevenue = daySales.reduce((sum, sale) => sum + Number(sale.total_amount), 0);
-        const dayCost = daySales.reduce((sum, sale) => sum + Number(sale.total_cost), 0);
+        const dayReturns = returnsData?.filter(r => r.return_date === format(date, "yyyy-MM-dd")) || [];
+
+        const dayRevenue = daySales.reduce((sum, sale) => sum + Number(sale.net_amount), 0)
+          - dayReturns.reduce((sum, r) => sum + Number(r.total_amount) - Number(r.tax_amount), 0);
+        const dayCost = daySales.reduce((sum, sale) => sum + Number(sale.total_cost), 0)
+          - dayReturns.reduce((sum, r) => sum + Number(r.total_cost), 0);
 
         timeTrend.push({
           date: dateStr,
@@ -149,18 +194,20 @@ const Analysis = () => {
         totalRevenue,
         totalCost,
         totalProfit,
-        categoryData,
+        taxCollected,
+        categoryTotals,
         topProducts,
         timeTrend,
         salesCount: salesData?.length || 0,
         avgOrderValue: salesData?.length ? totalRevenue / salesData.length : 0,
-        totalQuantitySold: productPerformance?.reduce((sum, item) => sum + item.quantity, 0) || 0,
+        totalQuantitySold: itemMovements.reduce((sum, item) => sum + item.quantity, 0),
       };
     },
   });
 
   const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8', '#82ca9d'];
   const { start, end } = getDateRange();
+  const categoryData = rollUpCategories(analyticsData?.categoryTotals || [], categories || [], categoryLevel);
 
   return (
     <div className="space-y-6">
@@ -217,20 +264,41 @@ const Analysis = () => {
             </Button>
           </div>
         </div>
+
+        <div className="flex gap-2 mt-2 items-center">
+          <span className="text-sm text-gray-600">Categories:</span>
+          <Button
+            variant={categoryLevel === "top" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setCategoryLevel("top")}
+          >
+            Top-level
+          </Button>
+          <Button
+            variant={categoryLevel === "sub" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setCategoryLevel("sub")}
+          >
+            Sub-categories
+          </Button>
+        </div>
       </div>
 
       {/* Key Metrics */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">Net Revenue</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">RWF {analyticsData?.totalRevenue?.toLocaleString() || 0}</div>
             <div className="flex items-center text-sm text-green-600">
               <TrendingUp className="h-3 w-3 mr-1" />
-              Total sales
+              Excluding VAT
+            </div>
+            <div className="text-xs text-gray-600">
+              VAT collected: RWF {analyticsData?.taxCollected?.toLocaleString() || 0}
             </div>
           </CardContent>
         </Card>
@@ -301,7 +369,7 @@ const Analysis = () => {
             <ResponsiveContainer width="100%" height={300}>
               <PieChart>
                 <Pie
-                  data={analyticsData?.categoryData || []}
+                  data={categoryData}
                   cx="50%"
                   cy="50%"
                   labelLine={false}
@@ -310,7 +378,7 @@ const Analysis = () => {
                   fill="#8884d8"
                   dataKey="profit"
                 >
-                  {analyticsData?.categoryData?.map((entry, index) => (
+                  {categoryData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                   ))}
                 </Pie>
@@ -345,7 +413,7 @@ const Analysis = () => {
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
-              <BarChart data={analyticsData?.categoryData || []}>
+              <BarChart data={categoryData}>
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
                 <YAxis />
@@ -366,7 +434,7 @@ const Analysis = () => {
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              {analyticsData?.categoryData?.map((category, index) => (
+              {categoryData.map((category, index) => (
                 <div key={category.name} className="flex items-center justify-between p-3 border rounded">
                   <div className="flex items-center space-x-3">
                     <div 
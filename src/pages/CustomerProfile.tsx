@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import SaleDetailsDialog from "@/components/SaleDetailsDialog";
+import CustomerStatementDialog from "@/components/CustomerStatementDialog";
+import { ArrowLeft, Eye, FileText } from "lucide-react";
+import { differenceInCalendarDays, format, isAfter } from "date-fns";
+
+const CustomerProfile = () => {
+  const { id } = useParams<{ id: string }>();
+  const [detailsSaleId, setDetailsSaleId] = useState<string | null>(null);
+  const [statementOpen, setStatementOpen] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["customer-profile", id],
+    enabled: !!id,
+    queryFn: async () => {
+      const [customerResult, salesResult, debtorsResult, returnsResult, paymentsResult, overridesResult] = await Promise.all([
+        supabase
+          .from("customers")
+          .select("*, price_lists(name)")
+          .eq("id", id)
+          .single(),
+        supabase
+          .from("sales")
+          .select("*, sale_items(id, quantity, line_total, products(name))")
+          .eq("customer_id", id)
+          .order("sale_date", { ascending: false }),
+        supabase
+          .from("debtors")
+          .select("*")
+          .eq("customer_id", id),
+        supabase
+          .from("sale_returns")
+          .select("total_amount, tax_amount, total_cost")
+          .eq("customer_id", id),
+        supabase
+          .from("payments")
+          .select("debtor_id, payment_date")
+          .eq("customer_id", id),
+        // Only managers can read overrides, so this is empty for everyone else
+        supabase
+          .from("credit_limit_overrides")
+          .select("*")
+          .eq("customer_id", id)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (customerResult.error) throw customerResult.error;
+      if (salesResult.error) throw salesResult.error;
+      if (debtorsResult.error) throw debtorsResult.error;
+      if (returnsResult.error) throw returnsResult.error;
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (overridesResult.error) throw overridesResult.error;
+
+      return {
+        customer: customerResult.data,
+        sales: salesResult.data,
+        debtors: debtorsResult.data,
+        returns: returnsResult.data,
+        payments: paymentsResult.data,
+        overrides: overridesResult.data,
+      };
+    },
+  });
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  if (!data) {
+    return <div>Customer not found</div>;
+  }
+
+  const { customer, sales, debtors, returns, payments, overrides } = data;
+
+  // Revenue and profit exclude VAT and are net of returns, like the dashboard
+  const returnedRevenue = returns.reduce((sum, r) => sum + Number(r.total_amount) - Number(r.tax_amount), 0);
+  const returnedCost = returns.reduce((sum, r) => sum + Number(r.total_cost), 0);
+  const lifetimeRevenue = sales.reduce((sum, sale) => sum + Number(sale.net_amount), 0) - returnedRevenue;
+  const lifetimeCost = sales.reduce((sum, sale) => sum + Number(sale.total_cost), 0) - returnedCost;
+  const lifetimeProfit = lifetimeRevenue - lifetimeCost;
+  const averageOrderValue = sales.length > 0 ? lifetimeRevenue / sales.length : 0;
+  const firstPurchase = sales.length > 0 ? sales[sales.length - 1].sale_date : null;
+  const lastPurchase = sales.length > 0 ? sales[0].sale_date : null;
+
+  const openDebts = debtors.filter(d => !d.is_resolved);
+  const outstandingBalance = openDebts.reduce((sum, d) => sum + Number(d.amount_owed) - Number(d.amount_paid), 0);
+
+  // A settled debt was paid on time when its last payment landed on or before
+  // the due date. Open debts that are already past due count as late.
+  const settledOn = (debtorId: string) => payments
+    .filter(p => p.debtor_id === debtorId)
+    .reduce<string | null>((latest, p) => (!latest || p.payment_date > latest ? p.payment_date : latest), null);
+
+  const daysLate = debtors.flatMap(debtor => {
+    if (debtor.is_resolved) {
+      const paidOn = settledOn(debtor.id);
+      // Debts cleared by a return have no payment to measure against
+      if (!paidOn) return [];
+      return [Math.max(differenceInCalendarDays(new Date(paidOn), new Date(debtor.due_date)), 0)];
+    }
+    if (isAfter(new Date(), new Date(debtor.due_date))) {
+      return [differenceInCalendarDays(new Date(), new Date(debtor.due_date))];
+    }
+    return [];
+  });
+  const onTimeCount = daysLate.filter(days => days === 0).length;
+  const lateDays = daysLate.filter(days => days > 0);
+  const averageDaysLate = lateDays.length > 0
+    ? Math.round(lateDays.reduce((sum, days) => sum + days, 0) / lateDays.length)
+    : 0;
+  const onTimeRate = daysLate.length > 0 ? Math.round(onTimeCount / daysLate.length * 100) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <Button variant="ghost" size="sm" asChild>
+            <Link to="/customers">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold">{customer.name}</h1>
+            <p className="text-sm text-gray-500">
+              {[customer.phone, customer.email, customer.address].filter(Boolean).join(" · ") || "No contact details"}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {customer.price_lists?.name && <Badge variant="secondary">{customer.price_lists.name}</Badge>}
+          {!customer.is_active && <Badge variant="outline">Archived</Badge>}
+          <Button variant="outline" onClick={() => setStatementOpen(true)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Statement
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lifetime Revenue</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">RWF {lifetimeRevenue.toLocaleString()}</div>
+            <p className="text-xs text-gray-500">
+              {sales.length} sale{sales.length === 1 ? "" : "s"}
+              {returnedRevenue > 0 && ` · net of RWF ${returnedRevenue.toLocaleString()} returns`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Lifetime Profit</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${lifetimeProfit < 0 ? "text-red-600" : "text-green-600"}`}>
+              RWF {lifetimeProfit.toLocaleString()}
+            </div>
+            <p className="text-xs text-gray-500">Avg order RWF {Math.round(averageOrderValue).toLocaleString()}</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Outstanding Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${outstandingBalance > 0 ? "text-red-600" : ""}`}>
+              RWF {outstandingBalance.toLocaleString()}
+            </div>
+            <p className="text-xs text-gray-500">
+              {openDebts.length} open debt{openDebts.length === 1 ? "" : "s"}
+              {customer.credit_limit !== null && ` · limit RWF ${Number(customer.credit_limit).toLocaleString()}`}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium">Payment Punctuality</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{onTimeRate === null ? "-" : `${onTimeRate}% on time`}</div>
+            <p className="text-xs text-gray-500">
+              {onTimeRate === null
+                ? "No credit history"
+                : lateDays.length > 0
+                  ? `${lateDays.length} late, ${averageDaysLate} days on average`
+                  : `${onTimeCount} debt${onTimeCount === 1 ? "" : "s"}, never late`}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchase History</CardTitle>
+          <p className="text-sm text-gray-500">
+            {firstPurchase && lastPurchase
+              ? `First purchase ${format(new Date(firstPurchase), "MMM dd, yyyy")} · last purchase ${format(new Date(lastPurchase), "MMM dd, yyyy")}`
+              : "No purchases yet"}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Profit</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sales.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-gray-500">
+                    This customer has no sales yet
+                  </TableCell>
+                </TableRow>
+              )}
+              {sales.map((sale) => (
+                <TableRow key={sale.id}>
+                  <TableCell>{format(new Date(sale.sale_date), "MMM dd, yyyy")}</TableCell>
+                  <TableCell>
+                    {sale.sale_items.map((item) => (
+                      <div key={item.id} className="text-sm">
+                        {item.products?.name} × {item.quantity}
+                        <span className="text-gray-500"> · RWF {Number(item.line_total).toLocaleString()}</span>
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right">RWF {Number(sale.total_amount).toLocaleString()}</TableCell>
+                  <TableCell className="text-right">
+                    RWF {(Number(sale.net_amount) - Number(sale.total_cost)).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={sale.payment_status === "paid" ? "default" : "secondary"} className="capitalize">
+                      {sale.payment_status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => setDetailsSaleId(sale.id)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {overrides.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Credit Limit Overrides</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Balance Before</TableHead>
+                  <TableHead className="text-right">Sale</TableHead>
+                  <TableHead className="text-right">Limit</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overrides.map((override) => (
+                  <TableRow key={override.id}>
+                    <TableCell>{format(new Date(override.created_at), "MMM dd, yyyy HH:mm")}</TableCell>
+                    <TableCell className="text-right">RWF {Number(override.balance_before).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">RWF {Number(override.sale_amount).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">RWF {Number(override.credit_limit).toLocaleString()}</TableCell>
+                    <TableCell className="whitespace-pre-wrap">{override.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <SaleDetailsDialog
+        saleId={detailsSaleId}
+        onOpenChange={(open) => !open && setDetailsSaleId(null)}
+      />
+
+      <CustomerStatementDialog
+        customerId={statementOpen ? customer.id : null}
+        onOpenChange={setStatementOpen}
+      />
+    </div>
+  );
+};
+
+export default CustomerProfile;
@@ -0,0 +1,445 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import ListPagination from "@/components/ListPagination";
+import CustomerDuplicatesDialog from "@/components/CustomerDuplicatesDialog";
+import CreditOverridesDialog from "@/components/CreditOverridesDialog";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Edit, Archive, ArchiveRestore, Search, Users, ShieldAlert } from "lucide-react";
+import { format } from "date-fns";
+
+const PAGE_SIZE = 25;
+
+const Customers = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Tables<"customers"> | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    email: "",
+    phone: "",
+    address: "",
+    price_list_id: "none",
+    credit_limit: "",
+  });
+  const [duplicatesOpen, setDuplicatesOpen] = useState(false);
+  const [overridesOpen, setOverridesOpen] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+  const search = searchParams.get("q") || "";
+  const showArchived = searchParams.get("archived") === "1";
+  const [searchInput, setSearchInput] = useState(search);
+
+  const paramsWith = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+    return params;
+  };
+
+  const { data: customersPage, isLoading } = useQuery({
+    queryKey: ["customers", { page, search, showArchived }],
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      let query = supabase
+        .from("customers")
+        .select("*, price_lists(name)", { count: "exact" })
+        .eq("is_active", !showArchived);
+
+      if (search) {
+        const pattern = `%${search.replace(/[%,()]/g, "")}%`;
+        query = query.or(`name.ilike.${pattern},email.ilike.${pattern},phone.ilike.${pattern}`);
+      }
+
+      const { data, error, count } = await query
+        .order("name")
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { customers: data, count: count || 0 };
+    },
+  });
+
+  const customers = customersPage?.customers;
+  const pageCount = Math.ceil((customersPage?.count || 0) / PAGE_SIZE);
+
+  const { data: priceLists } = useQuery({
+    queryKey: ["price-lists"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_lists")
+        .select("*, customers(id, name)")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const customerData = () => ({
+    name: formData.name.trim(),
+    email: formData.email.trim() || null,
+    phone: formData.phone.trim() || null,
+    address: formData.address.trim() || null,
+    price_list_id: formData.price_list_id === "none" ? null : formData.price_list_id,
+    credit_limit: formData.credit_limit === "" ? null : Number(formData.credit_limit),
+  });
+
+  const createCustomerMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("customers")
+        .insert(customerData());
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["price-lists"] });
+      setIsOpen(false);
+      resetForm();
+      toast({
+        title: "✅ Success",
+        description: "Customer created successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateCustomerMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("customers")
+        .update({ ...customerData(), updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      queryClient.invalidateQueries({ queryKey: ["price-lists"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["debtors"] });
+      setIsOpen(false);
+      resetForm();
+      toast({
+        title: "✅ Success",
+        description: "Customer updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from("customers")
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      toast({
+        title: "✅ Success",
+        description: isActive ? "Customer restored" : "Customer archived. Their sales and debts are kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      email: "",
+      phone: "",
+      address: "",
+      price_list_id: "none",
+      credit_limit: "",
+    });
+    setEditingCustomer(null);
+  };
+
+  const handleEdit = (customer: Tables<"customers">) => {
+    setEditingCustomer(customer);
+    setFormData({
+      name: customer.name,
+      email: customer.email || "",
+      phone: customer.phone || "",
+      address: customer.address || "",
+      price_list_id: customer.price_list_id || "none",
+      credit_limit: customer.credit_limit === null ? "" : String(customer.credit_limit),
+    });
+    setIsOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingCustomer) {
+      updateCustomerMutation.mutate(editingCustomer.id);
+    } else {
+      createCustomerMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Customers</h1>
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setOverridesOpen(true)}>
+            <ShieldAlert className="h-4 w-4 mr-2" />
+            Credit Overrides
+          </Button>
+          <Button variant="outline" onClick={() => setDuplicatesOpen(true)}>
+            <Users className="h-4 w-4 mr-2" />
+            Find Duplicates
+          </Button>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Customer
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {editingCustomer ? "Edit Customer" : "Add New Customer"}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="email">Email</Label>
+                    <Input
+                      id="email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="phone">Phone</Label>
+                    <Input
+                      id="phone"
+                      value={formData.phone}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="address">Address</Label>
+                  <Textarea
+                    id="address"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  />
+                </div>
+
+                <div>
+                  <Label>Price List</Label>
+                  <Select
+                    value={formData.price_list_id}
+                    onValueChange={(value) => setFormData({ ...formData, price_list_id: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Standard pricing</SelectItem>
+                      {priceLists?.map((list) => (
+                        <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="creditLimit">Credit Limit (RWF)</Label>
+                  <Input
+                    id="creditLimit"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={formData.credit_limit}
+                    onChange={(e) => setFormData({ ...formData, credit_limit: e.target.value })}
+                    placeholder="No limit"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Maximum open debt across unpaid sales. Leave empty for no limit.
+                  </p>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createCustomerMutation.isPending || updateCustomerMutation.isPending}
+                  >
+                    {editingCustomer ? "Update" : "Create"} Customer
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{showArchived ? "Archived Customers" : "Customers"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <form
+              className="flex-1 min-w-64"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSearchParams(paramsWith({ q: searchInput.trim() || null, page: null }));
+              }}
+            >
+              <div className="relative">
+                <Search className="absolute left-2 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Search name, email or phone, press Enter"
+                  className="pl-8"
+                />
+              </div>
+            </form>
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch
+                id="showArchived"
+                checked={showArchived}
+                onCheckedChange={(checked) => setSearchParams(paramsWith({ archived: checked ? "1" : null, page: null }))}
+              />
+              <Label htmlFor="showArchived">Show archived</Label>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Price List</TableHead>
+                  <TableHead>Credit Limit</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers?.map((customer) => (
+                  <TableRow key={customer.id}>
+                    <TableCell className="font-medium">
+                      <Link to={`/customers/${customer.id}`} className="hover:underline">
+                        {customer.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{customer.email}</TableCell>
+                    <TableCell>{customer.phone}</TableCell>
+                    <TableCell className="max-w-48 truncate" title={customer.address || undefined}>
+                      {customer.address}
+                    </TableCell>
+                    <TableCell>{customer.price_lists?.name || "-"}</TableCell>
+                    <TableCell>
+                      {customer.credit_limit === null ? "-" : `RWF ${Number(customer.credit_limit).toLocaleString()}`}
+                    </TableCell>
+                    <TableCell>{format(new Date(customer.created_at), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(customer)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setActiveMutation.mutate({ id: customer.id, isActive: !customer.is_active })}
+                          title={customer.is_active ? "Archive" : "Restore"}
+                        >
+                          {customer.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {customers?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-gray-500">
+                      No customers found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          <ListPagination
+            page={page}
+            pageCount={pageCount}
+            hrefFor={(target) => `?${paramsWith({ page: target > 1 ? target.toString() : null })}`}
+            onPageChange={(target) => setSearchParams(paramsWith({ page: target > 1 ? target.toString() : null }))}
+          />
+        </CardContent>
+      </Card>
+
+      <CustomerDuplicatesDialog open={duplicatesOpen} onOpenChange={setDuplicatesOpen} />
+      <CreditOverridesDialog open={overridesOpen} onOpenChange={setOverridesOpen} />
+    </div>
+  );
+};
+
+export default Customers;
@@ -1,11 +1,15 @@
 
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
-import { TrendingUp, DollarSign, Package, Users, ShoppingCart } from "lucide-react";
+import { TrendingUp, DollarSign, Package, Users, ShoppingCart, AlertTriangle } from "lucide-react";
+import { costingMethodLabels, isLowStock } from "@/lib/stock";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { withoutVariantParents } from "@/lib/variants";
 import { format, subDays, startOfDay, endOfDay, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
 const Dashboard = () => {
   const [dateRange, setDateRange] = useState("daily");
@@ -35,6 +39,8 @@ const Dashboard = () => {
     }
   };
 
+  const { data: settings } = useAppSettings();
+
   const { data: stats } = useQuery({
     queryKey: ["dashboard-stats", dateRange, customStartDate, customEndDate],
     queryFn: async () => {
@@ -51,6 +57,13 @@ const Dashboard = () => {
         .gte("sale_date", start.toISOString())
         .lte("sale_date", end.toISOString());
 
+      // Returns count against the period they were recorded in
+      const { data: returnsData } = await supabase
+        .from("sale_returns")
+        .select("total_amount, total_cost, tax_amount, sale_return_items(quantity)")
+        .gte("return_date", format(start, "yyyy-MM-dd"))
+        .lte("return_date", format(end, "yyyy-MM-dd"));
+
       // Get products count
       const { count: productsCount } = await supabase
         .from("products")
@@ -63,26 +76,31 @@ const Dashboard = () => {
         .select("*", { count: "exact", head: true })
         .eq("is_resolved", false);
 
-      // Get total inventory value (cost * quantity)
-      const { data: products } = await supabase
-        .from("products")
-        .select("cost, stock_quantity")
-        .eq("is_active", true);
+      // Get total inventory value, at the cost of the stock layers on hand
+      const { data: inventoryValue } = await supabase.rpc("inventory_value");
+      const totalInventoryValue = Number(inventoryValue) || 0;
 
-      const totalInventoryValue = products?.reduce((sum, product) => 
-        sum + (Number(product.cost) * product.stock_quantity), 0) || 0;
+      // Calculate sales metrics, net of returns. Revenue excludes VAT, which
+      // is collected on behalf of the tax authority and reported separately
+      const returnedRevenue = returnsData?.reduce((sum, r) => sum + Number(r.total_amount) - Number(r.tax_amount), 0) || 0;
+      const returnedTax = returnsData?.reduce((sum, r) => sum + Number(r.tax_amount), 0) || 0;
+      const returnedCost = returnsData?.reduce((sum, r) => sum + Number(r.total_cost), 0) || 0;
+      const returnedUnits = returnsData?.reduce((sum, r) =>
+        sum + r.sale_return_items.reduce((itemSum, item) => itemSum + item.quantity, 0), 0) || 0;
 
-      // Calculate sales metrics
-      const totalRevenue = salesData?.reduce((sum, sale) => sum + Number(sale.total_amount), 0) || 0;
-      const totalCost = salesData?.reduce((sum, sale) => sum + Number(sale.total_cost), 0) || 0;
+      const totalRevenue = (salesData?.reduce((sum, sale) => sum + Number(sale.net_amount), 0) || 0) - returnedRevenue;
+      const taxCollected = (salesData?.reduce((sum, sale) => sum + Number(sale.tax_amount), 0) || 0) - returnedTax;
+      const totalCost = (salesData?.reduce((sum, sale) => sum + Number(sale.total_cost), 0) || 0) - returnedCost;
       const totalProfit = totalRevenue - totalCost;
-      const productsSold = salesData?.reduce((sum, sale) => 
-        sum + (sale.sale_items?.reduce((itemSum, item) => itemSum + item.quantity, 0) || 0), 0) || 0;
+      const productsSold = (salesData?.reduce((sum, sale) => 
+        sum + (sale.sale_items?.reduce((itemSum, item) => itemSum + item.quantity, 0) || 0), 0) || 0) - returnedUnits;
 
       return {
         totalRevenue,
         totalCost,
         totalProfit,
+        taxCollected,
+        returnedRevenue,
         productsSold,
         debtorsCount: debtorsCount || 0,
         salesData: salesData || [],
@@ -109,18 +127,27 @@ const Dashboard = () => {
         };
       });
 
+      const { data: returnsData } = await supabase
+        .from("sale_returns")
+        .select("return_date, total_amount, total_cost, tax_amount")
+        .gte("return_date", chartDays[0].dateString)
+        .lte("return_date", chartDays[chartDays.length - 1].dateString);
+
       const chartPromises = chartDays.map(async (day) => {
         const dayStart = startOfDay(new Date(day.dateString));
         const dayEnd = endOfDay(new Date(day.dateString));
 
         const { data: dayStats } = await supabase
           .from("sales")
-          .select("total_amount, total_cost")
+          .select("net_amount, total_cost")
           .gte("sale_date", dayStart.toISOString())
           .lt("sale_date", dayEnd.toISOString());
 
-        const sales = dayStats?.reduce((sum, sale) => sum + Number(sale.total_amount), 0) || 0;
-        const expenses = dayStats?.reduce((sum, sale) => sum + Number(sale.total_cost), 0) || 0;
+        const dayReturns = returnsData?.filter(r => r.return_date === day.dateString) || [];
+        const sales = (dayStats?.reduce((sum, sale) => sum + Number(sale.net_amount), 0) || 0)
+          - dayReturns.reduce((sum, r) => sum + Number(r.total_amount) - Number(r.tax_amount), 0);
+        const expenses = (dayStats?.reduce((sum, sale) => sum + Number(sale.total_cost), 0) || 0)
+          - dayReturns.reduce((sum, r) => sum + Number(r.total_cost), 0);
 
         return {
           date: day.date,
@@ -134,11 +161,26 @@ const Dashboard = () => {
     },
   });
 
+  const { data: lowStockProducts } = useQuery({
+    queryKey: ["products", "low-stock"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("id, parent_id, name, stock_quantity, reorder_level")
+        .eq("is_active", true);
+      if (error) throw error;
+      // Emptiest first, relative to each product's own reorder level
+      return withoutVariantParents(data)
+        .filter(isLowStock)
+        .sort((a, b) => a.stock_quantity / Math.max(a.reorder_level, 1) - b.stock_quantity / Math.max(b.reorder_level, 1));
+    },
+  });
+
   const recentSales = stats?.salesData?.slice(0, 5).map(sale => ({
     customer: sale.customers?.name || "Unknown",
     items: sale.sale_items?.map(item => `${item.quantity}x Product`).join(", ") || "",
     amount: `RWF ${Number(sale.total_amount).toLocaleString()}`,
-    profit: `RWF ${(Number(sale.total_amount) - Number(sale.total_cost)).toLocaleString()}`,
+    profit: `RWF ${(Number(sale.net_amount) - Number(sale.total_cost)).toLocaleString()}`,
     date: format(new Date(sale.sale_date), "MMM dd, yyyy"),
   })) || [];
 
@@ -213,7 +255,7 @@ const Dashboard = () => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
         <Card>
           <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <CardTitle className="text-sm font-medium">Net Revenue</CardTitle>
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
@@ -222,6 +264,14 @@ const Dashboard = () => {
               <TrendingUp className="h-3 w-3 mr-1" />
               From {stats?.salesCount  || 0} sales
             </div>
+            <div className="text-xs text-gray-600">
+              VAT collected: RWF {stats?.taxCollected?.toLocaleString() || 0}
+            </div>
+            {stats?.returnedRevenue > 0 && (
+              <div className="text-xs text-red-600">
+                Net of RWF {stats.returnedRevenue.toLocaleString()} returns
+              </div>
+            )}
           </CardContent>
         </Card>
 
@@ -273,7 +323,7 @@ const Dashboard = () => {
           <CardContent>
             <div className="text-2xl font-bold">RWF {stats?.totalInventoryValue?.toLocaleString() || 0}</div>
             <div className="flex items-center text-sm text-gray-600">
-              Stock cost value
+              Stock cost value{settings && ` (${costingMethodLabels[settings.costing_method]})`}
             </div>
           </CardContent>
         </Card>
@@ -341,6 +391,32 @@ const Dashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        {/* Low Stock */}
+        <Card className="col-span-1 lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Low Stock</CardTitle>
+            {lowStockProducts && lowStockProducts.length > 0 && (
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/products?stock=low">View all {lowStockProducts.length}</Link>
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {lowStockProducts && lowStockProducts.length > 0 ? lowStockProducts.slice(0, 5).map((product) => (
+              <div key={product.id} className="flex items-center space-x-4">
+                <AlertTriangle className={`h-4 w-4 ${product.stock_quantity === 0 ? "text-red-600" : "text-amber-500"}`} />
+                <p className="flex-1 text-sm font-medium">{product.name}</p>
+                <p className="text-sm">
+                  <span className="font-bold text-red-600">{product.stock_quantity}</span>
+                  <span className="text-gray-500"> / reorder at {product.reorder_level}</span>
+                </p>
+              </div>
+            )) : (
+              <p className="text-center text-gray-500 py-4">All products are above their reorder level</p>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
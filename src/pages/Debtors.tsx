@@ -1,16 +1,19 @@
 
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { useToast } from "@/hooks/use-toast";
-import { CheckCircle, Clock, AlertTriangle, DollarSign } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import RecordPaymentDialog from "@/components/RecordPaymentDialog";
+import PaymentHistory from "@/components/PaymentHistory";
+import { CheckCircle, Clock, AlertTriangle, DollarSign, Wallet, History } from "lucide-react";
 import { format, isAfter } from "date-fns";
 
 const Debtors = () => {
-  const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const [payingDebtor, setPayingDebtor] = useState<NonNullable<typeof debtors>[number] | null>(null);
+  const [historyDebtor, setHistoryDebtor] = useState<NonNullable<typeof debtors>[number] | null>(null);
 
   const { data: debtors, isLoading } = useQuery({
     queryKey: ["debtors"],
@@ -20,7 +23,7 @@ const Debtors = () => {
         .select(`
           *,
           customers(name, email, phone),
-          sales(sale_date, notes, total_amount, total_cost)
+          sales(sale_date, notes, total_amount, net_amount, total_cost)
         `)
         .eq("is_resolved", false)
         .order("due_date", { ascending: true });
@@ -34,19 +37,19 @@ const Debtors = () => {
     queryFn: async () => {
       const { data: allDebtors } = await supabase
         .from("debtors")
-        .select("amount_owed, is_resolved, due_date");
+        .select("amount_owed, amount_paid, is_resolved, due_date");
 
       const totalOutstanding = allDebtors
         ?.filter(d => !d.is_resolved)
-        ?.reduce((sum, debtor) => sum + Number(debtor.amount_owed), 0) || 0;
+        ?.reduce((sum, debtor) => sum + Number(debtor.amount_owed) - Number(debtor.amount_paid), 0) || 0;
 
       const overdueDebtors = allDebtors
         ?.filter(d => !d.is_resolved && isAfter(new Date(), new Date(d.due_date)))
         ?.length || 0;
 
+      // Installments on open debts count as recovered too
       const totalResolved = allDebtors
-        ?.filter(d => d.is_resolved)
-        ?.reduce((sum, debtor) => sum + Number(debtor.amount_owed), 0) || 0;
+        ?.reduce((sum, debtor) => sum + Number(debtor.amount_paid), 0) || 0;
 
       return {
         totalOutstanding,
@@ -57,49 +60,6 @@ const Debtors = () => {
     },
   });
 
-  const markAsPaidMutation = useMutation({
-    mutationFn: async (debtorId: string) => {
-      // Mark debtor as resolved
-      const { error: debtorError } = await supabase
-        .from("debtors")
-        .update({ is_resolved: true, updated_at: new Date().toISOString() })
-        .eq("id", debtorId);
-      if (debtorError) throw debtorError;
-
-      // Update the corresponding sale to paid status
-      const { data: debtor } = await supabase
-        .from("debtors")
-        .select("sale_id")
-        .eq("id", debtorId)
-        .single();
-
-      if (debtor) {
-        const { error: saleError } = await supabase
-          .from("sales")
-          .update({ payment_status: "paid" })
-          .eq("id", debtor.sale_id);
-        if (saleError) throw saleError;
-      }
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["debtors"] });
-      queryClient.invalidateQueries({ queryKey: ["debtor-stats"] });
-      queryClient.invalidateQueries({ queryKey: ["sales"] });
-      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
-      toast({
-        title: "✅ Success ",
-        description: "Payment marked as received. Profit has been recorded.",
-      });
-    },
-    onError: (error: any) => {
-      toast({
-        title: "Error",
-        description: error.message,
-        variant: "destructive",
-      });
-    },
-  });
-
   const getStatusColor = (dueDate: string) => {
     const due = new Date(dueDate);
     const now = new Date();
@@ -175,7 +135,7 @@ const Debtors = () => {
             <div className="text-2xl font-bold text-green-600">
               RWF {debtorStats?.totalResolved?.toLocaleString() || 0}
             </div>
-            <p className="text-xs text-muted-foreground">Paid debts</p>
+            <p className="text-xs text-muted-foreground">Payments received</p>
           </CardContent>
         </Card>
       </div>
@@ -185,7 +145,7 @@ const Debtors = () => {
         <CardHeader>
           <CardTitle>Outstanding Debts (Pending Sales)</CardTitle>
           <p className="text-sm text-gray-500">
-            These are customers with pending payments. Mark as paid to record the profit.
+            These are customers with pending payments. Record installments as they come in; a debt is resolved once its balance reaches zero.
           </p>
         </CardHeader>
         <CardContent>
@@ -198,6 +158,8 @@ const Debtors = () => {
                   <TableHead>Customer</TableHead>
                   <TableHead>Contact</TableHead>
                   <TableHead>Amount Owed</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>Balance</TableHead>
                   <TableHead>Potential Profit</TableHead>
                   <TableHead>Sale Date</TableHead>
                   <TableHead>Due Date</TableHead>
@@ -211,7 +173,7 @@ const Debtors = () => {
                     (new Date(debtor.due_date).getTime() - new Date().getTime()) / (1000 * 3600 * 24)
                   );
                   
-                  const potentialProfit = Number(debtor.sales?.total_amount || 0) - Number(debtor.sales?.total_cost || 0);
+                  const potentialProfit = Number(debtor.sales?.net_amount || 0) - Number(debtor.sales?.total_cost || 0);
                   
                   return (
                     <TableRow key={debtor.id}>
@@ -224,9 +186,15 @@ const Debtors = () => {
                           <div className="text-xs text-gray-500">{debtor.customers?.phone}</div>
                         </div>
                       </TableCell>
-                      <TableCell className="font-bold">
+                      <TableCell>
                         RWF {Number(debtor.amount_owed).toLocaleString()}
                       </TableCell>
+                      <TableCell className="text-green-600">
+                        RWF {Number(debtor.amount_paid).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="font-bold">
+                        RWF {(Number(debtor.amount_owed) - Number(debtor.amount_paid)).toLocaleString()}
+                      </TableCell>
                       <TableCell className="font-bold text-green-600">
                         RWF {potentialProfit.toLocaleString()}
                       </TableCell>
@@ -250,15 +218,23 @@ const Debtors = () => {
                         </div>
                       </TableCell>
                       <TableCell>
-                        <Button
-                          size="sm"
-                          onClick={() => markAsPaidMutation.mutate(debtor.id)}
-                          disabled={markAsPaidMutation.isPending}
-                          className="bg-green-600 hover:bg-green-700"
-                        >
-                          <CheckCircle className="h-4 w-4 mr-1" />
-                          Mark Paid
-                        </Button>
+                        <div className="flex space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => setPayingDebtor(debtor)}
+                            className="bg-green-600 hover:bg-green-700"
+                          >
+                            <Wallet className="h-4 w-4 mr-1" />
+                            Record Payment
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHistoryDebtor(debtor)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </TableCell>
                     </TableRow>
                   );
@@ -277,6 +253,23 @@ const Debtors = () => {
           )}
         </CardContent>
       </Card>
+
+      <RecordPaymentDialog
+        key={payingDebtor?.id}
+        debtor={payingDebtor}
+        onOpenChange={(open) => !open && setPayingDebtor(null)}
+      />
+
+      <Dialog open={!!historyDebtor} onOpenChange={(open) => !open && setHistoryDebtor(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Payment History{historyDebtor?.customers?.name ? ` - ${historyDebtor.customers.name}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {historyDebtor && <PaymentHistory saleId={historyDebtor.sale_id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,597 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { Plus, Edit, Trash2, X } from "lucide-react";
+
+const Pricing = () => {
+  const [isCategoryOpen, setIsCategoryOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Tables<"category_pricing"> | null>(null);
+  const [categoryForm, setCategoryForm] = useState({
+    category: "",
+    markup_percent: "",
+    min_margin_percent: "",
+  });
+  const [isPriceListOpen, setIsPriceListOpen] = useState(false);
+  const [priceListForm, setPriceListForm] = useState({ name: "", description: "" });
+  const [selectedPriceListId, setSelectedPriceListId] = useState<string | null>(null);
+  const [newItem, setNewItem] = useState({ product_id: "", price: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { data: categoryPricing, isLoading } = useQuery({
+    queryKey: ["category-pricing"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("category_pricing")
+        .select("*")
+        .order("category");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ["products"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*")
+        .eq("is_active", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: priceLists } = useQuery({
+    queryKey: ["price-lists"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_lists")
+        .select("*, customers(id, name)")
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: customers } = useQuery({
+    queryKey: ["customers", "active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("customers")
+        .select("*, price_lists(name)")
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: priceListItems } = useQuery({
+    queryKey: ["price-list-items", selectedPriceListId],
+    enabled: !!selectedPriceListId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("price_list_items")
+        .select("*, products(name, cost, price)")
+        .eq("price_list_id", selectedPriceListId);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: categories } = useCategories();
+  const selectedPriceList = priceLists?.find(list => list.id === selectedPriceListId);
+
+  const saveCategoryMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("category_pricing")
+        .upsert({
+          category: categoryForm.category.trim(),
+          markup_percent: parseFloat(categoryForm.markup_percent) || 0,
+          min_margin_percent: categoryForm.min_margin_percent ? parseFloat(categoryForm.min_margin_percent) : null,
+          updated_at: new Date().toISOString(),
+        });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["category-pricing"] });
+      setIsCategoryOpen(false);
+      toast({
+        title: "✅ Success",
+        description: "Category pricing saved",
+      });
+    },
+    onError,
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (category: string) => {
+      const { error } = await supabase
+        .from("category_pricing")
+        .delete()
+        .eq("category", category);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["category-pricing"] });
+      toast({
+        title: "✅ Success",
+        description: "Category pricing removed",
+      });
+    },
+    onError,
+  });
+
+  const createPriceListMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from("price_lists")
+        .insert({
+          name: priceListForm.name.trim(),
+          description: priceListForm.description || null,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (priceList) => {
+      queryClient.invalidateQueries({ queryKey: ["price-lists"] });
+      setIsPriceListOpen(false);
+      setPriceListForm({ name: "", description: "" });
+      setSelectedPriceListId(priceList.id);
+      toast({
+        title: "✅ Success",
+        description: "Price list created",
+      });
+    },
+    onError,
+  });
+
+  const deletePriceListMutation = useMutation({
+    mutationFn: async (priceListId: string) => {
+      const { error } = await supabase
+        .from("price_lists")
+        .delete()
+        .eq("id", priceListId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["price-lists"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      setSelectedPriceListId(null);
+      toast({
+        title: "✅ Success",
+        description: "Price list deleted",
+      });
+    },
+    onError,
+  });
+
+  const savePriceListItemMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("price_list_items")
+        .upsert(
+          {
+            price_list_id: selectedPriceListId,
+            product_id: newItem.product_id,
+            price: parseFloat(newItem.price) || 0,
+          },
+          { onConflict: "price_list_id,product_id" },
+        );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["price-list-items"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-prices"] });
+      setNewItem({ product_id: "", price: "" });
+    },
+    onError,
+  });
+
+  const deletePriceListItemMutation = useMutation({
+    mutationFn: async (itemId: string) => {
+      const { error } = await supabase
+        .from("price_list_items")
+        .delete()
+        .eq("id", itemId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["price-list-items"] });
+      queryClient.invalidateQueries({ queryKey: ["customer-prices"] });
+    },
+    onError,
+  });
+
+  const assignCustomerMutation = useMutation({
+    mutationFn: async ({ customerId, priceListId }: { customerId: string; priceListId: string | null }) => {
+      const { error } = await supabase
+        .from("customers")
+        .update({ price_list_id: priceListId, updated_at: new Date().toISOString() })
+        .eq("id", customerId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["price-lists"] });
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+    },
+    onError,
+  });
+
+  const openCategoryDialog = (rule: Tables<"category_pricing"> | null) => {
+    setEditingCategory(rule);
+    setCategoryForm({
+      category: rule?.category || "",
+      markup_percent: rule?.markup_percent.toString() || "",
+      min_margin_percent: rule?.min_margin_percent?.toString() ?? "",
+    });
+    setIsCategoryOpen(true);
+  };
+
+  const handleCategorySubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveCategoryMutation.mutate();
+  };
+
+  const handlePriceListSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createPriceListMutation.mutate();
+  };
+
+  const handleItemSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newItem.product_id) {
+      toast({
+        title: "Error",
+        description: "Select a product",
+        variant: "destructive",
+      });
+      return;
+    }
+    savePriceListItemMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="border-b border-gray-200 pb-4">
+        <h1 className="text-3xl font-bold">Pricing</h1>
+        <p className="text-gray-600 mt-2">
+          New sale lines are priced from the customer's price list, then the product's list price,
+          then the category markup, then the default markup in Settings.
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Category Markups</CardTitle>
+          <Button size="sm" onClick={() => openCategoryDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Markup</TableHead>
+                  <TableHead>Min. Margin</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryPricing?.map((rule) => (
+                  <TableRow key={rule.category}>
+                    <TableCell className="font-medium">{rule.category}</TableCell>
+                    <TableCell>{Number(rule.markup_percent)}%</TableCell>
+                    <TableCell>{rule.min_margin_percent !== null ? `${Number(rule.min_margin_percent)}%` : "Default"}</TableCell>
+                    <TableCell>
+                      <div className="flex space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => openCategoryDialog(rule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteCategoryMutation.mutate(rule.category)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {categoryPricing?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-gray-500">
+                      No category rules. Every category uses the default markup.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCategoryOpen} onOpenChange={setIsCategoryOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingCategory ? "Edit Category Rule" : "Add Category Rule"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCategorySubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="category">Category</Label>
+              <Input
+                id="category"
+                list="category-options"
+                value={categoryForm.category}
+                onChange={(e) => setCategoryForm({ ...categoryForm, category: e.target.value })}
+                disabled={!!editingCategory}
+                required
+              />
+              <datalist id="category-options">
+                {categories?.map((category) => (
+                  <option key={category.id} value={category.name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="markup_percent">Markup (%)</Label>
+                <Input
+                  id="markup_percent"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={categoryForm.markup_percent}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, markup_percent: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="category_min_margin">Min. Margin (%)</Label>
+                <Input
+                  id="category_min_margin"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  max="99"
+                  value={categoryForm.min_margin_percent}
+                  onChange={(e) => setCategoryForm({ ...categoryForm, min_margin_percent: e.target.value })}
+                  placeholder="Use default"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsCategoryOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveCategoryMutation.isPending}>
+                Save Rule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Price Lists</CardTitle>
+            <Dialog open={isPriceListOpen} onOpenChange={setIsPriceListOpen}>
+              <DialogTrigger asChild>
+                <Button size="sm">
+                  <Plus className="h-4 w-4 mr-2" />
+                  New List
+                </Button>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>New Price List</DialogTitle>
+                </DialogHeader>
+                <form onSubmit={handlePriceListSubmit} className="space-y-4">
+                  <div>
+                    <Label htmlFor="priceListName">Name</Label>
+                    <Input
+                      id="priceListName"
+                      value={priceListForm.name}
+                      onChange={(e) => setPriceListForm({ ...priceListForm, name: e.target.value })}
+                      placeholder="Wholesale, Schools..."
+                      required
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="priceListDescription">Description (Optional)</Label>
+                    <Textarea
+                      id="priceListDescription"
+                      value={priceListForm.description}
+                      onChange={(e) => setPriceListForm({ ...priceListForm, description: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex justify-end space-x-2">
+                    <Button type="button" variant="outline" onClick={() => setIsPriceListOpen(false)}>
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={createPriceListMutation.isPending}>
+                      Create List
+                    </Button>
+                  </div>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {priceLists?.map((list) => (
+              <button
+                key={list.id}
+                type="button"
+                onClick={() => setSelectedPriceListId(list.id)}
+                className={`w-full text-left p-3 rounded border ${
+                  list.id === selectedPriceListId ? "border-blue-500 bg-blue-50" : "border-gray-200"
+                }`}
+              >
+                <div className="font-medium">{list.name}</div>
+                <div className="text-xs text-gray-500">
+                  {list.customers.length} customer{list.customers.length === 1 ? "" : "s"}
+                </div>
+              </button>
+            ))}
+            {priceLists?.length === 0 && (
+              <p className="text-sm text-gray-500">No price lists yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>{selectedPriceList ? selectedPriceList.name : "Select a price list"}</CardTitle>
+            {selectedPriceList && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => deletePriceListMutation.mutate(selectedPriceList.id)}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete List
+              </Button>
+            )}
+          </CardHeader>
+          {selectedPriceList && (
+            <CardContent className="space-y-6">
+              {selectedPriceList.description && (
+                <p className="text-sm text-gray-600">{selectedPriceList.description}</p>
+              )}
+
+              <form onSubmit={handleItemSubmit} className="flex items-end space-x-2">
+                <div className="flex-1">
+                  <Label>Product</Label>
+                  <Select value={newItem.product_id} onValueChange={(value) => setNewItem({ ...newItem, product_id: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select product" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {products?.map((product) => (
+                        <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="listItemPrice">Price (RWF)</Label>
+                  <Input
+                    id="listItemPrice"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={newItem.price}
+                    onChange={(e) => setNewItem({ ...newItem, price: e.target.value })}
+                    className="w-32"
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={savePriceListItemMutation.isPending}>
+                  Set Price
+                </Button>
+              </form>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Cost</TableHead>
+                    <TableHead>List Price</TableHead>
+                    <TableHead>Customer Price</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {priceListItems?.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>{item.products?.name}</TableCell>
+                      <TableCell>RWF {Number(item.products?.cost || 0).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {Number(item.products?.price) > 0 ? `RWF ${Number(item.products?.price).toLocaleString()}` : "-"}
+                      </TableCell>
+                      <TableCell className="font-medium">RWF {Number(item.price).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deletePriceListItemMutation.mutate(item.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="space-y-2">
+                <Label>Customers on this list</Label>
+                <div className="flex flex-wrap gap-2">
+                  {selectedPriceList.customers.map((customer) => (
+                    <span key={customer.id} className="flex items-center px-2 py-1 rounded bg-blue-100 text-blue-800 text-sm">
+                      {customer.name}
+                      <button
+                        type="button"
+                        className="ml-1"
+                        onClick={() => assignCustomerMutation.mutate({ customerId: customer.id, priceListId: null })}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+                <Select
+                  value=""
+                  onValueChange={(customerId) => assignCustomerMutation.mutate({ customerId, priceListId: selectedPriceList.id })}
+                >
+                  <SelectTrigger className="w-64">
+                    <SelectValue placeholder="Add customer" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customers?.filter(c => c.price_list_id !== selectedPriceList.id).map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.name}{customer.price_lists ? ` (${customer.price_lists.name})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Pricing;
@@ -1,31 +1,71 @@
 import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Edit, Trash2, Package } from "lucide-react";
+import StockHistoryDialog from "@/components/StockHistoryDialog";
+import ReorderListDialog from "@/components/ReorderListDialog";
+import ProductImportDialog from "@/components/ProductImportDialog";
+import ManageCategoriesDialog from "@/components/ManageCategoriesDialog";
+import CategorySelect from "@/components/CategorySelect";
+import { useCategories } from "@/hooks/use-categories";
+import { isLowStock } from "@/lib/stock";
+import { categoryPath } from "@/lib/categories";
+import { exportProducts } from "@/lib/product-import";
+import { VariantOption, variantLabel, variantOptions, variantParentIds } from "@/lib/variants";
+import { Plus, Edit, Trash2, Package, History, AlertTriangle, ClipboardList, Upload, Download, Layers, X, Archive, ArchiveRestore, FolderTree } from "lucide-react";
 import { format } from "date-fns";
 
 const Products = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<any>(null);
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+  const [variantParent, setVariantParent] = useState<Tables<"products"> | null>(null);
+  const [options, setOptions] = useState<VariantOption[]>([]);
+  const [deletingProduct, setDeletingProduct] = useState<Tables<"products"> | null>(null);
   const [formData, setFormData] = useState({
     name: "",
     // description: "",
     cost: "",
+    price: "",
+    min_margin_percent: "",
     stock_quantity: "",
-    category: "",
+    reorder_level: "10",
+    reorder_quantity: "",
+    category_id: "",
     sku: "",
   });
+  const [reorderListOpen, setReorderListOpen] = useState(false);
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [importKey, setImportKey] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
+  const { data: categories } = useCategories();
+
   const { data: products, isLoading } = useQuery({
     queryKey: ["products"],
     queryFn: async () => {
@@ -39,11 +79,65 @@ const Products = () => {
     },
   });
 
+  const showArchived = searchParams.get("archived") === "1";
+  const lowStockOnly = searchParams.get("stock") === "low" && !showArchived;
+
+  const paramsWith = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+    return params;
+  };
+
+  const { data: archivedProducts, isLoading: archivedLoading } = useQuery({
+    queryKey: ["products", "archived"],
+    enabled: showArchived,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*, sale_items(count)")
+        .eq("is_active", false)
+        .order("updated_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const parentIds = variantParentIds(products || []);
+  const sellableProducts = products?.filter(p => !parentIds.has(p.id));
+  const lowStockProducts = sellableProducts?.filter(isLowStock);
+  const listProducts: Tables<"products">[] | undefined = showArchived ? archivedProducts : products;
+  const exportableProducts = lowStockOnly ? lowStockProducts : listProducts;
+  const variantsOf = (parentId: string) => listProducts?.filter(p => p.parent_id === parentId) || [];
+  const timesSold = (productId: string) =>
+    archivedProducts?.find(p => p.id === productId)?.sale_items[0]?.count ?? 0;
+
+  // Variants are listed under their parent, except in the low stock view
+  // where each one stands on its own
+  const productRows = (lowStockOnly
+    ? lowStockProducts
+    : listProducts?.filter(p => !p.parent_id || !listProducts.some(parent => parent.id === p.parent_id))
+  )?.flatMap(product => [
+    { product, nested: false },
+    ...(lowStockOnly ? [] : variantsOf(product.id).map(variant => ({ product: variant, nested: true }))),
+  ]);
+
+  const { data: ledgerDiscrepancies } = useQuery({
+    queryKey: ["stock-ledger-discrepancies"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("stock_ledger_discrepancies");
+      if (error) throw error;
+      return data;
+    },
+  });
+
   const createProductMutation = useMutation({
     mutationFn: async (productData: any) => {
       const { error } = await supabase
         .from("products")
-        .insert({ ...productData, price: 0 }); // Set default price to 0 since we'll set it during sales
+        .insert(productData);
       if (error) throw error;
     },
     onSuccess: () => {
@@ -90,19 +184,45 @@ const Products = () => {
     },
   });
 
-  const deleteProductMutation = useMutation({
-    mutationFn: async (productId: string) => {
+  // Archiving a parent archives its variants; restoring a variant brings
+  // back its parent so it has somewhere to be listed
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ product, isActive }: { product: Tables<"products">; isActive: boolean }) => {
+      const ids = [product.id, ...(isActive && product.parent_id ? [product.parent_id] : [])];
       const { error } = await supabase
         .from("products")
-        .delete()
-        .eq("id", productId);
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .or(`id.in.(${ids.join(",")}),parent_id.eq.${product.id}`);
+      if (error) throw error;
+    },
+    onSuccess: (_, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      toast({
+        title: "✅ Success",
+        description: isActive ? "Product restored" : "Product archived. Its sales and stock history are kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteProductMutation = useMutation({
+    mutationFn: async (productId: string) => {
+      const { error } = await supabase.rpc("delete_product", { p_product_id: productId });
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-ledger-discrepancies"] });
+      setDeletingProduct(null);
       toast({
         title: "✅ Success",
-        description: "Product deleted successfully",
+        description: "Product deleted permanently",
       });
     },
     onError: (error: any) => {
@@ -119,21 +239,65 @@ const Products = () => {
       name: "",
       // description: "",
       cost: "",
+      price: "",
+      min_margin_percent: "",
       stock_quantity: "",
-      category: "",
+      reorder_level: "10",
+      reorder_quantity: "",
+      category_id: "",
       sku: "",
     });
     setEditingProduct(null);
+    setVariantParent(null);
+    setOptions([]);
+  };
+
+  const handleExport = async (fileType: "csv" | "xlsx") => {
+    try {
+      await exportProducts(exportableProducts || [], fileType);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Export failed",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddVariant = (parent: Tables<"products">) => {
+    resetForm();
+    // Start from the parent's pricing and the option names its variants already use
+    const optionNames = variantOptions(variantsOf(parent.id)[0]?.variant_attributes ?? []).map(o => o.name);
+    setVariantParent(parent);
+    setOptions((optionNames.length > 0 ? optionNames : [""]).map(name => ({ name, value: "" })));
+    setFormData({
+      name: "",
+      cost: parent.cost.toString(),
+      price: Number(parent.price) > 0 ? parent.price.toString() : "",
+      min_margin_percent: parent.min_margin_percent?.toString() ?? "",
+      stock_quantity: "",
+      reorder_level: parent.reorder_level.toString(),
+      reorder_quantity: parent.reorder_quantity?.toString() ?? "",
+      category_id: parent.category_id || "",
+      sku: "",
+    });
+    setIsOpen(true);
   };
 
   const handleEdit = (product: any) => {
     setEditingProduct(product);
+    setVariantParent(product.parent_id ? products?.find(p => p.id === product.parent_id) ?? null : null);
+    setOptions(variantOptions(product.variant_attributes));
     setFormData({
       name: product.name,
       // description: product.description || "",
       cost: product.cost.toString(),
+      price: Number(product.price) > 0 ? product.price.toString() : "",
+      min_margin_percent: product.min_margin_percent?.toString() ?? "",
       stock_quantity: product.stock_quantity.toString(),
-      category: product.category || "",
+      reorder_level: product.reorder_level.toString(),
+      reorder_quantity: product.reorder_quantity?.toString() ?? "",
+      category_id: product.category_id || "",
       sku: product.sku || "",
     });
     setIsOpen(true);
@@ -141,14 +305,44 @@ const Products = () => {
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    const variantAttributes = options
+      .filter(option => option.value.trim())
+      .map(option => ({ name: option.name.trim(), value: option.value.trim() }));
+
+    if (variantParent && variantAttributes.length === 0) {
+      toast({
+        title: "Error",
+        description: "Enter at least one option for the variant, such as size or colour",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The database derives a variant's name and category from its parent
+    const variantData = variantParent ? {
+      parent_id: variantParent.id,
+      variant_attributes: variantAttributes,
+      name: `${variantParent.name} - ${variantLabel(variantAttributes)}`,
+      category_id: variantParent.category_id,
+    } : {};
+
     const productData = {
       ...formData,
+      category_id: formData.category_id || null,
       cost: parseFloat(formData.cost),
+      // No list price means the sale dialog falls back to the markup rules
+      price: parseFloat(formData.price) || 0,
+      min_margin_percent: formData.min_margin_percent ? parseFloat(formData.min_margin_percent) : null,
       stock_quantity: parseInt(formData.stock_quantity),
+      reorder_level: parseInt(formData.reorder_level) || 0,
+      reorder_quantity: parseInt(formData.reorder_quantity) || null,
+      ...variantData,
     };
 
     if (editingProduct) {
-      updateProductMutation.mutate({ id: editingProduct.id, ...productData });
+      // Stock on existing products only changes through recorded movements
+      const { stock_quantity, ...details } = productData;
+      updateProductMutation.mutate({ id: editingProduct.id, ...details });
     } else {
       createProductMutation.mutate(productData);
     }
@@ -158,96 +352,242 @@ const Products = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Products</h1>
-        <Dialog open={isOpen} onOpenChange={setIsOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Product
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>
-                {editingProduct ? "Edit Product" : "Add New Product"}
-              </DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="name">Product Name</Label>
-                  <Input
-                    id="name"
-                    value={formData.name}
-                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-                    required
-                  />
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setCategoriesOpen(true)}>
+            <FolderTree className="h-4 w-4 mr-2" />
+            Categories
+          </Button>
+          <Button variant="outline" onClick={() => setReorderListOpen(true)}>
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Reorder List
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setImportKey(importKey + 1);
+              setImportOpen(true);
+            }}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" disabled={!exportableProducts?.length}>
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => handleExport("csv")}>CSV (.csv)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleExport("xlsx")}>Excel (.xlsx)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Product
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>
+                  {variantParent
+                    ? (editingProduct ? "Edit Variant" : "Add Variant")
+                    : (editingProduct ? "Edit Product" : "Add New Product")}
+                </DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {variantParent && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-gray-600">
+                      Variant of <span className="font-medium">{variantParent.name}</span>
+                    </p>
+                    {options.map((option, index) => (
+                      <div key={index} className="flex space-x-2">
+                        <Input
+                          value={option.name}
+                          onChange={(e) => setOptions(options.map((o, i) => i === index ? { ...o, name: e.target.value } : o))}
+                          placeholder="Option, e.g. Storage"
+                        />
+                        <Input
+                          value={option.value}
+                          onChange={(e) => setOptions(options.map((o, i) => i === index ? { ...o, value: e.target.value } : o))}
+                          placeholder="Value, e.g. 256GB"
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setOptions(options.filter((_, i) => i !== index))}
+                          disabled={options.length === 1}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOptions([...options, { name: "", value: "" }])}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Option
+                    </Button>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  {!variantParent && (
+                    <div>
+                      <Label htmlFor="name">Product Name</Label>
+                      <Input
+                        id="name"
+                        value={formData.name}
+                        onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                        required
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="sku">SKU</Label>
+                    <Input
+                      id="sku"
+                      value={formData.sku}
+                      onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+                    />
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="sku">SKU</Label>
-                  <Input
-                    id="sku"
-                    value={formData.sku}
-                    onChange={(e) => setFormData({ ...formData, sku: e.target.value })}
+
+                {/* <div>
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                   />
+                </div> */}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="cost">Cost Price (RWF)</Label>
+                    <Input
+                      id="cost"
+                      type="number"
+                      step="0.01"
+                      value={formData.cost}
+                      onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
+                      required
+                    />
+                    {editingProduct && editingProduct.stock_quantity > 0 && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {parseFloat(formData.cost) !== Number(editingProduct.cost)
+                          ? `Revalues the ${editingProduct.stock_quantity} units on hand at this cost`
+                          : "Average cost of the stock on hand"}
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="stock_quantity">
+                      {editingProduct ? "Stock Quantity" : "Opening Stock"}
+                    </Label>
+                    <Input
+                      id="stock_quantity"
+                      type="number"
+                      min="0"
+                      value={formData.stock_quantity}
+                      onChange={(e) => setFormData({ ...formData, stock_quantity: e.target.value })}
+                      disabled={!!editingProduct}
+                      required
+                    />
+                    {editingProduct && (
+                      <p className="text-xs text-gray-500 mt-1">Use Stock History to adjust with a reason</p>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              {/* <div>
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
-                />
-              </div> */}
-
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="cost">Cost Price (RWF)</Label>
-                  <Input
-                    id="cost"
-                    type="number"
-                    step="0.01"
-                    value={formData.cost}
-                    onChange={(e) => setFormData({ ...formData, cost: e.target.value })}
-                    required
-                  />
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="price">List Price (RWF)</Label>
+                    <Input
+                      id="price"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      placeholder="Use category markup"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="min_margin_percent">Min. Margin (%)</Label>
+                    <Input
+                      id="min_margin_percent"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max="99"
+                      value={formData.min_margin_percent}
+                      onChange={(e) => setFormData({ ...formData, min_margin_percent: e.target.value })}
+                      placeholder="Use category floor"
+                    />
+                  </div>
                 </div>
-                <div>
-                  <Label htmlFor="stock_quantity">Stock Quantity</Label>
-                  <Input
-                    id="stock_quantity"
-                    type="number"
-                    value={formData.stock_quantity}
-                    onChange={(e) => setFormData({ ...formData, stock_quantity: e.target.value })}
-                    required
-                  />
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="reorder_level">Reorder Level</Label>
+                    <Input
+                      id="reorder_level"
+                      type="number"
+                      min="0"
+                      value={formData.reorder_level}
+                      onChange={(e) => setFormData({ ...formData, reorder_level: e.target.value })}
+                      required
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Flag as low stock at or below this quantity</p>
+                  </div>
+                  <div>
+                    <Label htmlFor="reorder_quantity">Reorder Quantity</Label>
+                    <Input
+                      id="reorder_quantity"
+                      type="number"
+                      min="1"
+                      value={formData.reorder_quantity}
+                      onChange={(e) => setFormData({ ...formData, reorder_quantity: e.target.value })}
+                      placeholder="Up to twice the reorder level"
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <div>
-                <Label htmlFor="category">Category</Label>
-                <Input
-                  id="category"
-                  value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-                />
-              </div>
+                {!variantParent && (
+                  <div>
+                    <Label>Category</Label>
+                    <CategorySelect
+                      value={formData.category_id}
+                      onValueChange={(categoryId) => setFormData({ ...formData, category_id: categoryId })}
+                      noneLabel="No category"
+                    />
+                  </div>
+                )}
 
-              <div className="flex justify-end space-x-2">
-                <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
-                  Cancel
-                </Button>
-                <Button
-                  type="submit"
-                  disabled={createProductMutation.isPending || updateProductMutation.isPending}
-                >
-                  {editingProduct ? "Update" : "Create"} Product
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={createProductMutation.isPending || updateProductMutation.isPending}
+                  >
+                    {editingProduct ? "Update" : "Create"} {variantParent ? "Variant" : "Product"}
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -258,9 +598,9 @@ const Products = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {products?.length || 0}
+              {sellableProducts?.length || 0}
             </div>
-            <p className="text-xs text-muted-foreground">Active products</p>
+            <p className="text-xs text-muted-foreground">Active products and variants</p>
           </CardContent>
         </Card>
 
@@ -271,9 +611,9 @@ const Products = () => {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {products?.filter(p => p.stock_quantity < 10).length || 0}
+              {lowStockProducts?.length || 0}
             </div>
-            <p className="text-xs text-muted-foreground">Items below 10 units</p>
+            <p className="text-xs text-muted-foreground">At or below reorder level</p>
           </CardContent>
         </Card>
 
@@ -291,12 +631,47 @@ const Products = () => {
         </Card>
       </div>
 
+      {ledgerDiscrepancies && ledgerDiscrepancies.length > 0 && (
+        <div className="flex items-start space-x-2 rounded border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+          <AlertTriangle className="h-4 w-4 mt-0.5" />
+          <div>
+            <p className="font-medium">Stock does not match the movement ledger</p>
+            {ledgerDiscrepancies.map((item) => (
+              <p key={item.product_id}>
+                {item.name}: {item.stock_quantity} on hand, {item.ledger_quantity} in the ledger
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
       <Card>
         <CardHeader>
-          <CardTitle>Product Inventory</CardTitle>
+          <CardTitle>{showArchived ? "Archived Products" : "Product Inventory"}</CardTitle>
         </CardHeader>
-        <CardContent>
-          {isLoading ? (
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-6">
+            {!showArchived && (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="lowStockOnly"
+                  checked={lowStockOnly}
+                  onCheckedChange={(checked) => setSearchParams(paramsWith({ stock: checked ? "low" : null }))}
+                />
+                <Label htmlFor="lowStockOnly">Low stock only</Label>
+              </div>
+            )}
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="showArchived"
+                checked={showArchived}
+                onCheckedChange={(checked) => setSearchParams(paramsWith({ archived: checked ? "1" : null, stock: null }))}
+              />
+              <Label htmlFor="showArchived">Show archived</Label>
+            </div>
+          </div>
+
+          {isLoading || (showArchived && archivedLoading) ? (
             <div>Loading...</div>
           ) : (
             <Table>
@@ -306,49 +681,149 @@ const Products = () => {
                   <TableHead>SKU</TableHead>
                   <TableHead>Category</TableHead>
                   <TableHead>Cost</TableHead>
+                  <TableHead>List Price</TableHead>
                   <TableHead>Stock</TableHead>
+                  <TableHead>Reorder Level</TableHead>
                   <TableHead>Created</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {products?.map((product) => (
-                  <TableRow key={product.id}>
-                    <TableCell className="font-medium">{product.name}</TableCell>
-                    <TableCell>{product.sku}</TableCell>
-                    <TableCell>{product.category}</TableCell>
-                    <TableCell>RWF {Number(product.cost).toLocaleString()}</TableCell>
-                    <TableCell>
-                      <span className={product.stock_quantity < 10 ? "text-red-600 font-bold" : ""}>
-                        {product.stock_quantity}
-                      </span>
-                    </TableCell>
-                    <TableCell>{format(new Date(product.created_at), "MMM dd, yyyy")}</TableCell>
-                    <TableCell>
-                      <div className="flex space-x-2">
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleEdit(product)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => deleteProductMutation.mutate(product.id)}
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </Button>
-                      </div>
+                {productRows?.map(({ product, nested }) => {
+                  const variants = variantsOf(product.id);
+                  const isParent = variants.length > 0;
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell className="font-medium">
+                        {nested ? (
+                          <span className="pl-6 font-normal text-gray-700">{variantLabel(product.variant_attributes)}</span>
+                        ) : product.name}
+                      </TableCell>
+                      <TableCell>{product.sku}</TableCell>
+                      <TableCell>{nested ? "" : categoryPath(product.category_id, categories || [])}</TableCell>
+                      <TableCell>RWF {Number(product.cost).toLocaleString()}</TableCell>
+                      <TableCell>
+                        {Number(product.price) > 0 ? `RWF ${Number(product.price).toLocaleString()}` : "-"}
+                      </TableCell>
+                      <TableCell>
+                        {isParent ? (
+                          <span className="text-gray-600">
+                            {variants.reduce((sum, variant) => sum + variant.stock_quantity, 0)}
+                            <span className="text-xs"> across {variants.length} variants</span>
+                          </span>
+                        ) : (
+                          <>
+                            <span className={isLowStock(product) ? "text-red-600 font-bold" : ""}>
+                              {product.stock_quantity}
+                            </span>
+                            {isLowStock(product) && (
+                              <Badge variant="destructive" className="ml-2">Low</Badge>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>{isParent ? "-" : product.reorder_level}</TableCell>
+                      <TableCell>{format(new Date(product.created_at), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(product)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {!product.parent_id && !showArchived && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleAddVariant(product)}
+                              title="Add variant"
+                            >
+                              <Layers className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {!isParent && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistoryProductId(product.id)}
+                              title="Stock history"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setActiveMutation.mutate({ product, isActive: !product.is_active })}
+                            title={product.is_active ? "Archive" : "Restore"}
+                          >
+                            {product.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                          </Button>
+                          {showArchived && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDeletingProduct(product)}
+                              disabled={isParent || timesSold(product.id) > 0}
+                              title={timesSold(product.id) > 0
+                                ? "Sold products can only be archived"
+                                : isParent ? "Delete its variants first" : "Delete permanently"}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {productRows?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={9} className="text-center text-gray-500">
+                      {lowStockOnly
+                        ? "No products are low on stock"
+                        : showArchived ? "No archived products" : "No products found"}
                     </TableCell>
                   </TableRow>
-                ))}
+                )}
               </TableBody>
             </Table>
           )}
         </CardContent>
       </Card>
+
+      <StockHistoryDialog
+        key={historyProductId}
+        productId={historyProductId}
+        onOpenChange={(open) => !open && setHistoryProductId(null)}
+      />
+      <ReorderListDialog open={reorderListOpen} onOpenChange={setReorderListOpen} />
+      <ManageCategoriesDialog open={categoriesOpen} onOpenChange={setCategoriesOpen} />
+      <AlertDialog open={!!deletingProduct} onOpenChange={(open) => !open && setDeletingProduct(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deletingProduct?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This product has never been sold. Deleting it removes it and its stock history permanently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (deletingProduct) deleteProductMutation.mutate(deletingProduct.id);
+              }}
+              disabled={deleteProductMutation.isPending}
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <ProductImportDialog key={importKey} open={importOpen} onOpenChange={setImportOpen} />
     </div>
   );
 };
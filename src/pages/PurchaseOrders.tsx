@@ -0,0 +1,503 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import ListPagination from "@/components/ListPagination";
+import ReceivePurchaseOrderDialog from "@/components/ReceivePurchaseOrderDialog";
+import SupplierPaymentDialog from "@/components/SupplierPaymentDialog";
+import { useToast } from "@/hooks/use-toast";
+import { purchaseOrderNumber, purchaseOrderPayable, purchaseOrderStatusLabels } from "@/lib/purchasing";
+import { withoutVariantParents } from "@/lib/variants";
+import { Plus, Trash2, PackageCheck, Banknote, Ban } from "lucide-react";
+import { format } from "date-fns";
+
+const PAGE_SIZE = 25;
+
+interface OrderLine {
+  productId: string;
+  name: string;
+  quantity: number;
+  unitCost: number;
+}
+
+const statusVariants: Record<Enums<"purchase_order_status">, "default" | "secondary" | "destructive" | "outline"> = {
+  ordered: "outline",
+  partially_received: "secondary",
+  received: "default",
+  cancelled: "destructive",
+};
+
+const PurchaseOrders = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<OrderLine[]>([]);
+  const [receivingOrderId, setReceivingOrderId] = useState<string | null>(null);
+  const [payingOrderId, setPayingOrderId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+  const status = searchParams.get("status") as Enums<"purchase_order_status"> | null;
+  const supplierFilter = searchParams.get("supplier");
+
+  const paramsWith = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+    return params;
+  };
+
+  const { data: ordersPage, isLoading } = useQuery({
+    queryKey: ["purchase-orders", { page, status, supplierFilter }],
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      let query = supabase
+        .from("purchase_orders")
+        .select("*, suppliers(name)", { count: "exact" });
+
+      if (status) query = query.eq("status", status);
+      if (supplierFilter) query = query.eq("supplier_id", supplierFilter);
+
+      const { data, error, count } = await query
+        .order("order_date", { ascending: false })
+        .order("created_at", { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { orders: data, count: count || 0 };
+    },
+  });
+
+  const orders = ordersPage?.orders;
+  const pageCount = Math.ceil((ordersPage?.count || 0) / PAGE_SIZE);
+  const payingOrder = orders?.find(order => order.id === payingOrderId) ?? null;
+
+  const { data: suppliers } = useQuery({
+    queryKey: ["suppliers", { showArchived: false }],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("suppliers")
+        .select("*, purchase_orders(status, received_amount, amount_paid)")
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: products } = useQuery({
+    queryKey: ["products"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("products")
+        .select("*")
+        .eq("is_active", true);
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const orderTotal = lines.reduce((sum, line) => sum + line.quantity * line.unitCost, 0);
+
+  const createOrderMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("create_purchase_order", {
+        p_supplier_id: supplierId,
+        p_items: lines.map(line => ({
+          product_id: line.productId,
+          quantity: line.quantity,
+          unit_cost: line.unitCost,
+        })),
+        p_expected_date: expectedDate || null,
+        p_notes: notes || null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      setIsOpen(false);
+      resetForm();
+      toast({
+        title: "✅ Success",
+        description: "Purchase order created",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("purchase_orders")
+        .update({ status: "cancelled", updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      toast({
+        title: "✅ Success",
+        description: "Purchase order cancelled",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setSupplierId("");
+    setExpectedDate("");
+    setNotes("");
+    setLines([]);
+  };
+
+  const addLine = (productId: string) => {
+    const product = products?.find(p => p.id === productId);
+    if (!product || lines.some(line => line.productId === productId)) return;
+    setLines([...lines, { productId, name: product.name, quantity: 1, unitCost: Number(product.cost) }]);
+  };
+
+  const updateLine = (productId: string, changes: Partial<OrderLine>) => {
+    setLines(lines.map(line => line.productId === productId ? { ...line, ...changes } : line));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!supplierId || lines.length === 0) {
+      toast({
+        title: "Error",
+        description: "Choose a supplier and add at least one product",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (lines.some(line => line.quantity <= 0 || line.unitCost < 0)) {
+      toast({
+        title: "Error",
+        description: "Every line needs a quantity of at least 1 and a unit cost of 0 or more",
+        variant: "destructive",
+      });
+      return;
+    }
+    createOrderMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Purchase Orders</h1>
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Purchase Order
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Purchase Order</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label>Supplier</Label>
+                  <Select value={supplierId} onValueChange={setSupplierId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a supplier" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {suppliers?.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="expectedDate">Expected Delivery (Optional)</Label>
+                  <Input
+                    id="expectedDate"
+                    type="date"
+                    value={expectedDate}
+                    onChange={(e) => setExpectedDate(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Add Product</Label>
+                <Select value="" onValueChange={addLine}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a product to order" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {withoutVariantParents(products || [])
+                      .filter(product => !lines.some(line => line.productId === product.id))
+                      .map((product) => (
+                        <SelectItem key={product.id} value={product.id}>
+                          {product.name} (Stock: {product.stock_quantity})
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {lines.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Quantity</TableHead>
+                      <TableHead>Unit Cost</TableHead>
+                      <TableHead>Total</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {lines.map((line) => (
+                      <TableRow key={line.productId}>
+                        <TableCell>{line.name}</TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            value={line.quantity}
+                            onChange={(e) => updateLine(line.productId, { quantity: parseInt(e.target.value) || 0 })}
+                            className="w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={line.unitCost}
+                            onChange={(e) => updateLine(line.productId, { unitCost: parseFloat(e.target.value) || 0 })}
+                            className="w-28"
+                          />
+                        </TableCell>
+                        <TableCell>RWF {(line.quantity * line.unitCost).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setLines(lines.filter(l => l.productId !== line.productId))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow>
+                      <TableCell colSpan={3} className="font-bold">Order Total</TableCell>
+                      <TableCell className="font-bold">RWF {orderTotal.toLocaleString()}</TableCell>
+                      <TableCell></TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+
+              <div>
+                <Label htmlFor="notes">Notes (Optional)</Label>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createOrderMutation.isPending}>
+                  Create Purchase Order
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Purchase Orders</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="w-56">
+              <Label>Status</Label>
+              <Select
+                value={status || "all"}
+                onValueChange={(value) => setSearchParams(paramsWith({ status: value === "all" ? null : value, page: null }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {Object.entries(purchaseOrderStatusLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-56">
+              <Label>Supplier</Label>
+              <Select
+                value={supplierFilter || "all"}
+                onValueChange={(value) => setSearchParams(paramsWith({ supplier: value === "all" ? null : value, page: null }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All suppliers</SelectItem>
+                  {suppliers?.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO #</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Ordered</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Total</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead>Paid</TableHead>
+                  <TableHead>Payable</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders?.map((order) => {
+                  const payable = purchaseOrderPayable(order);
+                  const open = order.status === "ordered" || order.status === "partially_received";
+                  return (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium" title={order.notes || undefined}>
+                        {purchaseOrderNumber(order.id)}
+                      </TableCell>
+                      <TableCell>{order.suppliers?.name}</TableCell>
+                      <TableCell>{format(new Date(order.order_date), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>
+                        {order.expected_date ? format(new Date(order.expected_date), "MMM dd, yyyy") : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[order.status]}>{purchaseOrderStatusLabels[order.status]}</Badge>
+                      </TableCell>
+                      <TableCell>RWF {Number(order.total_amount).toLocaleString()}</TableCell>
+                      <TableCell>RWF {Number(order.received_amount).toLocaleString()}</TableCell>
+                      <TableCell>RWF {Number(order.amount_paid).toLocaleString()}</TableCell>
+                      <TableCell className={payable > 0 ? "font-medium text-red-600" : undefined}>
+                        RWF {payable.toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          {open && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setReceivingOrderId(order.id)}
+                              title="Receive stock"
+                            >
+                              <PackageCheck className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {order.status !== "cancelled" && Number(order.amount_paid) < Number(order.total_amount) && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setPayingOrderId(order.id)}
+                              title="Pay supplier"
+                            >
+                              <Banknote className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {order.status === "ordered" && Number(order.amount_paid) === 0 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => cancelOrderMutation.mutate(order.id)}
+                              title="Cancel order"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {orders?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={10} className="text-center text-gray-500">
+                      No purchase orders found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          <ListPagination
+            page={page}
+            pageCount={pageCount}
+            hrefFor={(target) => `?${paramsWith({ page: target > 1 ? target.toString() : null })}`}
+            onPageChange={(target) => setSearchParams(paramsWith({ page: target > 1 ? target.toString() : null }))}
+          />
+        </CardContent>
+      </Card>
+
+      <ReceivePurchaseOrderDialog
+        key={receivingOrderId}
+        purchaseOrderId={receivingOrderId}
+        onOpenChange={(open) => !open && setReceivingOrderId(null)}
+      />
+      <SupplierPaymentDialog
+        key={payingOrderId}
+        purchaseOrder={payingOrder}
+        onOpenChange={(open) => !open && setPayingOrderId(null)}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrders;
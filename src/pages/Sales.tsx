@@ -1,45 +1,174 @@
 import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import PaymentHistory from "@/components/PaymentHistory";
+import SaleDocumentDialog from "@/components/SaleDocumentDialog";
+import SaleReturnDialog from "@/components/SaleReturnDialog";
+import SaleDetailsDialog from "@/components/SaleDetailsDialog";
+import PosMode from "@/components/PosMode";
+import CustomerPicker from "@/components/CustomerPicker";
+import CreditLimitDialog from "@/components/CreditLimitDialog";
+import VariantPickerButton from "@/components/VariantPickerButton";
+import ListPagination from "@/components/ListPagination";
 import { useToast } from "@/hooks/use-toast";
-import { Plus, Trash2 } from "lucide-react";
-import { format } from "date-fns";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import { useCustomerPrices } from "@/hooks/use-customer-prices";
+import { calculateLineTotal, calculateSaleTotals, type DiscountType } from "@/lib/sale-totals";
+import { checkCreditLimit, createSale, invalidateSaleQueries, saleDiscountAndTax, saleLinePayload, type CreditCheck, type SaleLineInput } from "@/lib/sales";
+import { marginPercent, priceSourceLabels, resolveMinMargin, resolvePrice, type PricingRules } from "@/lib/pricing";
+import { Plus, Edit, Trash2, History, FileText, Undo2, AlertTriangle, ScanBarcode, Search, Eye, Paperclip, ArrowUp, ArrowDown, ArrowUpDown } from "lucide-react";
+import { format, parseISO, startOfDay, endOfDay } from "date-fns";
+
+const PAGE_SIZE = 20;
+const SORTABLE_COLUMNS = ["sale_date", "total_amount", "payment_status"] as const;
+type SortColumn = typeof SORTABLE_COLUMNS[number];
 
 const Sales = () => {
   const [isOpen, setIsOpen] = useState(false);
   const [customerName, setCustomerName] = useState("");
-  const [customerEmail, setCustomerEmail] = useState("");
-  const [customerPhone, setCustomerPhone] = useState("");
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [newCustomer, setNewCustomer] = useState<{ name: string; phone: string; email: string; address: string } | null>(null);
   const [selectedProducts, setSelectedProducts] = useState<any[]>([]);
-  const [paymentStatus, setPaymentStatus] = useState("pending");
+  const [paymentStatus, setPaymentStatus] = useState<Enums<"payment_status">>("pending");
   const [dueDate, setDueDate] = useState("");
-  // const [notes, setNotes] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percent");
+  const [discountValue, setDiscountValue] = useState(0);
+  const [taxRate, setTaxRate] = useState(0);
+  const [taxInclusive, setTaxInclusive] = useState(true);
+  const [notes, setNotes] = useState("");
+  const [creditCheck, setCreditCheck] = useState<CreditCheck | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: sales, isLoading } = useQuery({
-    queryKey: ["sales"],
+  // List filters, sorting, paging and POS mode all live in the URL so a
+  // view can be shared or bookmarked, e.g. /sales?status=overdue&page=2
+  const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+  const search = searchParams.get("q") || "";
+  const statusFilter = searchParams.get("status") || "all";
+  const fromDate = searchParams.get("from") || "";
+  const toDate = searchParams.get("to") || "";
+  const userFilter = searchParams.get("user") || "all";
+  const sortParam = searchParams.get("sort") as SortColumn;
+  const sortColumn: SortColumn = SORTABLE_COLUMNS.includes(sortParam) ? sortParam : "sale_date";
+  const sortAscending = searchParams.get("dir") === "asc";
+  const posOpen = searchParams.get("mode") === "pos";
+  const [searchInput, setSearchInput] = useState(search);
+
+  const paramsWith = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams);
+    Object.entries(changes).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    });
+    return params;
+  };
+
+  // Any change to what is listed starts again from the first page
+  const updateFilters = (changes: Record<string, string | null>) => {
+    setSearchParams(paramsWith({ ...changes, page: null }));
+  };
+
+  const setPosOpen = (open: boolean) => {
+    setSearchParams(paramsWith({ mode: open ? "pos" : null }));
+  };
+
+  const toggleSort = (column: SortColumn) => {
+    const ascending = column === sortColumn ? !sortAscending : false;
+    updateFilters({
+      sort: column === "sale_date" ? null : column,
+      dir: ascending ? "asc" : null,
+    });
+  };
+
+  const sortHeader = (column: SortColumn, label: string) => {
+    const Icon = column !== sortColumn ? ArrowUpDown : sortAscending ? ArrowUp : ArrowDown;
+    return (
+      <button type="button" className="flex items-center" onClick={() => toggleSort(column)}>
+        {label}
+        <Icon className="h-3 w-3 ml-1" />
+      </button>
+    );
+  };
+
+  const { data: settings } = useAppSettings();
+
+  const { data: salesPage, isLoading } = useQuery({
+    queryKey: ["sales", { page, search, statusFilter, fromDate, toDate, userFilter, sortColumn, sortAscending }],
+    placeholderData: keepPreviousData,
     queryFn: async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from("sales")
         .select(`
           *,
           customers(name, email),
-          sale_items(*, products(name))
+          sale_items(*, products(name)),
+          sale_returns(id),
+          sale_attachments(id)
+        `, { count: "exact" });
+
+      // search_text is a computed column covering customer and product names
+      if (search) query = query.ilike("search_text", `%${search}%`);
+      if (statusFilter !== "all") query = query.eq("payment_status", statusFilter as Enums<"payment_status">);
+      if (fromDate) query = query.gte("sale_date", startOfDay(parseISO(fromDate)).toISOString());
+      if (toDate) query = query.lte("sale_date", endOfDay(parseISO(toDate)).toISOString());
+      if (userFilter !== "all") query = query.eq("user_id", userFilter);
+
+      const { data, error, count } = await query
+        .order(sortColumn, { ascending: sortAscending })
+        .order("created_at", { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { sales: data, count: count || 0 };
+    },
+  });
+
+  const sales = salesPage?.sales;
+  const pageCount = Math.ceil((salesPage?.count || 0) / PAGE_SIZE);
+
+  const { data: saleUsers } = useQuery({
+    queryKey: ["sale-users"],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("sale_users");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: saleReturns } = useQuery({
+    queryKey: ["sale-returns"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sale_returns")
+        .select(`
+          *,
+          customers(name),
+          sale_return_items(id, quantity, products(name))
         `)
+        .order("return_date", { ascending: false })
         .order("created_at", { ascending: false });
       if (error) throw error;
       return data;
     },
   });
 
+  const [editingSale, setEditingSale] = useState<NonNullable<typeof sales>[number] | null>(null);
+  const [historySale, setHistorySale] = useState<NonNullable<typeof sales>[number] | null>(null);
+  const [documentSaleId, setDocumentSaleId] = useState<string | null>(null);
+  const [returnSaleId, setReturnSaleId] = useState<string | null>(null);
+  const [detailsSaleId, setDetailsSaleId] = useState<string | null>(null);
+
   const { data: products } = useQuery({
     queryKey: ["products"],
     queryFn: async () => {
@@ -52,97 +181,178 @@ const Sales = () => {
     },
   });
 
-  const createSaleMutation = useMutation({
-    mutationFn: async () => {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
+  const { data: categoryPricing } = useQuery({
+    queryKey: ["category-pricing"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("category_pricing")
+        .select("*");
+      if (error) throw error;
+      return data;
+    },
+  });
 
-      // First, create or find customer
-      let customerId;
-      const { data: existingCustomer } = await supabase
+  const { data: customers } = useQuery({
+    queryKey: ["customers", "active"],
+    queryFn: async () => {
+      const { data, error } = await supabase
         .from("customers")
-        .select("id")
-        .eq("name", customerName)
-        .single();
+        .select("*, price_lists(name)")
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
 
-      if (existingCustomer) {
-        customerId = existingCustomer.id;
-      } else {
-        const { data: newCustomer, error: customerError } = await supabase
-          .from("customers")
-          .insert({
-            name: customerName,
-            email: customerEmail || null,
-            phone: customerPhone || null,
-          })
-          .select("id")
-          .single();
-
-        if (customerError) throw customerError;
-        customerId = newCustomer.id;
-      }
+  const { data: customerBalances } = useQuery({
+    queryKey: ["debtors", "open-balances"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("debtors")
+        .select("customer_id, amount_owed, amount_paid")
+        .eq("is_resolved", false);
+      if (error) throw error;
+      return data.reduce<Record<string, number>>((balances, debtor) => {
+        balances[debtor.customer_id] = (balances[debtor.customer_id] || 0) +
+          Number(debtor.amount_owed) - Number(debtor.amount_paid);
+        return balances;
+      }, {});
+    },
+  });
 
-      const totalAmount = selectedProducts.reduce((sum, item) => sum + (item.sellingPrice * item.quantity), 0);
-      const totalCost = selectedProducts.reduce((sum, item) => sum + (item.cost * item.quantity), 0);
+  const matchedCustomer = customers?.find(c => c.id === customerId);
+  const priceListId = matchedCustomer?.price_list_id;
 
-      const { data: sale, error: saleError } = await supabase
-        .from("sales")
+  const { data: customerPrices } = useCustomerPrices(priceListId);
+
+  const pricingRules: PricingRules = {
+    settings,
+    categories: categoryPricing || [],
+    customerPrices: (priceListId && customerPrices) || {},
+  };
+
+  const lineTotal = (item: { quantity: number; sellingPrice: number; discountType: DiscountType; discountValue: number }) =>
+    calculateLineTotal(item.quantity, item.sellingPrice, { type: item.discountType, value: item.discountValue });
+
+  const subtotal = selectedProducts.reduce((sum, p) => sum + lineTotal(p), 0);
+  const totals = calculateSaleTotals(
+    subtotal,
+    { type: discountType, value: discountValue },
+    { rate: taxRate, inclusive: taxInclusive },
+  );
+  const totalCost = selectedProducts.reduce((sum, p) => sum + p.cost * p.quantity, 0);
+  // Profit is measured on revenue excluding tax, so each line gets its share of the net amount
+  const lineNet = (item: Parameters<typeof lineTotal>[0]) =>
+    subtotal > 0 ? lineTotal(item) / subtotal * totals.netAmount : 0;
+
+  // Margin floors are checked against what the line actually earns after
+  // discounts and tax, not the entered unit price
+  const lineMargin = (item: Parameters<typeof lineTotal>[0] & { cost: number }) =>
+    marginPercent(lineNet(item) / item.quantity, item.cost);
+  const marginWarnings = selectedProducts.filter(p => lineMargin(p) < resolveMinMargin(p, pricingRules));
+
+  const saleLines = (): SaleLineInput[] => selectedProducts.map(item => ({
+    product_id: item.id,
+    quantity: item.quantity,
+    unit_price: item.sellingPrice,
+    discount: { type: item.discountType, value: item.discountValue },
+  }));
+
+  const createSaleMutation = useMutation({
+    mutationFn: (creditOverrideReason?: string) => createSale({
+      customerId,
+      customerName,
+      paymentStatus,
+      dueDate,
+      notes,
+      creditOverrideReason,
+      items: saleLines(),
+      discount: { type: discountType, value: discountValue },
+      tax: { rate: taxRate, inclusive: taxInclusive },
+    }),
+    onSuccess: () => {
+      invalidateSaleQueries(queryClient);
+      setIsOpen(false);
+      resetForm();
+      toast({
+        title: "✅ Success",
+        description: "Sale created successfully and stock updated",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createCustomerMutation = useMutation({
+    mutationFn: async (customer: NonNullable<typeof newCustomer>) => {
+      const { data, error } = await supabase
+        .from("customers")
         .insert({
-          customer_id: customerId,
-          user_id: user.id,
-          total_amount: totalAmount,
-          total_cost: totalCost,
-          payment_status: paymentStatus as any,
-          due_date: dueDate || null,
-          // notes,
+          name: customer.name.trim(),
+          phone: customer.phone.trim() || null,
+          email: customer.email.trim() || null,
+          address: customer.address.trim() || null,
         })
         .select()
         .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (customer) => {
+      queryClient.invalidateQueries({ queryKey: ["customers"] });
+      setCustomerName(customer.name);
+      setCustomerId(customer.id);
+      setNewCustomer(null);
+      toast({
+        title: "✅ Success",
+        description: `${customer.name} added as a customer`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-      if (saleError) throw saleError;
-
-      const saleItems = selectedProducts.map(item => ({
-        sale_id: sale.id,
-        product_id: item.id,
-        quantity: item.quantity,
-        unit_price: item.sellingPrice,
-        unit_cost: item.cost,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("sale_items")
-        .insert(saleItems);
-
-      if (itemsError) throw itemsError;
-
-      // Update product stock quantities
-      for (const product of selectedProducts) {
-        const { error: stockError } = await supabase
-          .from("products")
-          .update({ 
-            stock_quantity: product.stock_quantity - product.quantity,
-            updated_at: new Date().toISOString()
-          })
-          .eq("id", product.id);
-
-        if (stockError) throw stockError;
-      }
+  const updateSaleMutation = useMutation({
+    mutationFn: async (creditOverrideReason?: string) => {
+      // Stock deltas and the debtor balance are reconciled server-side
+      const { data: sale, error } = await supabase.rpc("update_sale", {
+        p_sale_id: editingSale.id,
+        p_customer_id: customerId,
+        p_payment_status: paymentStatus,
+        p_due_date: dueDate || null,
+        p_notes: notes || null,
+        p_credit_override_reason: creditOverrideReason || null,
+        p_items: saleLinePayload(saleLines()),
+        ...saleDiscountAndTax(
+          { type: discountType, value: discountValue },
+          { rate: taxRate, inclusive: taxInclusive },
+        ),
+      });
 
+      if (error) throw error;
       return sale;
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["sales"] });
-      queryClient.invalidateQueries({ queryKey: ["products"] });
-      queryClient.invalidateQueries({ queryKey: ["debtors"] });
-      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      invalidateSaleQueries(queryClient);
       setIsOpen(false);
       resetForm();
       toast({
         title: "✅ Success",
-        description: "Sale created successfully and stock updated",
+        description: "Sale updated, stock and debtor balance reconciled",
       });
     },
-    onError: (error: any) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
         description: error.message,
@@ -153,48 +363,46 @@ const Sales = () => {
 
   const deleteSaleMutation = useMutation({
     mutationFn: async (saleId: string) => {
-      // Get sale items to restore stock
-      const { data: saleItems } = await supabase
-        .from("sale_items")
-        .select("product_id, quantity")
+      const { data: attachments, error: attachmentsError } = await supabase
+        .from("sale_attachments")
+        .select("file_path, user_id")
         .eq("sale_id", saleId);
+      if (attachmentsError) throw attachmentsError;
 
-      // Restore stock quantities
-      if (saleItems) {
-        for (const item of saleItems) {
-          const { data: product } = await supabase
-            .from("products")
-            .select("stock_quantity")
-            .eq("id", item.product_id)
-            .single();
-
-          if (product) {
-            await supabase
-              .from("products")
-              .update({ 
-                stock_quantity: product.stock_quantity + item.quantity,
-                updated_at: new Date().toISOString()
-              })
-              .eq("id", item.product_id);
-          }
+      // Attached files can only be deleted by whoever uploaded them or a
+      // manager, so check before the sale goes rather than leave files behind
+      if (attachments.length > 0) {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { data: isManager, error: roleError } = await supabase.rpc("is_manager");
+        if (roleError) throw roleError;
+        if (!isManager && attachments.some(attachment => attachment.user_id !== user?.id)) {
+          throw new Error("This sale has files attached by someone else. Ask a manager to delete it");
         }
       }
 
-      const { error } = await supabase
-        .from("sales")
-        .delete()
-        .eq("id", saleId);
+      // Stock is put back and recorded in the movement ledger server-side
+      const { error } = await supabase.rpc("delete_sale", { p_sale_id: saleId });
       if (error) throw error;
+
+      // Attachment records go with the sale; their files have to be removed separately
+      if (attachments.length === 0) return { filesLeft: 0 };
+      const { data: removed, error: storageError } = await supabase.storage
+        .from("sale-attachments")
+        .remove(attachments.map(attachment => attachment.file_path));
+      return { filesLeft: storageError ? attachments.length : attachments.length - (removed?.length ?? 0) };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["sales"] });
-      queryClient.invalidateQueries({ queryKey: ["products"] });
-      queryClient.invalidateQueries({ queryKey: ["debtors"] });
-      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
-      toast({
-        title: "✅ Success",
-        description: "Sale deleted and stock restored",
-      });
+    onSuccess: ({ filesLeft }) => {
+      invalidateSaleQueries(queryClient);
+      toast(filesLeft > 0
+        ? {
+          title: "Error",
+          description: `Sale deleted and stock restored, but ${filesLeft} attached file(s) could not be removed from storage`,
+          variant: "destructive",
+        }
+        : {
+          title: "✅ Success",
+          description: "Sale deleted and stock restored",
+        });
     },
     onError: (error: any) => {
       toast({
@@ -207,12 +415,51 @@ const Sales = () => {
 
   const resetForm = () => {
     setCustomerName("");
-    setCustomerEmail("");
-    setCustomerPhone("");
+    setCustomerId(null);
+    setNewCustomer(null);
     setSelectedProducts([]);
     setPaymentStatus("pending");
     setDueDate("");
-    // setNotes("");
+    setDiscountType("percent");
+    setDiscountValue(0);
+    setTaxRate(Number(settings?.tax_rate ?? 0));
+    setTaxInclusive(settings?.prices_include_tax ?? true);
+    setNotes("");
+    setEditingSale(null);
+  };
+
+  const handleEdit = (sale: NonNullable<typeof sales>[number]) => {
+    setEditingSale(sale);
+    setCustomerName(sale.customers?.name || "");
+    setCustomerId(sale.customer_id);
+    setSelectedProducts(sale.sale_items.map((item) => ({
+      ...(products?.find(p => p.id === item.product_id) || {
+        id: item.product_id,
+        name: item.products?.name,
+        stock_quantity: 0,
+      }),
+      cost: Number(item.unit_cost),
+      quantity: item.quantity,
+      sellingPrice: Number(item.unit_price),
+      discountType: item.discount_type || "percent",
+      discountValue: Number(item.discount_value),
+    })));
+    setPaymentStatus(sale.payment_status);
+    setDueDate(sale.due_date ? sale.due_date.slice(0, 10) : "");
+    setNotes(sale.notes || "");
+    setDiscountType(sale.discount_type || "percent");
+    setDiscountValue(Number(sale.discount_value));
+    setTaxRate(Number(sale.tax_rate));
+    setTaxInclusive(sale.tax_inclusive);
+    setIsOpen(true);
+  };
+
+  // Units already held by the sale being edited are available to it again
+  const getAvailableStock = (product: { id: string; stock_quantity: number }) => {
+    const originalQuantity = editingSale?.sale_items
+      .filter(item => item.product_id === product.id)
+      .reduce((sum, item) => sum + item.quantity, 0) || 0;
+    return product.stock_quantity + originalQuantity;
   };
 
   const addProductToSale = (product: any) => {
@@ -222,10 +469,14 @@ const Sales = () => {
       updated[existingIndex].quantity += 1;
       setSelectedProducts(updated);
     } else {
+      const { price, source } = resolvePrice(product, pricingRules);
       setSelectedProducts([...selectedProducts, { 
         ...product, 
         quantity: 1, 
-        sellingPrice: product.cost * 1.5 // Default selling price (50% markup)
+        sellingPrice: price,
+        priceSource: source,
+        discountType: "percent",
+        discountValue: 0,
       }]);
     }
   };
@@ -246,23 +497,37 @@ const Sales = () => {
 
   const updateSellingPrice = (productId: string, sellingPrice: number) => {
     setSelectedProducts(selectedProducts.map(p => 
-      p.id === productId ? { ...p, sellingPrice } : p
+      p.id === productId ? { ...p, sellingPrice, priceSource: undefined } : p
     ));
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const updateLineDiscount = (productId: string, discount: { discountType?: DiscountType; discountValue?: number }) => {
+    setSelectedProducts(selectedProducts.map(p =>
+      p.id === productId ? { ...p, ...discount } : p
+    ));
+  };
+
+  const submitSale = (creditOverrideReason?: string) => {
+    if (editingSale) {
+      updateSaleMutation.mutate(creditOverrideReason);
+    } else {
+      createSaleMutation.mutate(creditOverrideReason);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!customerName || selectedProducts.length === 0) {
+    if (!customerId || selectedProducts.length === 0) {
       toast({
         title: "Error",
-        description: "Please enter customer name and add at least one product",
+        description: "Please choose a customer and add at least one product",
         variant: "destructive",
       });
       return;
     }
 
     // Check if we have enough stock for all products
-    const stockIssues = selectedProducts.filter(p => p.quantity > p.stock_quantity);
+    const stockIssues = selectedProducts.filter(p => p.quantity > getAvailableStock(p));
     if (stockIssues.length > 0) {
       toast({
         title: "Insufficient Stock",
@@ -272,180 +537,488 @@ const Sales = () => {
       return;
     }
 
-    createSaleMutation.mutate();
+    // Sales on credit can't take the customer past their credit limit
+    // unless the seller records why
+    if (paymentStatus !== "paid" && matchedCustomer) {
+      try {
+        const check = await checkCreditLimit(matchedCustomer, totals.totalAmount, editingSale?.id);
+        if (check?.exceeded) {
+          setCreditCheck(check);
+          return;
+        }
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: (error as Error).message,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    submitSale();
   };
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold">Sales</h1>
-        <Dialog open={isOpen} onOpenChange={setIsOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={resetForm}>
-              <Plus className="h-4 w-4 mr-2" />
-              New Sale
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Create New Sale</DialogTitle>
-            </DialogHeader>
-            <form onSubmit={handleSubmit} className="space-y-4">
-              <div className="grid grid-cols-3 gap-4">
-                <div>
-                  <Label htmlFor="customerName">Customer Name</Label>
-                  <Input
-                    id="customerName"
-                    value={customerName}
-                    onChange={(e) => setCustomerName(e.target.value)}
-                    placeholder="Enter customer name"
-                    required
-                  />
+        <div className="flex space-x-2">
+          <Button variant="outline" onClick={() => setPosOpen(true)}>
+            <ScanBarcode className="h-4 w-4 mr-2" />
+            POS Mode
+          </Button>
+          <Dialog open={isOpen} onOpenChange={setIsOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Sale
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>{editingSale ? "Edit Sale" : "Create New Sale"}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Customer</Label>
+                    <CustomerPicker
+                      customers={customers || []}
+                      balances={customerBalances || {}}
+                      selectedId={customerId}
+                      value={customerName}
+                      onSelect={(customer) => {
+                        setCustomerName(customer.name);
+                        setCustomerId(customer.id);
+                        setNewCustomer(null);
+                      }}
+                      onCreate={(name) => setNewCustomer({ name, phone: "", email: "", address: "" })}
+                    />
+                    {matchedCustomer && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        {[
+                          matchedCustomer.phone,
+                          matchedCustomer.price_lists && `Price list: ${matchedCustomer.price_lists.name}`,
+                          customerBalances?.[matchedCustomer.id] && `Owes RWF ${customerBalances[matchedCustomer.id].toLocaleString()}`,
+                        ].filter(Boolean).join(" · ")}
+                      </p>
+                    )}
+                  </div>
                 </div>
-      
-              </div>
 
-              <div className="grid grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="paymentStatus">Payment Status</Label>
-                  <Select value={paymentStatus} onValueChange={setPaymentStatus}>
-                    <SelectTrigger>
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="paid">Paid</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="overdue">Overdue</SelectItem>
-                    </SelectContent>
-                  </Select>
+                {newCustomer && (
+                  <div
+                    className="rounded border p-4 space-y-4"
+                    onKeyDown={(e) => {
+                      // Enter saves the customer rather than submitting the sale
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        if (newCustomer.name.trim()) createCustomerMutation.mutate(newCustomer);
+                      }
+                    }}
+                  >
+                    <p className="text-sm font-medium">New Customer</p>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <Label htmlFor="newCustomerName">Name</Label>
+                        <Input
+                          id="newCustomerName"
+                          value={newCustomer.name}
+                          onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="newCustomerPhone">Phone</Label>
+                        <Input
+                          id="newCustomerPhone"
+                          value={newCustomer.phone}
+                          onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="newCustomerEmail">Email</Label>
+                        <Input
+                          id="newCustomerEmail"
+                          type="email"
+                          value={newCustomer.email}
+                          onChange={(e) => setNewCustomer({ ...newCustomer, email: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="newCustomerAddress">Address</Label>
+                      <Input
+                        id="newCustomerAddress"
+                        value={newCustomer.address}
+                        onChange={(e) => setNewCustomer({ ...newCustomer, address: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <Button type="button" variant="outline" size="sm" onClick={() => setNewCustomer(null)}>
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        onClick={() => createCustomerMutation.mutate(newCustomer)}
+                        disabled={!newCustomer.name.trim() || createCustomerMutation.isPending}
+                      >
+                        {createCustomerMutation.isPending ? "Saving..." : "Save Customer"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="paymentStatus">Payment Status</Label>
+                    <Select value={paymentStatus} onValueChange={(value) => setPaymentStatus(value as Enums<"payment_status">)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="paid">Paid</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="overdue">Overdue</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    {editingSale && editingSale.payment_status !== "paid" && paymentStatus === "paid" && (
+                      <p className="text-xs text-gray-500 mt-1">
+                        The outstanding balance will be recorded as a cash payment today.
+                      </p>
+                    )}
+                  </div>
+                  <div>
+                    <Label htmlFor="dueDate">Due Date (Optional)</Label>
+                    <Input
+                      type="date"
+                      value={dueDate}
+                      onChange={(e) => setDueDate(e.target.value)}
+                    />
+                  </div>
                 </div>
+
                 <div>
-                  <Label htmlFor="dueDate">Due Date (Optional)</Label>
-                  <Input
-                    type="date"
-                    value={dueDate}
-                    onChange={(e) => setDueDate(e.target.value)}
+                  <Label htmlFor="notes">Notes (Optional)</Label>
+                  <Textarea
+                    id="notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Delivery instructions, payment arrangement..."
                   />
                 </div>
-              </div>
 
-              {/* <div>
-                <Label htmlFor="notes">Notes (Optional)</Label>
-                <Input
-                  value={notes}
-                  onChange={(e) => setNotes(e.target.value)}
-                  placeholder="Sale notes..."
-                />
-              </div> */}
-
-              <div>
-                <Label>Add Products</Label>
-                <div className="grid grid-cols-3 gap-2 mt-2">
-                  {products?.map((product) => (
-                    <Button
-                      key={product.id}
-                      type="button" 
-                      variant="outline"
-                      onClick={() => addProductToSale(product)}
-                      className="text-left justify-start"
-                      disabled={product.stock_quantity === 0}
-                    >
-                      <Plus className="h-3 w-3 mr-1" />
-                      {product.name}
-                    </Button>
-                  ))}
+                <div>
+                  <Label>Add Products</Label>
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    {products
+                      ?.filter(product => !product.parent_id || !products.some(p => p.id === product.parent_id))
+                      .map((product) => {
+                        const variants = products.filter(variant => variant.parent_id === product.id);
+                        return variants.length > 0 ? (
+                          <VariantPickerButton
+                            key={product.id}
+                            parent={product}
+                            variants={variants}
+                            getAvailableStock={getAvailableStock}
+                            onAdd={addProductToSale}
+                          />
+                        ) : (
+                          <Button
+                            key={product.id}
+                            type="button" 
+                            variant="outline"
+                            onClick={() => addProductToSale(product)}
+                            className="text-left justify-start"
+                            disabled={getAvailableStock(product) === 0}
+                          >
+                            <Plus className="h-3 w-3 mr-1" />
+                            {product.name}
+                          </Button>
+                        );
+                      })}
+                  </div>
                 </div>
-              </div>
 
-              {selectedProducts.length > 0 && (
-                <div>
-                  <Label>Selected Products</Label>
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        <TableHead>Product</TableHead>
-                        <TableHead>Cost</TableHead>
-                        <TableHead>Selling Price</TableHead>
-                        <TableHead>Quantity</TableHead>
-                        <TableHead>Total</TableHead>
-                        <TableHead>Profit</TableHead>
-                        <TableHead></TableHead>
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {selectedProducts.map((product) => (
-                        <TableRow key={product.id}>
-                          <TableCell>{product.name}</TableCell>
-                          <TableCell>RWF {product.cost}</TableCell>
-                          <TableCell>
+                {selectedProducts.length > 0 && (
+                  <div>
+                    <Label>Selected Products</Label>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead>Cost</TableHead>
+                          <TableHead>Selling Price</TableHead>
+                          <TableHead>Quantity</TableHead>
+                          <TableHead>Discount</TableHead>
+                          <TableHead>Total</TableHead>
+                          <TableHead>Profit</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selectedProducts.map((product) => (
+                          <TableRow key={product.id}>
+                            <TableCell>{product.name}</TableCell>
+                            <TableCell>RWF {product.cost}</TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                value={product.sellingPrice}
+                                onChange={(e) => updateSellingPrice(product.id, parseFloat(e.target.value) || 0)}
+                                className="w-24"
+                              />
+                              {product.priceSource && (
+                                <div className="text-xs text-gray-500 mt-1">{priceSourceLabels[product.priceSource]}</div>
+                              )}
+                              {lineMargin(product) < resolveMinMargin(product, pricingRules) && (
+                                <div className="flex items-center text-xs text-amber-600 mt-1">
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  Margin {lineMargin(product).toFixed(1)}% below {resolveMinMargin(product, pricingRules)}%
+                                </div>
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                type="number"
+                                min="1"
+                                max={getAvailableStock(product)}
+                                value={product.quantity}
+                                onChange={(e) => updateProductQuantity(product.id, parseInt(e.target.value) || 0)}
+                                className="w-20"
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex space-x-1">
+                                <Input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={product.discountValue}
+                                  onChange={(e) => updateLineDiscount(product.id, { discountValue: parseFloat(e.target.value) || 0 })}
+                                  className="w-20"
+                                />
+                                <Select
+                                  value={product.discountType}
+                                  onValueChange={(value) => updateLineDiscount(product.id, { discountType: value as DiscountType })}
+                                >
+                                  <SelectTrigger className="w-20">
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="percent">%</SelectItem>
+                                    <SelectItem value="fixed">RWF</SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
+                            </TableCell>
+                            <TableCell>RWF {lineTotal(product).toLocaleString()}</TableCell>
+                            <TableCell className="text-green-600 font-medium">
+                              RWF {Math.round(lineNet(product) - product.cost * product.quantity).toLocaleString()}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeProductFromSale(product.id)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell colSpan={5} className="font-bold">Subtotal</TableCell>
+                          <TableCell className="font-bold">
+                            RWF {subtotal.toLocaleString()}
+                          </TableCell>
+                          <TableCell className="font-bold text-green-600">
+                            RWF {Math.round(totals.netAmount - totalCost).toLocaleString()}
+                          </TableCell>
+                          <TableCell></TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+
+                    <div className="grid grid-cols-2 gap-6 mt-4">
+                      <div className="space-y-4">
+                        <div>
+                          <Label htmlFor="saleDiscount">Order Discount</Label>
+                          <div className="flex space-x-2">
                             <Input
+                              id="saleDiscount"
                               type="number"
                               step="0.01"
                               min="0"
-                              value={product.sellingPrice}
-                              onChange={(e) => updateSellingPrice(product.id, parseFloat(e.target.value) || 0)}
-                              className="w-24"
+                              value={discountValue}
+                              onChange={(e) => setDiscountValue(parseFloat(e.target.value) || 0)}
                             />
-                          </TableCell>
-                          <TableCell>
+                            <Select value={discountType} onValueChange={(value) => setDiscountType(value as DiscountType)}>
+                              <SelectTrigger className="w-24">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="percent">%</SelectItem>
+                                <SelectItem value="fixed">RWF</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        </div>
+                        <div className="flex items-end space-x-4">
+                          <div>
+                            <Label htmlFor="taxRate">VAT Rate (%)</Label>
                             <Input
+                              id="taxRate"
                               type="number"
-                              min="1"
-                              max={product.stock_quantity}
-                              value={product.quantity}
-                              onChange={(e) => updateProductQuantity(product.id, parseInt(e.target.value) || 0)}
-                              className="w-20"
+                              step="0.01"
+                              min="0"
+                              value={taxRate}
+                              onChange={(e) => setTaxRate(parseFloat(e.target.value) || 0)}
+                              className="w-24"
                             />
-                          </TableCell>
-                          <TableCell>RWF {(product.sellingPrice * product.quantity).toLocaleString()}</TableCell>
-                          <TableCell className="text-green-600 font-medium">
-                            RWF {((product.sellingPrice - product.cost) * product.quantity).toLocaleString()}
-                          </TableCell>
-                          <TableCell>
-                            <Button
-                              type="button"
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => removeProductFromSale(product.id)}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
-                          </TableCell>
-                        </TableRow>
-                      ))}
-                      <TableRow>
-                        <TableCell colSpan={4} className="font-bold">Total</TableCell>
-                        <TableCell className="font-bold">
-                          RWF {selectedProducts.reduce((sum, p) => sum + (p.sellingPrice * p.quantity), 0).toLocaleString()}
-                        </TableCell>
-                        <TableCell className="font-bold text-green-600">
-                          RWF {selectedProducts.reduce((sum, p) => sum + ((p.sellingPrice - p.cost) * p.quantity), 0).toLocaleString()}
-                        </TableCell>
-                        <TableCell></TableCell>
-                      </TableRow>
-                    </TableBody>
-                  </Table>
+                          </div>
+                          <div className="flex items-center space-x-2 pb-2">
+                            <Switch id="taxInclusive" checked={taxInclusive} onCheckedChange={setTaxInclusive} />
+                            <Label htmlFor="taxInclusive">Prices include VAT</Label>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="space-y-1 text-sm">
+                        <div className="flex justify-between">
+                          <span>Subtotal</span>
+                          <span>RWF {totals.subtotal.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Discount</span>
+                          <span>- RWF {totals.discountAmount.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>Net (excl. VAT)</span>
+                          <span>RWF {totals.netAmount.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span>VAT ({taxRate}%{taxInclusive ? ", included" : ""})</span>
+                          <span>RWF {totals.taxAmount.toLocaleString()}</span>
+                        </div>
+                        <div className="flex justify-between font-bold text-base">
+                          <span>Total</span>
+                          <span>RWF {totals.totalAmount.toLocaleString()}</span>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {marginWarnings.length > 0 && (
+                  <div className="flex items-center rounded border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+                    <AlertTriangle className="h-4 w-4 mr-2 shrink-0" />
+                    Below the minimum margin: {marginWarnings.map(p => p.name).join(", ")}. Check the prices before saving.
+                  </div>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createSaleMutation.isPending || updateSaleMutation.isPending}>
+                    {editingSale
+                      ? updateSaleMutation.isPending ? "Updating..." : "Update Sale"
+                      : createSaleMutation.isPending ? "Creating..." : "Create Sale"}
+                  </Button>
                 </div>
-              )}
-
-              <div className="flex justify-end space-x-2">
-                <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={createSaleMutation.isPending}>
-                  {createSaleMutation.isPending ? "Creating..." : "Create Sale"}
-                </Button>
-              </div>
-            </form>
-          </DialogContent>
-        </Dialog>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle>Recent Sales</CardTitle>
+          <CardTitle>Sales</CardTitle>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <form
+              className="flex-1 min-w-64"
+              onSubmit={(e) => {
+                e.preventDefault();
+                updateFilters({ q: searchInput.trim() || null });
+              }}
+            >
+              <Label htmlFor="salesSearch">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-2 top-3 h-4 w-4 text-gray-400" />
+                <Input
+                  id="salesSearch"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  placeholder="Customer or product name, press Enter"
+                  className="pl-8"
+                />
+              </div>
+            </form>
+            <div>
+              <Label>Status</Label>
+              <Select value={statusFilter} onValueChange={(value) => updateFilters({ status: value === "all" ? null : value })}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="paid">Paid</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="overdue">Overdue</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="salesFrom">From</Label>
+              <Input
+                id="salesFrom"
+                type="date"
+                value={fromDate}
+                onChange={(e) => updateFilters({ from: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="salesTo">To</Label>
+              <Input
+                id="salesTo"
+                type="date"
+                value={toDate}
+                onChange={(e) => updateFilters({ to: e.target.value || null })}
+              />
+            </div>
+            <div>
+              <Label>Recorded By</Label>
+              <Select value={userFilter} onValueChange={(value) => updateFilters({ user: value === "all" ? null : value })}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  {saleUsers?.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>{user.full_name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              variant="ghost"
+              onClick={() => {
+                setSearchInput("");
+                updateFilters({ q: null, status: null, from: null, to: null, user: null, sort: null, dir: null });
+              }}
+            >
+              Clear
+            </Button>
+          </div>
+
           {isLoading ? (
             <div>Loading...</div>
           ) : (
@@ -454,17 +1027,38 @@ const Sales = () => {
                 <TableRow>
                   <TableHead>Customer</TableHead>
                   <TableHead>Items</TableHead>
-                  <TableHead>Total Amount</TableHead>
+                  <TableHead>
+                    {sortHeader("total_amount", "Total Amount")}
+                  </TableHead>
                   <TableHead>Profit</TableHead>
-                  <TableHead>Payment Status</TableHead>
-                  <TableHead>Date</TableHead>
+                  <TableHead>
+                    {sortHeader("payment_status", "Payment Status")}
+                  </TableHead>
+                  <TableHead>
+                    {sortHeader("sale_date", "Date")}
+                  </TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {sales?.map((sale) => (
                   <TableRow key={sale.id}>
-                    <TableCell>{sale.customers?.name}</TableCell>
+                    <TableCell>
+                      <div>{sale.customers?.name}</div>
+                      {sale.notes && (
+                        <div className="text-xs text-gray-500 max-w-48 truncate" title={sale.notes}>{sale.notes}</div>
+                      )}
+                      {sale.sale_attachments.length > 0 && (
+                        <button
+                          type="button"
+                          className="flex items-center text-xs text-blue-600 hover:underline"
+                          onClick={() => setDetailsSaleId(sale.id)}
+                        >
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          {sale.sale_attachments.length} file{sale.sale_attachments.length === 1 ? "" : "s"}
+                        </button>
+                      )}
+                    </TableCell>
                     <TableCell>
                       {sale.sale_items?.map((item: any) => (
                         <div key={item.id}>
@@ -474,7 +1068,7 @@ const Sales = () => {
                     </TableCell>
                     <TableCell>RWF {Number(sale.total_amount).toLocaleString()}</TableCell>
                     <TableCell className="text-green-600 font-medium">
-                      RWF {(Number(sale.total_amount) - Number(sale.total_cost)).toLocaleString()}
+                      RWF {(Number(sale.net_amount) - Number(sale.total_cost)).toLocaleString()}
                     </TableCell>
                     <TableCell>
                       <span className={`px-2 py-1 rounded text-xs ${
@@ -487,21 +1081,169 @@ const Sales = () => {
                     </TableCell>
                     <TableCell>{format(new Date(sale.sale_date), "MMM dd, yyyy")}</TableCell>
                     <TableCell>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => deleteSaleMutation.mutate(sale.id)}
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
+                      <div className="flex space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDetailsSaleId(sale.id)}
+                          title="Details, notes and attachments"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDocumentSaleId(sale.id)}
+                          title={sale.payment_status === "paid" ? "Receipt" : "Invoice"}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistorySale(sale)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setReturnSaleId(sale.id)}
+                          title="Return items"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                        </Button>
+                        {/* Sales with returns are kept for history */}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(sale)}
+                          disabled={sale.sale_returns.length > 0}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteSaleMutation.mutate(sale.id)}
+                          disabled={sale.sale_returns.length > 0}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </TableCell>
                   </TableRow>
                 ))}
+                {sales?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500">
+                      No sales match these filters
+                    </TableCell>
+                  </TableRow>
+                )}
               </TableBody>
             </Table>
           )}
+
+          <ListPagination
+            page={page}
+            pageCount={pageCount}
+            hrefFor={(target) => `?${paramsWith({ page: target > 1 ? target.toString() : null })}`}
+            onPageChange={(target) => setSearchParams(paramsWith({ page: target > 1 ? target.toString() : null }))}
+          />
+          {salesPage && (
+            <p className="text-sm text-gray-500 text-center">
+              {salesPage.count} sale{salesPage.count === 1 ? "" : "s"}
+            </p>
+          )}
         </CardContent>
       </Card>
+
+      {saleReturns && saleReturns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Returns & Credit Notes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Items</TableHead>
+                  <TableHead>Return Value</TableHead>
+                  <TableHead>Balance Reduced</TableHead>
+                  <TableHead>Credit Note</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {saleReturns.map((saleReturn) => (
+                  <TableRow key={saleReturn.id}>
+                    <TableCell>{format(new Date(saleReturn.return_date), "MMM dd, yyyy")}</TableCell>
+                    <TableCell>{saleReturn.customers?.name}</TableCell>
+                    <TableCell>
+                      {saleReturn.sale_return_items.map((item) => (
+                        <div key={item.id}>
+                          {item.products?.name} ({item.quantity})
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-red-600 font-medium">
+                      RWF {Number(saleReturn.total_amount).toLocaleString()}
+                    </TableCell>
+                    <TableCell>RWF {Number(saleReturn.debt_reduction).toLocaleString()}</TableCell>
+                    <TableCell className="text-green-600 font-medium">
+                      {Number(saleReturn.credit_amount) > 0
+                        ? `CN-${saleReturn.id.slice(0, 8).toUpperCase()} · RWF ${Number(saleReturn.credit_amount).toLocaleString()}`
+                        : "-"}
+                    </TableCell>
+                    <TableCell>{saleReturn.reason}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!historySale} onOpenChange={(open) => !open && setHistorySale(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>
+              Payment History{historySale?.customers?.name ? ` - ${historySale.customers.name}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {historySale && <PaymentHistory saleId={historySale.id} />}
+        </DialogContent>
+      </Dialog>
+
+      <SaleDocumentDialog
+        saleId={documentSaleId}
+        onOpenChange={(open) => !open && setDocumentSaleId(null)}
+      />
+
+      <SaleDetailsDialog
+        saleId={detailsSaleId}
+        onOpenChange={(open) => !open && setDetailsSaleId(null)}
+      />
+
+      <CreditLimitDialog
+        creditCheck={creditCheck}
+        customerName={customerName}
+        onOpenChange={(open) => !open && setCreditCheck(null)}
+        onOverride={submitSale}
+      />
+
+      <SaleReturnDialog
+        key={returnSaleId}
+        saleId={returnSaleId}
+        onOpenChange={(open) => !open && setReturnSaleId(null)}
+      />
+
+      {posOpen && (
+        <PosMode onClose={() => setPosOpen(false)} onShowReceipt={setDocumentSaleId} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,201 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAppSettings } from "@/hooks/use-app-settings";
+import type { Enums } from "@/integrations/supabase/types";
+import { costingMethodLabels } from "@/lib/stock";
+
+const Settings = () => {
+  const [formData, setFormData] = useState({
+    tax_rate: "",
+    prices_include_tax: true,
+    default_markup_percent: "",
+    min_margin_percent: "",
+    costing_method: "weighted_average" as Enums<"costing_method">,
+  });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useAppSettings();
+
+  useEffect(() => {
+    if (settings) {
+      setFormData({
+        tax_rate: settings.tax_rate.toString(),
+        prices_include_tax: settings.prices_include_tax,
+        default_markup_percent: settings.default_markup_percent.toString(),
+        min_margin_percent: settings.min_margin_percent.toString(),
+        costing_method: settings.costing_method,
+      });
+    }
+  }, [settings]);
+
+  const updateSettingsMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase
+        .from("app_settings")
+        .update({
+          tax_rate: parseFloat(formData.tax_rate) || 0,
+          prices_include_tax: formData.prices_include_tax,
+          default_markup_percent: parseFloat(formData.default_markup_percent) || 0,
+          min_margin_percent: parseFloat(formData.min_margin_percent) || 0,
+          costing_method: formData.costing_method,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", true)
+        .select();
+      if (error) throw error;
+      // RLS silently filters the update for users who are not managers
+      if (!data || data.length === 0) throw new Error("Only managers and admins can change settings");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["app-settings"] });
+      // Switching to weighted average re-averages the cost of stock on hand
+      queryClient.invalidateQueries({ queryKey: ["products"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+      toast({
+        title: "✅ Success",
+        description: "Settings saved",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateSettingsMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="border-b border-gray-200 pb-4">
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-gray-600 mt-2">
+          Shop-wide defaults applied to new sales. Only managers and admins can change them.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div>Loading...</div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Tax</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="max-w-xs">
+                <Label htmlFor="tax_rate">VAT Rate (%)</Label>
+                <Input
+                  id="tax_rate"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.tax_rate}
+                  onChange={(e) => setFormData({ ...formData, tax_rate: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="prices_include_tax"
+                  checked={formData.prices_include_tax}
+                  onCheckedChange={(checked) => setFormData({ ...formData, prices_include_tax: checked })}
+                />
+                <Label htmlFor="prices_include_tax">Selling prices include VAT</Label>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Pricing Defaults</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600 mb-4">
+                Used for products without a list price, category rule or customer price list.
+              </p>
+              <div className="grid grid-cols-2 gap-4 max-w-lg">
+                <div>
+                  <Label htmlFor="default_markup_percent">Default Markup (%)</Label>
+                  <Input
+                    id="default_markup_percent"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.default_markup_percent}
+                    onChange={(e) => setFormData({ ...formData, default_markup_percent: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="min_margin_percent">Minimum Margin (%)</Label>
+                  <Input
+                    id="min_margin_percent"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="99"
+                    value={formData.min_margin_percent}
+                    onChange={(e) => setFormData({ ...formData, min_margin_percent: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Inventory Costing</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600 mb-4">
+                Decides what each sale records as the cost of the units it takes, and how stock on hand is valued.
+                Weighted average costs every unit at the average of what is on hand; FIFO costs units at what the
+                oldest stock on hand was bought for.
+              </p>
+              <div className="max-w-xs">
+                <Label>Costing Method</Label>
+                <Select
+                  value={formData.costing_method}
+                  onValueChange={(value: Enums<"costing_method">) => setFormData({ ...formData, costing_method: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(costingMethodLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={updateSettingsMutation.isPending}>
+              {updateSettingsMutation.isPending ? "Saving..." : "Save Settings"}
+            </Button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import ListPagination from "@/components/ListPagination";
+import StocktakeDialog from "@/components/StocktakeDialog";
+import CategorySelect from "@/components/CategorySelect";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { stocktakeNumber, stocktakeStatusLabels } from "@/lib/stocktake";
+import { Plus, ClipboardCheck, Ban } from "lucide-react";
+import { format } from "date-fns";
+
+const PAGE_SIZE = 25;
+
+const statusVariants: Record<Enums<"stocktake_status">, "default" | "destructive" | "outline"> = {
+  counting: "outline",
+  approved: "default",
+  cancelled: "destructive",
+};
+
+const Stocktakes = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [categoryId, setCategoryId] = useState("");
+  const [notes, setNotes] = useState("");
+  const [openStocktakeId, setOpenStocktakeId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const page = Math.max(parseInt(searchParams.get("page") || "1") || 1, 1);
+
+  const { data: stocktakesPage, isLoading } = useQuery({
+    queryKey: ["stocktakes", { page }],
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      const { data, error, count } = await supabase
+        .from("stocktakes")
+        .select("*, stocktake_items(counted_quantity, expected_quantity, unit_cost)", { count: "exact" })
+        .order("created_at", { ascending: false })
+        .range((page - 1) * PAGE_SIZE, page * PAGE_SIZE - 1);
+      if (error) throw error;
+      return { stocktakes: data, count: count || 0 };
+    },
+  });
+
+  const stocktakes = stocktakesPage?.stocktakes;
+  const pageCount = Math.ceil((stocktakesPage?.count || 0) / PAGE_SIZE);
+  const hasOpenStocktake = stocktakes?.some(stocktake => stocktake.status === "counting");
+
+  const { data: categories } = useCategories();
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("start_stocktake", {
+        p_category: categories?.find(c => c.id === categoryId)?.name ?? null,
+        p_notes: notes || null,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (stocktake) => {
+      queryClient.invalidateQueries({ queryKey: ["stocktakes"] });
+      setIsOpen(false);
+      setOpenStocktakeId(stocktake.id);
+      toast({
+        title: "✅ Success",
+        description: "Stocktake started. Enter the counted quantities as you go.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("stocktakes")
+        .update({ status: "cancelled", updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stocktakes"] });
+      toast({
+        title: "✅ Success",
+        description: "Stocktake cancelled. No stock was adjusted.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setCategoryId("");
+    setNotes("");
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    startMutation.mutate();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Stocktakes</h1>
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm} disabled={hasOpenStocktake}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Stocktake
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Stocktake</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label>Products to Count</Label>
+                <CategorySelect value={categoryId} onValueChange={setCategoryId} noneLabel="All categories" />
+                <p className="text-xs text-gray-500 mt-1">A top-level category includes its sub-categories.</p>
+              </div>
+              <div>
+                <Label htmlFor="notes">Notes (Optional)</Label>
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={startMutation.isPending}>
+                  Start Stocktake
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Stocktakes</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stocktake #</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Counted</TableHead>
+                  <TableHead>Net Variance</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktakes?.map((stocktake) => {
+                  const counted = stocktake.stocktake_items.filter(item => item.counted_quantity !== null);
+                  // Only approved stocktakes have a fixed variance; open ones are shown in the count
+                  const netVariance = counted.reduce((sum, item) =>
+                    sum + ((item.counted_quantity ?? 0) - (item.expected_quantity ?? 0)) * Number(item.unit_cost ?? 0), 0);
+                  return (
+                    <TableRow key={stocktake.id}>
+                      <TableCell className="font-medium" title={stocktake.notes || undefined}>
+                        {stocktakeNumber(stocktake.id)}
+                      </TableCell>
+                      <TableCell>{format(new Date(stocktake.created_at), "MMM dd, yyyy")}</TableCell>
+                      <TableCell>{stocktake.category || "All categories"}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[stocktake.status]}>{stocktakeStatusLabels[stocktake.status]}</Badge>
+                      </TableCell>
+                      <TableCell>{counted.length} of {stocktake.stocktake_items.length}</TableCell>
+                      <TableCell className={netVariance < 0 ? "font-medium text-red-600" : undefined}>
+                        {stocktake.status === "approved" ? `RWF ${netVariance.toLocaleString()}` : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setOpenStocktakeId(stocktake.id)}
+                            title={stocktake.status === "counting" ? "Count" : "Variance report"}
+                          >
+                            <ClipboardCheck className="h-4 w-4" />
+                          </Button>
+                          {stocktake.status === "counting" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => cancelMutation.mutate(stocktake.id)}
+                              title="Cancel stocktake"
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {stocktakes?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500">
+                      No stocktakes yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          <ListPagination
+            page={page}
+            pageCount={pageCount}
+            hrefFor={(target) => `?${new URLSearchParams(target > 1 ? { page: target.toString() } : {})}`}
+            onPageChange={(target) => setSearchParams(target > 1 ? { page: target.toString() } : {})}
+          />
+        </CardContent>
+      </Card>
+
+      <StocktakeDialog
+        key={openStocktakeId}
+        stocktakeId={openStocktakeId}
+        onOpenChange={(open) => !open && setOpenStocktakeId(null)}
+      />
+    </div>
+  );
+};
+
+export default Stocktakes;
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { purchaseOrderPayable } from "@/lib/purchasing";
+import { Plus, Edit, Archive, ArchiveRestore } from "lucide-react";
+
+const Suppliers = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Tables<"suppliers"> | null>(null);
+  const [formData, setFormData] = useState({
+    name: "",
+    contact_name: "",
+    phone: "",
+    email: "",
+    address: "",
+  });
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const showArchived = searchParams.get("archived") === "1";
+
+  const { data: suppliers, isLoading } = useQuery({
+    queryKey: ["suppliers", { showArchived }],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("suppliers")
+        .select("*, purchase_orders(status, received_amount, amount_paid)")
+        .eq("is_active", !showArchived)
+        .order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const supplierPayable = (supplier: NonNullable<typeof suppliers>[number]) =>
+    supplier.purchase_orders
+      .filter(order => order.status !== "cancelled")
+      .reduce((sum, order) => sum + purchaseOrderPayable(order), 0);
+
+  const totalPayable = suppliers?.reduce((sum, supplier) => sum + supplierPayable(supplier), 0) || 0;
+
+  const supplierData = () => ({
+    name: formData.name.trim(),
+    contact_name: formData.contact_name.trim() || null,
+    phone: formData.phone.trim() || null,
+    email: formData.email.trim() || null,
+    address: formData.address.trim() || null,
+  });
+
+  const createSupplierMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("suppliers")
+        .insert(supplierData());
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      setIsOpen(false);
+      resetForm();
+      toast({
+        title: "✅ Success",
+        description: "Supplier created successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateSupplierMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("suppliers")
+        .update({ ...supplierData(), updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      setIsOpen(false);
+      resetForm();
+      toast({
+        title: "✅ Success",
+        description: "Supplier updated successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from("suppliers")
+        .update({ is_active: isActive, updated_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { isActive }) => {
+      queryClient.invalidateQueries({ queryKey: ["suppliers"] });
+      toast({
+        title: "✅ Success",
+        description: isActive ? "Supplier restored" : "Supplier archived. Their purchase orders are kept.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const resetForm = () => {
+    setFormData({
+      name: "",
+      contact_name: "",
+      phone: "",
+      email: "",
+      address: "",
+    });
+    setEditingSupplier(null);
+  };
+
+  const handleEdit = (supplier: Tables<"suppliers">) => {
+    setEditingSupplier(supplier);
+    setFormData({
+      name: supplier.name,
+      contact_name: supplier.contact_name || "",
+      phone: supplier.phone || "",
+      email: supplier.email || "",
+      address: supplier.address || "",
+    });
+    setIsOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editingSupplier) {
+      updateSupplierMutation.mutate(editingSupplier.id);
+    } else {
+      createSupplierMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">Suppliers</h1>
+        <Dialog open={isOpen} onOpenChange={setIsOpen}>
+          <DialogTrigger asChild>
+            <Button onClick={resetForm}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Supplier
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingSupplier ? "Edit Supplier" : "Add New Supplier"}
+              </DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="contactName">Contact Person</Label>
+                  <Input
+                    id="contactName"
+                    value={formData.contact_name}
+                    onChange={(e) => setFormData({ ...formData, contact_name: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="phone">Phone</Label>
+                  <Input
+                    id="phone"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="address">Address</Label>
+                <Textarea
+                  id="address"
+                  value={formData.address}
+                  onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createSupplierMutation.isPending || updateSupplierMutation.isPending}
+                >
+                  {editingSupplier ? "Update" : "Create"} Supplier
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-sm font-medium">Total Payable to Suppliers</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="text-2xl font-bold text-red-600">RWF {totalPayable.toLocaleString()}</div>
+          <p className="text-xs text-gray-500">Goods received but not yet paid for</p>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{showArchived ? "Archived Suppliers" : "Suppliers"}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="showArchived"
+              checked={showArchived}
+              onCheckedChange={(checked) => setSearchParams(checked ? { archived: "1" } : {})}
+            />
+            <Label htmlFor="showArchived">Show archived</Label>
+          </div>
+
+          {isLoading ? (
+            <div>Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Orders</TableHead>
+                  <TableHead>Payable</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suppliers?.map((supplier) => {
+                  const payable = supplierPayable(supplier);
+                  return (
+                    <TableRow key={supplier.id}>
+                      <TableCell className="font-medium">{supplier.name}</TableCell>
+                      <TableCell>{supplier.contact_name}</TableCell>
+                      <TableCell>{supplier.phone}</TableCell>
+                      <TableCell>{supplier.email}</TableCell>
+                      <TableCell>
+                        <Link to={`/purchase-orders?supplier=${supplier.id}`} className="hover:underline">
+                          {supplier.purchase_orders.length}
+                        </Link>
+                      </TableCell>
+                      <TableCell className={payable > 0 ? "font-medium text-red-600" : undefined}>
+                        RWF {payable.toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(supplier)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setActiveMutation.mutate({ id: supplier.id, isActive: !supplier.is_active })}
+                            title={supplier.is_active ? "Archive" : "Restore"}
+                          >
+                            {supplier.is_active ? <Archive className="h-4 w-4" /> : <ArchiveRestore className="h-4 w-4" />}
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {suppliers?.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500">
+                      No suppliers found
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Suppliers;
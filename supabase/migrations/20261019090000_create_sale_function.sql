@@ -0,0 +1,104 @@
+-- Records a sale in a single transaction: resolves the customer, validates
+-- stock, inserts the sale and its items and decrements stock. Any failure
+-- rolls the whole sale back, so no orphan sales or half-updated stock remain.
+create or replace function public.create_sale(
+  p_customer_name text,
+  p_items jsonb,
+  p_payment_status public.payment_status default 'pending',
+  p_due_date date default null,
+  p_customer_email text default null,
+  p_customer_phone text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_customer_id uuid;
+  v_sale public.sales;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  -- Validate every line and compute the totals before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product
+    from products
+    where id = (v_item->>'product_id')::uuid and is_active
+    for update;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    v_total_amount := v_total_amount + v_quantity * v_unit_price;
+    v_total_cost := v_total_cost + v_quantity * v_product.cost;
+  end loop;
+
+  select id into v_customer_id
+  from customers
+  where name = p_customer_name
+  order by created_at
+  limit 1;
+
+  if v_customer_id is null then
+    insert into customers (name, email, phone)
+    values (p_customer_name, nullif(p_customer_email, ''), nullif(p_customer_phone, ''))
+    returning id into v_customer_id;
+  end if;
+
+  insert into sales (customer_id, user_id, total_amount, total_cost, payment_status, due_date)
+  values (v_customer_id, v_user_id, v_total_amount, v_total_cost, p_payment_status, p_due_date)
+  returning * into v_sale;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    -- Guarded decrement: also catches the same product listed twice
+    update products
+    set stock_quantity = stock_quantity - v_quantity,
+        updated_at = now()
+    where id = (v_item->>'product_id')::uuid
+      and stock_quantity >= v_quantity
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = (v_item->>'product_id')::uuid;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    insert into sale_items (sale_id, product_id, quantity, unit_price, unit_cost)
+    values (v_sale.id, v_product.id, v_quantity, (v_item->>'unit_price')::numeric, v_product.cost);
+  end loop;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.create_sale(text, jsonb, public.payment_status, date, text, text) to authenticated;
@@ -0,0 +1,147 @@
+-- Edits an existing sale in a single transaction. Stock is adjusted by the
+-- per-product difference between the new lines and the original sale_items,
+-- and the linked debtor row is brought in line with the new total and status.
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_payment_status public.payment_status,
+  p_due_date date default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_item jsonb;
+  v_change record;
+  v_product public.products;
+  v_old_item_ids uuid[];
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  v_old_item_ids := array(select id from sale_items where sale_id = p_sale_id);
+
+  -- Apply the stock difference per product: positive deltas take stock,
+  -- negative deltas (reduced or removed lines) put it back
+  for v_change in
+    select
+      coalesce(n.product_id, o.product_id) as product_id,
+      coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as delta
+    from (
+      select (e->>'product_id')::uuid as product_id, sum((e->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) n
+    full join (
+      select product_id, sum(quantity) as quantity
+      from sale_items
+      where sale_id = p_sale_id
+      group by product_id
+    ) o on o.product_id = n.product_id
+  loop
+    continue when v_change.delta = 0;
+
+    update products
+    set stock_quantity = stock_quantity - v_change.delta,
+        updated_at = now()
+    where id = v_change.product_id
+      and stock_quantity - v_change.delta >= 0
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = v_change.product_id;
+      if not found then
+        raise exception 'Product % not found', v_change.product_id;
+      end if;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+  end loop;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product from products where id = (v_item->>'product_id')::uuid;
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    -- Lines kept from the original sale keep the cost they were sold at
+    select unit_cost into v_unit_cost
+    from sale_items
+    where id = any(v_old_item_ids) and product_id = v_product.id
+    limit 1;
+
+    if not found then
+      if not v_product.is_active then
+        raise exception 'Product % is no longer active', v_product.name;
+      end if;
+      v_unit_cost := v_product.cost;
+    end if;
+
+    insert into sale_items (sale_id, product_id, quantity, unit_price, unit_cost)
+    values (p_sale_id, v_product.id, v_quantity, v_unit_price, v_unit_cost);
+
+    v_total_amount := v_total_amount + v_quantity * v_unit_price;
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+  end loop;
+
+  delete from sale_items where id = any(v_old_item_ids);
+
+  update sales
+  set total_amount = v_total_amount,
+      total_cost = v_total_cost,
+      payment_status = p_payment_status,
+      due_date = p_due_date,
+      updated_at = now()
+  where id = p_sale_id
+  returning * into v_sale;
+
+  if p_payment_status = 'paid' then
+    update debtors
+    set is_resolved = true,
+        updated_at = now()
+    where sale_id = p_sale_id and not is_resolved;
+  else
+    update debtors
+    set amount_owed = v_total_amount,
+        due_date = coalesce(p_due_date, due_date),
+        is_resolved = false,
+        updated_at = now()
+    where sale_id = p_sale_id;
+
+    if not found then
+      insert into debtors (sale_id, customer_id, amount_owed, due_date)
+      values (p_sale_id, v_sale.customer_id, v_total_amount, coalesce(p_due_date, current_date + 30));
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.update_sale(uuid, jsonb, public.payment_status, date) to authenticated;
@@ -0,0 +1,118 @@
+-- Installment payments against credit sales. debtors.amount_owed stays the
+-- amount originally owed; debtors.amount_paid is the running sum of payments
+-- and the balance is the difference between the two.
+create type public.payment_method as enum ('cash', 'mobile_money', 'bank_transfer', 'card', 'cheque');
+
+alter table public.debtors
+  add column amount_paid numeric not null default 0;
+
+-- Debts settled with the old "Mark Paid" action were paid in full
+update public.debtors set amount_paid = amount_owed where is_resolved;
+
+create table public.payments (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  debtor_id uuid references public.debtors(id) on delete cascade,
+  customer_id uuid not null references public.customers(id),
+  amount numeric not null check (amount > 0),
+  payment_date date not null default current_date,
+  method public.payment_method not null default 'cash',
+  reference text,
+  user_id uuid not null references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index payments_sale_id_idx on public.payments(sale_id);
+create index payments_debtor_id_idx on public.payments(debtor_id);
+
+alter table public.payments enable row level security;
+
+create policy "Authenticated users can view payments"
+  on public.payments for select to authenticated
+  using (true);
+
+create policy "Authenticated users can record payments"
+  on public.payments for insert to authenticated
+  with check (auth.uid() = user_id);
+
+-- Keep is_resolved in step with the balance whenever either amount changes
+create or replace function public.sync_debtor_resolution()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.is_resolved := new.amount_paid >= new.amount_owed;
+  return new;
+end;
+$$;
+
+create trigger debtors_sync_resolution
+  before update of amount_owed, amount_paid on public.debtors
+  for each row execute function public.sync_debtor_resolution();
+
+-- Records one installment against a debtor. When the balance reaches zero the
+-- debt is resolved and the sale is marked as paid.
+create or replace function public.record_payment(
+  p_debtor_id uuid,
+  p_amount numeric,
+  p_method public.payment_method default 'cash',
+  p_payment_date date default current_date,
+  p_reference text default null
+)
+returns public.payments
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_debtor public.debtors;
+  v_payment public.payments;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_debtor from debtors where id = p_debtor_id for update;
+  if not found then
+    raise exception 'Debtor not found';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Payment amount must be greater than zero';
+  end if;
+  if p_amount > v_debtor.amount_owed - v_debtor.amount_paid then
+    raise exception 'Payment exceeds the outstanding balance of %', v_debtor.amount_owed - v_debtor.amount_paid;
+  end if;
+
+  insert into payments (sale_id, debtor_id, customer_id, amount, payment_date, method, reference, user_id)
+  values (
+    v_debtor.sale_id,
+    v_debtor.id,
+    v_debtor.customer_id,
+    p_amount,
+    coalesce(p_payment_date, current_date),
+    coalesce(p_method, 'cash'),
+    nullif(p_reference, ''),
+    v_user_id
+  )
+  returning * into v_payment;
+
+  update debtors
+  set amount_paid = amount_paid + p_amount,
+      updated_at = now()
+  where id = v_debtor.id
+  returning * into v_debtor;
+
+  if v_debtor.is_resolved then
+    update sales
+    set payment_status = 'paid',
+        updated_at = now()
+    where id = v_debtor.sale_id;
+  end if;
+
+  return v_payment;
+end;
+$$;
+
+grant execute on function public.record_payment(uuid, numeric, public.payment_method, date, text) to authenticated;
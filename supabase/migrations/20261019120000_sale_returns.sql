@@ -0,0 +1,190 @@
+-- Returns are kept as their own records instead of deleting the sale. The
+-- sale keeps its original total; analytics subtract returns by return_date.
+-- A return first reduces the open debtor balance of the sale and any value
+-- left over is issued to the customer as a credit note (credit_amount).
+create table public.sale_returns (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete restrict,
+  customer_id uuid not null references public.customers(id),
+  user_id uuid not null references auth.users(id),
+  return_date date not null default current_date,
+  reason text,
+  total_amount numeric not null default 0,
+  total_cost numeric not null default 0,
+  debt_reduction numeric not null default 0,
+  credit_amount numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create table public.sale_return_items (
+  id uuid primary key default gen_random_uuid(),
+  return_id uuid not null references public.sale_returns(id) on delete cascade,
+  sale_item_id uuid not null references public.sale_items(id) on delete restrict,
+  product_id uuid not null references public.products(id),
+  quantity integer not null check (quantity > 0),
+  unit_price numeric not null,
+  unit_cost numeric not null,
+  created_at timestamptz not null default now()
+);
+
+create index sale_returns_sale_id_idx on public.sale_returns(sale_id);
+create index sale_returns_return_date_idx on public.sale_returns(return_date);
+create index sale_return_items_return_id_idx on public.sale_return_items(return_id);
+create index sale_return_items_sale_item_id_idx on public.sale_return_items(sale_item_id);
+
+alter table public.sale_returns enable row level security;
+alter table public.sale_return_items enable row level security;
+
+create policy "Authenticated users can view sale returns"
+  on public.sale_returns for select to authenticated
+  using (true);
+
+create policy "Authenticated users can record sale returns"
+  on public.sale_returns for insert to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Authenticated users can view sale return items"
+  on public.sale_return_items for select to authenticated
+  using (true);
+
+create policy "Authenticated users can record sale return items"
+  on public.sale_return_items for insert to authenticated
+  with check (true);
+
+-- Returned lines must keep their sale_items, so sales with returns can no
+-- longer be edited or deleted
+create or replace function public.prevent_returned_sale_item_delete()
+returns trigger
+language plpgsql
+as $$
+begin
+  if exists (select 1 from sale_return_items where sale_item_id = old.id) then
+    raise exception 'This sale has returns and can no longer be edited or deleted';
+  end if;
+  return old;
+end;
+$$;
+
+create trigger sale_items_prevent_returned_delete
+  before delete on public.sale_items
+  for each row execute function public.prevent_returned_sale_item_delete();
+
+-- Records a return against a sale: restocks the returned quantities, reduces
+-- the debtor balance and issues a credit note for the remainder.
+create or replace function public.create_sale_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text default null,
+  p_return_date date default current_date
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_debtor public.debtors;
+  v_item jsonb;
+  v_sale_item public.sale_items;
+  v_quantity integer;
+  v_returned integer;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_debt_reduction numeric := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- Validate the lines and value the return before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item
+    from sale_items
+    where id = (v_item->>'sale_item_id')::uuid and sale_id = p_sale_id
+    for update;
+
+    if not found then
+      raise exception 'Item % is not part of this sale', v_item->>'sale_item_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid return quantity';
+    end if;
+
+    v_total_amount := v_total_amount + v_quantity * v_sale_item.unit_price;
+    v_total_cost := v_total_cost + v_quantity * v_sale_item.unit_cost;
+  end loop;
+
+  select * into v_debtor
+  from debtors
+  where sale_id = p_sale_id and not is_resolved
+  for update;
+
+  if found then
+    v_debt_reduction := least(v_total_amount, v_debtor.amount_owed - v_debtor.amount_paid);
+
+    update debtors
+    set amount_owed = amount_owed - v_debt_reduction,
+        updated_at = now()
+    where id = v_debtor.id
+    returning * into v_debtor;
+
+    if v_debtor.is_resolved then
+      update sales
+      set payment_status = 'paid',
+          updated_at = now()
+      where id = p_sale_id;
+    end if;
+  end if;
+
+  insert into sale_returns (
+    sale_id, customer_id, user_id, return_date, reason,
+    total_amount, total_cost, debt_reduction, credit_amount
+  )
+  values (
+    p_sale_id, v_sale.customer_id, v_user_id, coalesce(p_return_date, current_date), nullif(p_reason, ''),
+    v_total_amount, v_total_cost, v_debt_reduction, v_total_amount - v_debt_reduction
+  )
+  returning * into v_return;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item from sale_items where id = (v_item->>'sale_item_id')::uuid;
+
+    -- Checked after earlier lines are written so repeated items add up
+    select coalesce(sum(quantity), 0) into v_returned
+    from sale_return_items
+    where sale_item_id = v_sale_item.id;
+
+    if v_returned + v_quantity > v_sale_item.quantity then
+      raise exception 'Cannot return more than the % units sold', v_sale_item.quantity;
+    end if;
+
+    insert into sale_return_items (return_id, sale_item_id, product_id, quantity, unit_price, unit_cost)
+    values (v_return.id, v_sale_item.id, v_sale_item.product_id, v_quantity, v_sale_item.unit_price, v_sale_item.unit_cost);
+
+    update products
+    set stock_quantity = stock_quantity + v_quantity,
+        updated_at = now()
+    where id = v_sale_item.product_id;
+  end loop;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function public.create_sale_return(uuid, jsonb, text, date) to authenticated;
@@ -0,0 +1,606 @@
+-- VAT and discounts. Each line may carry a percent or fixed discount, the
+-- sale may carry an order-level discount on top, and tax is applied to what
+-- remains at the sale's tax rate, either included in or added to the prices.
+--   sales.subtotal        sum of line totals after line discounts
+--   sales.discount_amount order-level discount
+--   sales.net_amount      revenue excluding tax
+--   sales.tax_amount      tax collected
+--   sales.total_amount    amount the customer pays (net + tax)
+create type public.discount_type as enum ('percent', 'fixed');
+
+-- Single-row table holding shop-wide defaults
+create table public.app_settings (
+  id boolean primary key default true check (id),
+  tax_rate numeric not null default 18 check (tax_rate >= 0),
+  prices_include_tax boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.app_settings (id) values (true);
+
+alter table public.app_settings enable row level security;
+
+create policy "Authenticated users can view settings"
+  on public.app_settings for select to authenticated
+  using (true);
+
+create policy "Managers can update settings"
+  on public.app_settings for update to authenticated
+  using (exists (select 1 from public.profiles where id = auth.uid() and role in ('admin', 'manager')));
+
+alter table public.sale_items
+  add column discount_type public.discount_type,
+  add column discount_value numeric not null default 0,
+  add column discount_amount numeric not null default 0,
+  add column line_total numeric not null default 0;
+
+alter table public.sales
+  add column subtotal numeric not null default 0,
+  add column discount_type public.discount_type,
+  add column discount_value numeric not null default 0,
+  add column discount_amount numeric not null default 0,
+  add column tax_rate numeric not null default 0,
+  add column tax_inclusive boolean not null default true,
+  add column tax_amount numeric not null default 0,
+  add column net_amount numeric not null default 0;
+
+alter table public.sale_returns
+  add column tax_amount numeric not null default 0;
+
+alter table public.sale_return_items
+  add column refund_amount numeric not null default 0,
+  add column net_amount numeric not null default 0;
+
+-- Existing records had neither discounts nor tax
+update public.sale_items set line_total = quantity * unit_price;
+update public.sales set subtotal = total_amount, net_amount = total_amount;
+update public.sale_return_items set refund_amount = quantity * unit_price, net_amount = quantity * unit_price;
+
+create or replace function public.calculate_discount(
+  p_base numeric,
+  p_type public.discount_type,
+  p_value numeric
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_type is null or coalesce(p_value, 0) <= 0 then 0
+    when p_type = 'percent' then round(p_base * least(p_value, 100) / 100, 2)
+    else least(p_value, p_base)
+  end
+$$;
+
+create or replace function public.compute_sale_totals(
+  p_subtotal numeric,
+  p_discount_type public.discount_type,
+  p_discount_value numeric,
+  p_tax_rate numeric,
+  p_tax_inclusive boolean,
+  out discount_amount numeric,
+  out tax_amount numeric,
+  out net_amount numeric,
+  out total_amount numeric
+)
+language plpgsql
+immutable
+as $$
+declare
+  v_taxable numeric;
+begin
+  discount_amount := public.calculate_discount(p_subtotal, p_discount_type, p_discount_value);
+  v_taxable := p_subtotal - discount_amount;
+
+  if p_tax_inclusive then
+    total_amount := v_taxable;
+    tax_amount := round(v_taxable * p_tax_rate / (100 + p_tax_rate), 2);
+    net_amount := total_amount - tax_amount;
+  else
+    net_amount := v_taxable;
+    tax_amount := round(v_taxable * p_tax_rate / 100, 2);
+    total_amount := net_amount + tax_amount;
+  end if;
+end;
+$$;
+
+drop function if exists public.create_sale(text, jsonb, public.payment_status, date, text, text);
+
+create or replace function public.create_sale(
+  p_customer_name text,
+  p_items jsonb,
+  p_payment_status public.payment_status default 'pending',
+  p_due_date date default null,
+  p_customer_email text default null,
+  p_customer_phone text default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settings public.app_settings;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_customer_id uuid;
+  v_sale public.sales;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  select * into v_settings from app_settings limit 1;
+  v_tax_rate := coalesce(p_tax_rate, v_settings.tax_rate, 0);
+  v_tax_inclusive := coalesce(p_tax_inclusive, v_settings.prices_include_tax, true);
+
+  -- Validate every line and compute the totals before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product
+    from products
+    where id = (v_item->>'product_id')::uuid and is_active
+    for update;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    v_gross := v_quantity * v_unit_price;
+    v_line_discount := calculate_discount(
+      v_gross,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_product.cost;
+  end loop;
+
+  select * into v_totals
+  from compute_sale_totals(v_subtotal, p_discount_type, p_discount_value, v_tax_rate, v_tax_inclusive);
+
+  select id into v_customer_id
+  from customers
+  where name = p_customer_name
+  order by created_at
+  limit 1;
+
+  if v_customer_id is null then
+    insert into customers (name, email, phone)
+    values (p_customer_name, nullif(p_customer_email, ''), nullif(p_customer_phone, ''))
+    returning id into v_customer_id;
+  end if;
+
+  insert into sales (
+    customer_id, user_id, payment_status, due_date, total_cost,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_rate, tax_inclusive, tax_amount, net_amount, total_amount
+  )
+  values (
+    v_customer_id, v_user_id, p_payment_status, p_due_date, v_total_cost,
+    v_subtotal, p_discount_type, coalesce(p_discount_value, 0), v_totals.discount_amount,
+    v_tax_rate, v_tax_inclusive, v_totals.tax_amount, v_totals.net_amount, v_totals.total_amount
+  )
+  returning * into v_sale;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    -- Guarded decrement: also catches the same product listed twice
+    update products
+    set stock_quantity = stock_quantity - v_quantity,
+        updated_at = now()
+    where id = (v_item->>'product_id')::uuid
+      and stock_quantity >= v_quantity
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = (v_item->>'product_id')::uuid;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      v_sale.id, v_product.id, v_quantity, v_unit_price, v_product.cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+  end loop;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.create_sale(
+  text, jsonb, public.payment_status, date, text, text, public.discount_type, numeric, numeric, boolean
+) to authenticated;
+
+drop function if exists public.update_sale(uuid, jsonb, public.payment_status, date);
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_payment_status public.payment_status,
+  p_due_date date default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_item jsonb;
+  v_change record;
+  v_product public.products;
+  v_old_item_ids uuid[];
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  v_old_item_ids := array(select id from sale_items where sale_id = p_sale_id);
+
+  -- Apply the stock difference per product: positive deltas take stock,
+  -- negative deltas (reduced or removed lines) put it back
+  for v_change in
+    select
+      coalesce(n.product_id, o.product_id) as product_id,
+      coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as delta
+    from (
+      select (e->>'product_id')::uuid as product_id, sum((e->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) n
+    full join (
+      select product_id, sum(quantity) as quantity
+      from sale_items
+      where sale_id = p_sale_id
+      group by product_id
+    ) o on o.product_id = n.product_id
+  loop
+    continue when v_change.delta = 0;
+
+    update products
+    set stock_quantity = stock_quantity - v_change.delta,
+        updated_at = now()
+    where id = v_change.product_id
+      and stock_quantity - v_change.delta >= 0
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = v_change.product_id;
+      if not found then
+        raise exception 'Product % not found', v_change.product_id;
+      end if;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+  end loop;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product from products where id = (v_item->>'product_id')::uuid;
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    -- Lines kept from the original sale keep the cost they were sold at
+    select unit_cost into v_unit_cost
+    from sale_items
+    where id = any(v_old_item_ids) and product_id = v_product.id
+    limit 1;
+
+    if not found then
+      if not v_product.is_active then
+        raise exception 'Product % is no longer active', v_product.name;
+      end if;
+      v_unit_cost := v_product.cost;
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      p_sale_id, v_product.id, v_quantity, v_unit_price, v_unit_cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+
+    v_subtotal := v_subtotal + v_quantity * v_unit_price - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+  end loop;
+
+  delete from sale_items where id = any(v_old_item_ids);
+
+  select * into v_totals
+  from compute_sale_totals(
+    v_subtotal,
+    p_discount_type,
+    p_discount_value,
+    coalesce(p_tax_rate, v_sale.tax_rate),
+    coalesce(p_tax_inclusive, v_sale.tax_inclusive)
+  );
+
+  update sales
+  set total_cost = v_total_cost,
+      subtotal = v_subtotal,
+      discount_type = p_discount_type,
+      discount_value = coalesce(p_discount_value, 0),
+      discount_amount = v_totals.discount_amount,
+      tax_rate = coalesce(p_tax_rate, tax_rate),
+      tax_inclusive = coalesce(p_tax_inclusive, tax_inclusive),
+      tax_amount = v_totals.tax_amount,
+      net_amount = v_totals.net_amount,
+      total_amount = v_totals.total_amount,
+      payment_status = p_payment_status,
+      due_date = p_due_date,
+      updated_at = now()
+  where id = p_sale_id
+  returning * into v_sale;
+
+  if p_payment_status = 'paid' then
+    update debtors
+    set is_resolved = true,
+        updated_at = now()
+    where sale_id = p_sale_id and not is_resolved;
+  else
+    update debtors
+    set amount_owed = v_sale.total_amount,
+        due_date = coalesce(p_due_date, due_date),
+        is_resolved = false,
+        updated_at = now()
+    where sale_id = p_sale_id;
+
+    if not found then
+      insert into debtors (sale_id, customer_id, amount_owed, due_date)
+      values (p_sale_id, v_sale.customer_id, v_sale.total_amount, coalesce(p_due_date, current_date + 30));
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.update_sale(
+  uuid, jsonb, public.payment_status, date, public.discount_type, numeric, numeric, boolean
+) to authenticated;
+
+-- What the customer paid for p_quantity units of a line: its share of the
+-- subtotal applied to the sale total, so order discount and tax carry over
+create or replace function public.sale_item_refund(
+  p_sale public.sales,
+  p_item public.sale_items,
+  p_quantity integer
+)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_sale.subtotal = 0 or p_item.quantity = 0 then 0
+    else round(p_quantity * p_item.line_total / p_item.quantity / p_sale.subtotal * p_sale.total_amount, 2)
+  end
+$$;
+
+create or replace function public.refund_tax(p_sale public.sales, p_refund numeric)
+returns numeric
+language sql
+immutable
+as $$
+  select case
+    when p_sale.total_amount = 0 then 0
+    else round(p_refund * p_sale.tax_amount / p_sale.total_amount, 2)
+  end
+$$;
+
+-- Same as before, but each returned unit is refunded at what the customer
+-- actually paid for it and the tax share is recorded on the return
+create or replace function public.create_sale_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text default null,
+  p_return_date date default current_date
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_debtor public.debtors;
+  v_item jsonb;
+  v_sale_item public.sale_items;
+  v_quantity integer;
+  v_returned integer;
+  v_refund numeric;
+  v_line_tax numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_tax_amount numeric := 0;
+  v_debt_reduction numeric := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- Validate the lines and value the return before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item
+    from sale_items
+    where id = (v_item->>'sale_item_id')::uuid and sale_id = p_sale_id
+    for update;
+
+    if not found then
+      raise exception 'Item % is not part of this sale', v_item->>'sale_item_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid return quantity';
+    end if;
+
+    v_refund := public.sale_item_refund(v_sale, v_sale_item, v_quantity);
+    v_total_amount := v_total_amount + v_refund;
+    v_tax_amount := v_tax_amount + public.refund_tax(v_sale, v_refund);
+    v_total_cost := v_total_cost + v_quantity * v_sale_item.unit_cost;
+  end loop;
+
+  select * into v_debtor
+  from debtors
+  where sale_id = p_sale_id and not is_resolved
+  for update;
+
+  if found then
+    v_debt_reduction := least(v_total_amount, v_debtor.amount_owed - v_debtor.amount_paid);
+
+    update debtors
+    set amount_owed = amount_owed - v_debt_reduction,
+        updated_at = now()
+    where id = v_debtor.id
+    returning * into v_debtor;
+
+    if v_debtor.is_resolved then
+      update sales
+      set payment_status = 'paid',
+          updated_at = now()
+      where id = p_sale_id;
+    end if;
+  end if;
+
+  insert into sale_returns (
+    sale_id, customer_id, user_id, return_date, reason,
+    total_amount, total_cost, tax_amount, debt_reduction, credit_amount
+  )
+  values (
+    p_sale_id, v_sale.customer_id, v_user_id, coalesce(p_return_date, current_date), nullif(p_reason, ''),
+    v_total_amount, v_total_cost, v_tax_amount, v_debt_reduction, v_total_amount - v_debt_reduction
+  )
+  returning * into v_return;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item from sale_items where id = (v_item->>'sale_item_id')::uuid;
+
+    -- Checked after earlier lines are written so repeated items add up
+    select coalesce(sum(quantity), 0) into v_returned
+    from sale_return_items
+    where sale_item_id = v_sale_item.id;
+
+    if v_returned + v_quantity > v_sale_item.quantity then
+      raise exception 'Cannot return more than the % units sold', v_sale_item.quantity;
+    end if;
+
+    v_refund := public.sale_item_refund(v_sale, v_sale_item, v_quantity);
+    v_line_tax := public.refund_tax(v_sale, v_refund);
+
+    insert into sale_return_items (
+      return_id, sale_item_id, product_id, quantity, unit_price, unit_cost, refund_amount, net_amount
+    )
+    values (
+      v_return.id, v_sale_item.id, v_sale_item.product_id, v_quantity,
+      v_sale_item.unit_price, v_sale_item.unit_cost, v_refund, v_refund - v_line_tax
+    );
+
+    update products
+    set stock_quantity = stock_quantity + v_quantity,
+        updated_at = now()
+    where id = v_sale_item.product_id;
+  end loop;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function public.create_sale_return(uuid, jsonb, text, date) to authenticated;
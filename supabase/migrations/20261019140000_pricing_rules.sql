@@ -0,0 +1,84 @@
+-- Pricing rules. The sale dialog pre-fills each line from, in order:
+--   1. the customer's price list, when the customer has one and it lists the product
+--   2. the product's list price (products.price), when set
+--   3. cost plus the category markup, falling back to the default markup
+-- Minimum-margin floors resolve the same way (product, category, default)
+-- and only warn: the salesperson can still sell below them.
+alter table public.app_settings
+  add column default_markup_percent numeric not null default 50 check (default_markup_percent >= 0),
+  add column min_margin_percent numeric not null default 0 check (min_margin_percent >= 0 and min_margin_percent < 100);
+
+alter table public.products
+  add column min_margin_percent numeric check (min_margin_percent >= 0 and min_margin_percent < 100);
+
+create or replace function public.is_manager()
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (select 1 from profiles where id = auth.uid() and role in ('admin', 'manager'))
+$$;
+
+grant execute on function public.is_manager() to authenticated;
+
+create table public.category_pricing (
+  category text primary key,
+  markup_percent numeric not null check (markup_percent >= 0),
+  min_margin_percent numeric check (min_margin_percent >= 0 and min_margin_percent < 100),
+  updated_at timestamptz not null default now()
+);
+
+create table public.price_lists (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  description text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.price_list_items (
+  id uuid primary key default gen_random_uuid(),
+  price_list_id uuid not null references public.price_lists(id) on delete cascade,
+  product_id uuid not null references public.products(id) on delete cascade,
+  price numeric not null check (price >= 0),
+  created_at timestamptz not null default now(),
+  unique (price_list_id, product_id)
+);
+
+alter table public.customers
+  add column price_list_id uuid references public.price_lists(id) on delete set null;
+
+create index price_list_items_product_id_idx on public.price_list_items(product_id);
+create index customers_price_list_id_idx on public.customers(price_list_id);
+
+alter table public.category_pricing enable row level security;
+alter table public.price_lists enable row level security;
+alter table public.price_list_items enable row level security;
+
+create policy "Authenticated users can view category pricing"
+  on public.category_pricing for select to authenticated
+  using (true);
+
+create policy "Managers can manage category pricing"
+  on public.category_pricing for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Authenticated users can view price lists"
+  on public.price_lists for select to authenticated
+  using (true);
+
+create policy "Managers can manage price lists"
+  on public.price_lists for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Authenticated users can view price list items"
+  on public.price_list_items for select to authenticated
+  using (true);
+
+create policy "Managers can manage price list items"
+  on public.price_list_items for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
@@ -0,0 +1,41 @@
+-- Server-side search for the paginated sales list. PostgREST exposes a
+-- function taking a sales row as a computed column, so the client filters
+-- with .ilike("search_text", ...) to match customer or product names.
+create or replace function public.search_text(public.sales)
+returns text
+language sql
+stable
+set search_path = public
+as $$
+  select concat_ws(' ',
+    (select name from customers where id = $1.customer_id),
+    (select string_agg(p.name, ' ')
+     from sale_items si
+     join products p on p.id = si.product_id
+     where si.sale_id = $1.id)
+  )
+$$;
+
+grant execute on function public.search_text(public.sales) to authenticated;
+
+-- Profiles are only readable by their owner, so the "recorded by" filter
+-- gets the names of users who have sales through this function instead
+create or replace function public.sale_users()
+returns table (id uuid, full_name text)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select p.id, p.full_name
+  from profiles p
+  where exists (select 1 from sales s where s.user_id = p.id)
+  order by p.full_name
+$$;
+
+grant execute on function public.sale_users() to authenticated;
+
+create index if not exists sales_sale_date_idx on public.sales(sale_date);
+create index if not exists sales_payment_status_idx on public.sales(payment_status);
+create index if not exists sales_user_id_idx on public.sales(user_id);
+create index if not exists sale_items_sale_id_idx on public.sale_items(sale_id);
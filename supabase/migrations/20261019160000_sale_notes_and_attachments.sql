@@ -0,0 +1,393 @@
+-- Sale notes and file attachments. create_sale and update_sale take the
+-- notes with the rest of the sale; attachments are files in the private
+-- sale-attachments bucket, stored under <sale_id>/ and indexed in
+-- sale_attachments so they can be listed per sale.
+drop function if exists public.create_sale(
+  text, jsonb, public.payment_status, date, text, text, public.discount_type, numeric, numeric, boolean
+);
+
+create or replace function public.create_sale(
+  p_customer_name text,
+  p_items jsonb,
+  p_payment_status public.payment_status default 'pending',
+  p_due_date date default null,
+  p_customer_email text default null,
+  p_customer_phone text default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settings public.app_settings;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_customer_id uuid;
+  v_sale public.sales;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  select * into v_settings from app_settings limit 1;
+  v_tax_rate := coalesce(p_tax_rate, v_settings.tax_rate, 0);
+  v_tax_inclusive := coalesce(p_tax_inclusive, v_settings.prices_include_tax, true);
+
+  -- Validate every line and compute the totals before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product
+    from products
+    where id = (v_item->>'product_id')::uuid and is_active
+    for update;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    v_gross := v_quantity * v_unit_price;
+    v_line_discount := calculate_discount(
+      v_gross,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_product.cost;
+  end loop;
+
+  select * into v_totals
+  from compute_sale_totals(v_subtotal, p_discount_type, p_discount_value, v_tax_rate, v_tax_inclusive);
+
+  select id into v_customer_id
+  from customers
+  where name = p_customer_name
+  order by created_at
+  limit 1;
+
+  if v_customer_id is null then
+    insert into customers (name, email, phone)
+    values (p_customer_name, nullif(p_customer_email, ''), nullif(p_customer_phone, ''))
+    returning id into v_customer_id;
+  end if;
+
+  insert into sales (
+    customer_id, user_id, payment_status, due_date, notes, total_cost,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_rate, tax_inclusive, tax_amount, net_amount, total_amount
+  )
+  values (
+    v_customer_id, v_user_id, p_payment_status, p_due_date, nullif(trim(p_notes), ''), v_total_cost,
+    v_subtotal, p_discount_type, coalesce(p_discount_value, 0), v_totals.discount_amount,
+    v_tax_rate, v_tax_inclusive, v_totals.tax_amount, v_totals.net_amount, v_totals.total_amount
+  )
+  returning * into v_sale;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    -- Guarded decrement: also catches the same product listed twice
+    update products
+    set stock_quantity = stock_quantity - v_quantity,
+        updated_at = now()
+    where id = (v_item->>'product_id')::uuid
+      and stock_quantity >= v_quantity
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = (v_item->>'product_id')::uuid;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      v_sale.id, v_product.id, v_quantity, v_unit_price, v_product.cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+  end loop;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.create_sale(
+  text, jsonb, public.payment_status, date, text, text, public.discount_type, numeric, numeric, boolean, text
+) to authenticated;
+
+drop function if exists public.update_sale(
+  uuid, jsonb, public.payment_status, date, public.discount_type, numeric, numeric, boolean
+);
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_payment_status public.payment_status,
+  p_due_date date default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_item jsonb;
+  v_change record;
+  v_product public.products;
+  v_old_item_ids uuid[];
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  v_old_item_ids := array(select id from sale_items where sale_id = p_sale_id);
+
+  -- Apply the stock difference per product: positive deltas take stock,
+  -- negative deltas (reduced or removed lines) put it back
+  for v_change in
+    select
+      coalesce(n.product_id, o.product_id) as product_id,
+      coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as delta
+    from (
+      select (e->>'product_id')::uuid as product_id, sum((e->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) n
+    full join (
+      select product_id, sum(quantity) as quantity
+      from sale_items
+      where sale_id = p_sale_id
+      group by product_id
+    ) o on o.product_id = n.product_id
+  loop
+    continue when v_change.delta = 0;
+
+    update products
+    set stock_quantity = stock_quantity - v_change.delta,
+        updated_at = now()
+    where id = v_change.product_id
+      and stock_quantity - v_change.delta >= 0
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = v_change.product_id;
+      if not found then
+        raise exception 'Product % not found', v_change.product_id;
+      end if;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+  end loop;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product from products where id = (v_item->>'product_id')::uuid;
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    -- Lines kept from the original sale keep the cost they were sold at
+    select unit_cost into v_unit_cost
+    from sale_items
+    where id = any(v_old_item_ids) and product_id = v_product.id
+    limit 1;
+
+    if not found then
+      if not v_product.is_active then
+        raise exception 'Product % is no longer active', v_product.name;
+      end if;
+      v_unit_cost := v_product.cost;
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      p_sale_id, v_product.id, v_quantity, v_unit_price, v_unit_cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+
+    v_subtotal := v_subtotal + v_quantity * v_unit_price - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+  end loop;
+
+  delete from sale_items where id = any(v_old_item_ids);
+
+  select * into v_totals
+  from compute_sale_totals(
+    v_subtotal,
+    p_discount_type,
+    p_discount_value,
+    coalesce(p_tax_rate, v_sale.tax_rate),
+    coalesce(p_tax_inclusive, v_sale.tax_inclusive)
+  );
+
+  update sales
+  set total_cost = v_total_cost,
+      subtotal = v_subtotal,
+      discount_type = p_discount_type,
+      discount_value = coalesce(p_discount_value, 0),
+      discount_amount = v_totals.discount_amount,
+      tax_rate = coalesce(p_tax_rate, tax_rate),
+      tax_inclusive = coalesce(p_tax_inclusive, tax_inclusive),
+      tax_amount = v_totals.tax_amount,
+      net_amount = v_totals.net_amount,
+      total_amount = v_totals.total_amount,
+      payment_status = p_payment_status,
+      due_date = p_due_date,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_sale_id
+  returning * into v_sale;
+
+  if p_payment_status = 'paid' then
+    update debtors
+    set is_resolved = true,
+        updated_at = now()
+    where sale_id = p_sale_id and not is_resolved;
+  else
+    update debtors
+    set amount_owed = v_sale.total_amount,
+        due_date = coalesce(p_due_date, due_date),
+        is_resolved = false,
+        updated_at = now()
+    where sale_id = p_sale_id;
+
+    if not found then
+      insert into debtors (sale_id, customer_id, amount_owed, due_date)
+      values (p_sale_id, v_sale.customer_id, v_sale.total_amount, coalesce(p_due_date, current_date + 30));
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.update_sale(
+  uuid, jsonb, public.payment_status, date, public.discount_type, numeric, numeric, boolean, text
+) to authenticated;
+
+create table public.sale_attachments (
+  id uuid primary key default gen_random_uuid(),
+  sale_id uuid not null references public.sales(id) on delete cascade,
+  user_id uuid not null references auth.users(id),
+  file_path text not null unique,
+  file_name text not null,
+  content_type text,
+  size_bytes bigint not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index sale_attachments_sale_id_idx on public.sale_attachments(sale_id);
+
+alter table public.sale_attachments enable row level security;
+
+create policy "Authenticated users can view sale attachments"
+  on public.sale_attachments for select to authenticated
+  using (true);
+
+create policy "Authenticated users can add sale attachments"
+  on public.sale_attachments for insert to authenticated
+  with check (auth.uid() = user_id);
+
+create policy "Uploaders and managers can delete sale attachments"
+  on public.sale_attachments for delete to authenticated
+  using (auth.uid() = user_id or public.is_manager());
+
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('sale-attachments', 'sale-attachments', false, 10485760)
+on conflict (id) do nothing;
+
+create policy "Authenticated users can read sale attachment files"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'sale-attachments');
+
+create policy "Authenticated users can upload sale attachment files"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'sale-attachments');
+
+create policy "Uploaders and managers can delete sale attachment files"
+  on storage.objects for delete to authenticated
+  using (bucket_id = 'sale-attachments' and (owner = auth.uid() or public.is_manager()));
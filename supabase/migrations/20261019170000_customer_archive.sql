@@ -0,0 +1,7 @@
+-- Customers are archived rather than deleted so their sales and debts keep
+-- pointing at them. Archived customers are hidden from pickers and lists by
+-- default but stay searchable on the Customers page.
+alter table public.customers
+  add column is_active boolean not null default true;
+
+create index customers_name_idx on public.customers(name);
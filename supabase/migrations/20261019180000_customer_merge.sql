@@ -0,0 +1,102 @@
+-- Duplicate customer detection and merging. Candidates are pairs of active
+-- customers with similar names (trigram similarity), the same phone number
+-- (compared on its last nine digits, so +250 and 0 prefixes match) or the
+-- same email address.
+create extension if not exists pg_trgm with schema extensions;
+
+create index if not exists customers_name_trgm_idx on public.customers using gin (name extensions.gin_trgm_ops);
+
+create or replace function public.normalize_phone(p_phone text)
+returns text
+language sql
+immutable
+as $$
+  select nullif(right(regexp_replace(coalesce(p_phone, ''), '\D', '', 'g'), 9), '')
+$$;
+
+create or replace function public.find_duplicate_customers(p_min_similarity numeric default 0.6)
+returns table (
+  customer_id uuid,
+  duplicate_id uuid,
+  reason text,
+  similarity numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    a.id,
+    b.id,
+    case
+      when public.normalize_phone(a.phone) = public.normalize_phone(b.phone) then 'Same phone'
+      when lower(trim(a.email)) = lower(trim(b.email)) then 'Same email'
+      else 'Similar name'
+    end,
+    round(extensions.similarity(lower(a.name), lower(b.name))::numeric, 2)
+  from customers a
+  join customers b on a.id < b.id
+  where a.is_active
+    and b.is_active
+    and (
+      extensions.similarity(lower(a.name), lower(b.name)) >= p_min_similarity
+      or public.normalize_phone(a.phone) = public.normalize_phone(b.phone)
+      or lower(trim(a.email)) = lower(trim(b.email))
+    )
+  order by 4 desc, a.name
+$$;
+
+grant execute on function public.find_duplicate_customers(numeric) to authenticated;
+
+-- Moves everything recorded against the duplicate to the surviving customer,
+-- fills in contact details the survivor is missing and deletes the duplicate.
+create or replace function public.merge_customers(p_survivor_id uuid, p_duplicate_id uuid)
+returns public.customers
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_survivor public.customers;
+  v_duplicate public.customers;
+begin
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can merge customers';
+  end if;
+
+  if p_survivor_id = p_duplicate_id then
+    raise exception 'Choose two different customers to merge';
+  end if;
+
+  select * into v_survivor from customers where id = p_survivor_id for update;
+  if not found then
+    raise exception 'Customer to keep not found';
+  end if;
+
+  select * into v_duplicate from customers where id = p_duplicate_id for update;
+  if not found then
+    raise exception 'Duplicate customer not found';
+  end if;
+
+  update sales set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update debtors set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update payments set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update sale_returns set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+
+  delete from customers where id = p_duplicate_id;
+
+  update customers
+  set email = coalesce(email, v_duplicate.email),
+      phone = coalesce(phone, v_duplicate.phone),
+      address = coalesce(address, v_duplicate.address),
+      price_list_id = coalesce(price_list_id, v_duplicate.price_list_id),
+      updated_at = now()
+  where id = p_survivor_id
+  returning * into v_survivor;
+
+  return v_survivor;
+end;
+$$;
+
+grant execute on function public.merge_customers(uuid, uuid) to authenticated;
@@ -0,0 +1,691 @@
+-- Stock movement ledger. Every change to products.stock_quantity is written
+-- to stock_movements by a trigger, together with why it happened. Functions
+-- that change stock declare the movement type (and the sale or purchase
+-- order it belongs to) with set_stock_movement_context first; an update
+-- without a context is rejected, so stock can no longer be edited directly.
+-- New products are the exception: their initial quantity is recorded as
+-- opening stock.
+create type public.stock_movement_type as enum ('sale', 'return', 'purchase', 'adjustment', 'stocktake');
+
+create table public.stock_movements (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  movement_type public.stock_movement_type not null,
+  quantity_change integer not null check (quantity_change <> 0),
+  quantity_after integer not null,
+  -- The sale for sales and returns, the purchase order for receipts
+  reference_id uuid,
+  reason text,
+  user_id uuid references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index stock_movements_product_id_idx on public.stock_movements(product_id, created_at);
+create index stock_movements_reference_id_idx on public.stock_movements(reference_id);
+
+alter table public.stock_movements enable row level security;
+
+-- Rows are only ever written by the trigger below
+create policy "Authenticated users can view stock movements"
+  on public.stock_movements for select to authenticated
+  using (true);
+
+create or replace function public.set_stock_movement_context(
+  p_type public.stock_movement_type,
+  p_reference_id uuid default null,
+  p_reason text default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform set_config('app.stock_movement_type', p_type::text, true);
+  perform set_config('app.stock_movement_reference', coalesce(p_reference_id::text, ''), true);
+  perform set_config('app.stock_movement_reason', coalesce(trim(p_reason), ''), true);
+end;
+$$;
+
+create or replace function public.log_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_change integer := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  v_type text := nullif(current_setting('app.stock_movement_type', true), '');
+  v_reason text := nullif(current_setting('app.stock_movement_reason', true), '');
+begin
+  if v_change = 0 then
+    return new;
+  end if;
+
+  if v_type is null then
+    if tg_op <> 'INSERT' then
+      raise exception 'Stock for % can only change through a sale, return, purchase receipt, adjustment or stocktake', new.name;
+    end if;
+    v_type := 'adjustment';
+    v_reason := 'Opening stock';
+  end if;
+
+  insert into stock_movements (
+    product_id, movement_type, quantity_change, quantity_after, reference_id, reason, user_id
+  )
+  values (
+    new.id,
+    v_type::public.stock_movement_type,
+    v_change,
+    new.stock_quantity,
+    nullif(current_setting('app.stock_movement_reference', true), '')::uuid,
+    v_reason,
+    auth.uid()
+  );
+
+  return new;
+end;
+$$;
+
+create trigger products_log_stock_movement
+  after insert or update of stock_quantity on public.products
+  for each row execute function public.log_stock_movement();
+
+-- Existing stock becomes the opening balance of the ledger
+insert into public.stock_movements (product_id, movement_type, quantity_change, quantity_after, reason)
+select id, 'adjustment', stock_quantity, stock_quantity, 'Opening balance'
+from public.products
+where stock_quantity <> 0;
+
+create or replace function public.adjust_stock(
+  p_product_id uuid,
+  p_quantity_change integer,
+  p_reason text
+)
+returns public.products
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for stock adjustments';
+  end if;
+
+  if p_quantity_change is null or p_quantity_change = 0 then
+    raise exception 'Enter the number of units to add or remove';
+  end if;
+
+  perform set_stock_movement_context('adjustment', null, p_reason);
+
+  update products
+  set stock_quantity = stock_quantity + p_quantity_change,
+      updated_at = now()
+  where id = p_product_id
+    and stock_quantity + p_quantity_change >= 0
+  returning * into v_product;
+
+  if not found then
+    select * into v_product from products where id = p_product_id;
+    if not found then
+      raise exception 'Product not found';
+    end if;
+    raise exception 'Only % of % in stock', v_product.stock_quantity, v_product.name;
+  end if;
+
+  return v_product;
+end;
+$$;
+
+grant execute on function public.adjust_stock(uuid, integer, text) to authenticated;
+
+-- Deleting a sale puts its items back on the shelf
+create or replace function public.delete_sale(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform 1 from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  perform set_stock_movement_context('sale', p_sale_id, 'Sale deleted');
+
+  for v_item in
+    select product_id, sum(quantity) as quantity
+    from sale_items
+    where sale_id = p_sale_id
+    group by product_id
+  loop
+    update products
+    set stock_quantity = stock_quantity + v_item.quantity,
+        updated_at = now()
+    where id = v_item.product_id;
+  end loop;
+
+  delete from sales where id = p_sale_id;
+end;
+$$;
+
+grant execute on function public.delete_sale(uuid) to authenticated;
+
+-- Products whose on-hand quantity no longer matches the sum of their ledger
+create or replace function public.stock_ledger_discrepancies()
+returns table (
+  product_id uuid,
+  name text,
+  stock_quantity integer,
+  ledger_quantity integer
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select p.id, p.name, p.stock_quantity, coalesce(sum(m.quantity_change), 0)::integer
+  from products p
+  left join stock_movements m on m.product_id = p.id
+  group by p.id
+  having p.stock_quantity <> coalesce(sum(m.quantity_change), 0)
+  order by p.name
+$$;
+
+grant execute on function public.stock_ledger_discrepancies() to authenticated;
+
+-- create_sale, update_sale and create_sale_return are unchanged apart from
+-- declaring their stock movements
+
+create or replace function public.create_sale(
+  p_customer_name text,
+  p_items jsonb,
+  p_payment_status public.payment_status default 'pending',
+  p_due_date date default null,
+  p_customer_email text default null,
+  p_customer_phone text default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null,
+  p_credit_override_reason text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settings public.app_settings;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_customer_id uuid;
+  v_sale public.sales;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  select * into v_settings from app_settings limit 1;
+  v_tax_rate := coalesce(p_tax_rate, v_settings.tax_rate, 0);
+  v_tax_inclusive := coalesce(p_tax_inclusive, v_settings.prices_include_tax, true);
+
+  -- Validate every line and compute the totals before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product
+    from products
+    where id = (v_item->>'product_id')::uuid and is_active
+    for update;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    v_gross := v_quantity * v_unit_price;
+    v_line_discount := calculate_discount(
+      v_gross,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_product.cost;
+  end loop;
+
+  select * into v_totals
+  from compute_sale_totals(v_subtotal, p_discount_type, p_discount_value, v_tax_rate, v_tax_inclusive);
+
+  select id into v_customer_id
+  from customers
+  where name = p_customer_name
+  order by created_at
+  limit 1;
+
+  if v_customer_id is null then
+    insert into customers (name, email, phone)
+    values (p_customer_name, nullif(p_customer_email, ''), nullif(p_customer_phone, ''))
+    returning id into v_customer_id;
+  end if;
+
+  insert into sales (
+    customer_id, user_id, payment_status, due_date, notes, total_cost,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_rate, tax_inclusive, tax_amount, net_amount, total_amount
+  )
+  values (
+    v_customer_id, v_user_id, p_payment_status, p_due_date, nullif(trim(p_notes), ''), v_total_cost,
+    v_subtotal, p_discount_type, coalesce(p_discount_value, 0), v_totals.discount_amount,
+    v_tax_rate, v_tax_inclusive, v_totals.tax_amount, v_totals.net_amount, v_totals.total_amount
+  )
+  returning * into v_sale;
+
+  perform enforce_credit_limit(v_sale, p_credit_override_reason);
+  perform set_stock_movement_context('sale', v_sale.id);
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    -- Guarded decrement: also catches the same product listed twice
+    update products
+    set stock_quantity = stock_quantity - v_quantity,
+        updated_at = now()
+    where id = (v_item->>'product_id')::uuid
+      and stock_quantity >= v_quantity
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = (v_item->>'product_id')::uuid;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      v_sale.id, v_product.id, v_quantity, v_unit_price, v_product.cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+  end loop;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.create_sale(
+  text, jsonb, public.payment_status, date, text, text, public.discount_type, numeric, numeric, boolean, text, text
+) to authenticated;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_payment_status public.payment_status,
+  p_due_date date default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null,
+  p_credit_override_reason text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_item jsonb;
+  v_change record;
+  v_product public.products;
+  v_old_item_ids uuid[];
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  v_old_item_ids := array(select id from sale_items where sale_id = p_sale_id);
+
+  perform set_stock_movement_context('sale', p_sale_id, 'Sale edited');
+
+  -- Apply the stock difference per product: positive deltas take stock,
+  -- negative deltas (reduced or removed lines) put it back
+  for v_change in
+    select
+      coalesce(n.product_id, o.product_id) as product_id,
+      coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as delta
+    from (
+      select (e->>'product_id')::uuid as product_id, sum((e->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) n
+    full join (
+      select product_id, sum(quantity) as quantity
+      from sale_items
+      where sale_id = p_sale_id
+      group by product_id
+    ) o on o.product_id = n.product_id
+  loop
+    continue when v_change.delta = 0;
+
+    update products
+    set stock_quantity = stock_quantity - v_change.delta,
+        updated_at = now()
+    where id = v_change.product_id
+      and stock_quantity - v_change.delta >= 0
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = v_change.product_id;
+      if not found then
+        raise exception 'Product % not found', v_change.product_id;
+      end if;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+  end loop;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product from products where id = (v_item->>'product_id')::uuid;
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    -- Lines kept from the original sale keep the cost they were sold at
+    select unit_cost into v_unit_cost
+    from sale_items
+    where id = any(v_old_item_ids) and product_id = v_product.id
+    limit 1;
+
+    if not found then
+      if not v_product.is_active then
+        raise exception 'Product % is no longer active', v_product.name;
+      end if;
+      v_unit_cost := v_product.cost;
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      p_sale_id, v_product.id, v_quantity, v_unit_price, v_unit_cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+
+    v_subtotal := v_subtotal + v_quantity * v_unit_price - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+  end loop;
+
+  delete from sale_items where id = any(v_old_item_ids);
+
+  select * into v_totals
+  from compute_sale_totals(
+    v_subtotal,
+    p_discount_type,
+    p_discount_value,
+    coalesce(p_tax_rate, v_sale.tax_rate),
+    coalesce(p_tax_inclusive, v_sale.tax_inclusive)
+  );
+
+  update sales
+  set total_cost = v_total_cost,
+      subtotal = v_subtotal,
+      discount_type = p_discount_type,
+      discount_value = coalesce(p_discount_value, 0),
+      discount_amount = v_totals.discount_amount,
+      tax_rate = coalesce(p_tax_rate, tax_rate),
+      tax_inclusive = coalesce(p_tax_inclusive, tax_inclusive),
+      tax_amount = v_totals.tax_amount,
+      net_amount = v_totals.net_amount,
+      total_amount = v_totals.total_amount,
+      payment_status = p_payment_status,
+      due_date = p_due_date,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_sale_id
+  returning * into v_sale;
+
+  perform enforce_credit_limit(v_sale, p_credit_override_reason);
+
+  if p_payment_status = 'paid' then
+    update debtors
+    set is_resolved = true,
+        updated_at = now()
+    where sale_id = p_sale_id and not is_resolved;
+  else
+    update debtors
+    set amount_owed = v_sale.total_amount,
+        due_date = coalesce(p_due_date, due_date),
+        is_resolved = false,
+        updated_at = now()
+    where sale_id = p_sale_id;
+
+    if not found then
+      insert into debtors (sale_id, customer_id, amount_owed, due_date)
+      values (p_sale_id, v_sale.customer_id, v_sale.total_amount, coalesce(p_due_date, current_date + 30));
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.update_sale(
+  uuid, jsonb, public.payment_status, date, public.discount_type, numeric, numeric, boolean, text, text
+) to authenticated;
+
+create or replace function public.create_sale_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text default null,
+  p_return_date date default current_date
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_debtor public.debtors;
+  v_item jsonb;
+  v_sale_item public.sale_items;
+  v_quantity integer;
+  v_returned integer;
+  v_refund numeric;
+  v_line_tax numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_tax_amount numeric := 0;
+  v_debt_reduction numeric := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- Validate the lines and value the return before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item
+    from sale_items
+    where id = (v_item->>'sale_item_id')::uuid and sale_id = p_sale_id
+    for update;
+
+    if not found then
+      raise exception 'Item % is not part of this sale', v_item->>'sale_item_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid return quantity';
+    end if;
+
+    v_refund := public.sale_item_refund(v_sale, v_sale_item, v_quantity);
+    v_total_amount := v_total_amount + v_refund;
+    v_tax_amount := v_tax_amount + public.refund_tax(v_sale, v_refund);
+    v_total_cost := v_total_cost + v_quantity * v_sale_item.unit_cost;
+  end loop;
+
+  select * into v_debtor
+  from debtors
+  where sale_id = p_sale_id and not is_resolved
+  for update;
+
+  if found then
+    v_debt_reduction := least(v_total_amount, v_debtor.amount_owed - v_debtor.amount_paid);
+
+    update debtors
+    set amount_owed = amount_owed - v_debt_reduction,
+        updated_at = now()
+    where id = v_debtor.id
+    returning * into v_debtor;
+
+    if v_debtor.is_resolved then
+      update sales
+      set payment_status = 'paid',
+          updated_at = now()
+      where id = p_sale_id;
+    end if;
+  end if;
+
+  insert into sale_returns (
+    sale_id, customer_id, user_id, return_date, reason,
+    total_amount, total_cost, tax_amount, debt_reduction, credit_amount
+  )
+  values (
+    p_sale_id, v_sale.customer_id, v_user_id, coalesce(p_return_date, current_date), nullif(p_reason, ''),
+    v_total_amount, v_total_cost, v_tax_amount, v_debt_reduction, v_total_amount - v_debt_reduction
+  )
+  returning * into v_return;
+
+  perform set_stock_movement_context('return', p_sale_id, p_reason);
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item from sale_items where id = (v_item->>'sale_item_id')::uuid;
+
+    -- Checked after earlier lines are written so repeated items add up
+    select coalesce(sum(quantity), 0) into v_returned
+    from sale_return_items
+    where sale_item_id = v_sale_item.id;
+
+    if v_returned + v_quantity > v_sale_item.quantity then
+      raise exception 'Cannot return more than the % units sold', v_sale_item.quantity;
+    end if;
+
+    v_refund := public.sale_item_refund(v_sale, v_sale_item, v_quantity);
+    v_line_tax := public.refund_tax(v_sale, v_refund);
+
+    insert into sale_return_items (
+      return_id, sale_item_id, product_id, quantity, unit_price, unit_cost, refund_amount, net_amount
+    )
+    values (
+      v_return.id, v_sale_item.id, v_sale_item.product_id, v_quantity,
+      v_sale_item.unit_price, v_sale_item.unit_cost, v_refund, v_refund - v_line_tax
+    );
+
+    update products
+    set stock_quantity = stock_quantity + v_quantity,
+        updated_at = now()
+    where id = v_sale_item.product_id;
+  end loop;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function public.create_sale_return(uuid, jsonb, text, date) to authenticated;
@@ -0,0 +1,326 @@
+-- Suppliers, purchase orders and supplier payables. Stock comes in by
+-- receiving purchase order lines, in full or in part; each receipt adds to
+-- stock through the movement ledger and sets the product's cost to what was
+-- paid. What we owe a supplier is the value received on their orders less
+-- the payments made against them.
+create type public.purchase_order_status as enum ('ordered', 'partially_received', 'received', 'cancelled');
+
+create table public.suppliers (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  contact_name text,
+  phone text,
+  email text,
+  address text,
+  is_active boolean not null default true,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.purchase_orders (
+  id uuid primary key default gen_random_uuid(),
+  supplier_id uuid not null references public.suppliers(id),
+  user_id uuid not null references auth.users(id),
+  status public.purchase_order_status not null default 'ordered',
+  order_date date not null default current_date,
+  expected_date date,
+  notes text,
+  total_amount numeric not null default 0,
+  received_amount numeric not null default 0,
+  amount_paid numeric not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index purchase_orders_supplier_id_idx on public.purchase_orders(supplier_id);
+
+create table public.purchase_order_items (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  product_id uuid not null references public.products(id),
+  quantity integer not null check (quantity > 0),
+  unit_cost numeric not null check (unit_cost >= 0),
+  quantity_received integer not null default 0 check (quantity_received between 0 and quantity),
+  created_at timestamptz not null default now()
+);
+
+create index purchase_order_items_purchase_order_id_idx on public.purchase_order_items(purchase_order_id);
+
+create table public.supplier_payments (
+  id uuid primary key default gen_random_uuid(),
+  purchase_order_id uuid not null references public.purchase_orders(id) on delete cascade,
+  supplier_id uuid not null references public.suppliers(id),
+  amount numeric not null check (amount > 0),
+  payment_date date not null default current_date,
+  method public.payment_method not null default 'cash',
+  reference text,
+  user_id uuid not null references auth.users(id),
+  created_at timestamptz not null default now()
+);
+
+create index supplier_payments_purchase_order_id_idx on public.supplier_payments(purchase_order_id);
+
+alter table public.suppliers enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.purchase_order_items enable row level security;
+alter table public.supplier_payments enable row level security;
+
+create policy "Authenticated users can view suppliers"
+  on public.suppliers for select to authenticated
+  using (true);
+
+create policy "Managers can manage suppliers"
+  on public.suppliers for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Authenticated users can view purchase orders"
+  on public.purchase_orders for select to authenticated
+  using (true);
+
+create policy "Managers can manage purchase orders"
+  on public.purchase_orders for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Authenticated users can view purchase order items"
+  on public.purchase_order_items for select to authenticated
+  using (true);
+
+create policy "Managers can manage purchase order items"
+  on public.purchase_order_items for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Authenticated users can view supplier payments"
+  on public.supplier_payments for select to authenticated
+  using (true);
+
+create policy "Managers can record supplier payments"
+  on public.supplier_payments for insert to authenticated
+  with check (public.is_manager() and auth.uid() = user_id);
+
+create or replace function public.create_purchase_order(
+  p_supplier_id uuid,
+  p_items jsonb,
+  p_expected_date date default null,
+  p_notes text default null
+)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order public.purchase_orders;
+  v_item jsonb;
+  v_quantity integer;
+  v_unit_cost numeric;
+  v_total numeric := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can create purchase orders';
+  end if;
+
+  perform 1 from suppliers where id = p_supplier_id and is_active;
+  if not found then
+    raise exception 'Supplier not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A purchase order needs at least one item';
+  end if;
+
+  insert into purchase_orders (supplier_id, user_id, expected_date, notes)
+  values (p_supplier_id, v_user_id, p_expected_date, nullif(trim(p_notes), ''))
+  returning * into v_order;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_cost := (v_item->>'unit_cost')::numeric;
+
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity on purchase order';
+    end if;
+    if v_unit_cost is null or v_unit_cost < 0 then
+      raise exception 'Invalid unit cost on purchase order';
+    end if;
+
+    insert into purchase_order_items (purchase_order_id, product_id, quantity, unit_cost)
+    values (v_order.id, (v_item->>'product_id')::uuid, v_quantity, v_unit_cost);
+
+    v_total := v_total + v_quantity * v_unit_cost;
+  end loop;
+
+  update purchase_orders
+  set total_amount = v_total
+  where id = v_order.id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.create_purchase_order(uuid, jsonb, date, text) to authenticated;
+
+-- Receives some or all of the outstanding quantity on each line. p_items is
+-- a list of {purchase_order_item_id, quantity}.
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_items jsonb
+)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_item jsonb;
+  v_line public.purchase_order_items;
+  v_quantity integer;
+  v_received_units integer := 0;
+  v_received_value numeric := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can receive stock';
+  end if;
+
+  select * into v_order from purchase_orders where id = p_purchase_order_id for update;
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+
+  if v_order.status in ('received', 'cancelled') then
+    raise exception 'This purchase order is already %', v_order.status;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Enter the quantities received';
+  end if;
+
+  perform set_stock_movement_context(
+    'purchase',
+    p_purchase_order_id,
+    'PO-' || upper(left(p_purchase_order_id::text, 8))
+  );
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    continue when coalesce(v_quantity, 0) = 0;
+
+    select * into v_line
+    from purchase_order_items
+    where id = (v_item->>'purchase_order_item_id')::uuid
+      and purchase_order_id = p_purchase_order_id
+    for update;
+
+    if not found then
+      raise exception 'Item % is not on this purchase order', v_item->>'purchase_order_item_id';
+    end if;
+    if v_quantity < 0 or v_line.quantity_received + v_quantity > v_line.quantity then
+      raise exception 'Cannot receive more than the % units still outstanding',
+        v_line.quantity - v_line.quantity_received;
+    end if;
+
+    update purchase_order_items
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+
+    update products
+    set stock_quantity = stock_quantity + v_quantity,
+        cost = v_line.unit_cost,
+        updated_at = now()
+    where id = v_line.product_id;
+
+    v_received_units := v_received_units + v_quantity;
+    v_received_value := v_received_value + v_quantity * v_line.unit_cost;
+  end loop;
+
+  if v_received_units = 0 then
+    raise exception 'Enter the quantities received';
+  end if;
+
+  update purchase_orders
+  set received_amount = received_amount + v_received_value,
+      status = case
+        when exists (
+          select 1 from purchase_order_items
+          where purchase_order_id = p_purchase_order_id and quantity_received < quantity
+        ) then 'partially_received'::public.purchase_order_status
+        else 'received'::public.purchase_order_status
+      end,
+      updated_at = now()
+  where id = p_purchase_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, jsonb) to authenticated;
+
+-- Payments can be made in advance, up to the order total
+create or replace function public.record_supplier_payment(
+  p_purchase_order_id uuid,
+  p_amount numeric,
+  p_method public.payment_method default 'cash',
+  p_payment_date date default current_date,
+  p_reference text default null
+)
+returns public.supplier_payments
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_order public.purchase_orders;
+  v_payment public.supplier_payments;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_order from purchase_orders where id = p_purchase_order_id for update;
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+
+  if p_amount is null or p_amount <= 0 then
+    raise exception 'Payment amount must be greater than zero';
+  end if;
+
+  if v_order.amount_paid + p_amount > v_order.total_amount then
+    raise exception 'Payment exceeds the RWF % left to pay on this order',
+      v_order.total_amount - v_order.amount_paid;
+  end if;
+
+  insert into supplier_payments (
+    purchase_order_id, supplier_id, amount, payment_date, method, reference, user_id
+  )
+  values (
+    p_purchase_order_id, v_order.supplier_id, p_amount, coalesce(p_payment_date, current_date),
+    p_method, nullif(trim(p_reference), ''), v_user_id
+  )
+  returning * into v_payment;
+
+  update purchase_orders
+  set amount_paid = amount_paid + p_amount,
+      updated_at = now()
+  where id = p_purchase_order_id;
+
+  return v_payment;
+end;
+$$;
+
+grant execute on function public.record_supplier_payment(uuid, numeric, public.payment_method, date, text) to authenticated;
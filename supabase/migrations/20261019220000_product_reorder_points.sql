@@ -0,0 +1,7 @@
+-- Per-product reorder points. A product is low on stock once its on-hand
+-- quantity drops to its reorder level; the default of 10 matches the
+-- threshold the Products page used before this was configurable. The
+-- reorder quantity is how much we normally buy when restocking.
+alter table public.products
+  add column reorder_level integer not null default 10 check (reorder_level >= 0),
+  add column reorder_quantity integer check (reorder_quantity > 0);
@@ -0,0 +1,96 @@
+-- Product variants. A variant is an ordinary product row pointing at its
+-- parent, so it has its own SKU, cost, price and stock and flows through
+-- sales, returns, purchasing and the stock ledger unchanged. The parent only
+-- groups its variants: it holds no stock and is not sold directly.
+--
+-- variant_attributes is an ordered list of options, e.g.
+-- [{"name": "Storage", "value": "256GB"}, {"name": "Colour", "value": "Black"}].
+-- A variant's name ("Phone X - 256GB / Black") and category are derived from
+-- its parent and kept in sync when the parent changes.
+alter table public.products
+  add column parent_id uuid references public.products(id),
+  add column variant_attributes jsonb not null default '[]'::jsonb
+    check (jsonb_typeof(variant_attributes) = 'array');
+
+create index products_parent_id_idx on public.products(parent_id);
+
+create or replace function public.variant_label(p_attributes jsonb)
+returns text
+language sql
+immutable
+set search_path = public
+as $$
+  select string_agg(option->>'value', ' / ' order by position)
+  from jsonb_array_elements(p_attributes) with ordinality as options(option, position)
+  where coalesce(trim(option->>'value'), '') <> '';
+$$;
+
+grant execute on function public.variant_label(jsonb) to authenticated;
+
+create or replace function public.sync_product_variant()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_parent public.products;
+begin
+  if new.parent_id is not null then
+    select * into v_parent from products where id = new.parent_id;
+    if not found then
+      raise exception 'Parent product not found';
+    end if;
+    if v_parent.parent_id is not null then
+      raise exception 'A variant cannot have variants of its own';
+    end if;
+    if public.variant_label(new.variant_attributes) is null then
+      raise exception 'A variant needs at least one option, such as size or colour';
+    end if;
+
+    if tg_op = 'INSERT' or new.parent_id is distinct from old.parent_id then
+      if exists (select 1 from products where parent_id = new.id) then
+        raise exception '% has variants and cannot become a variant itself', new.name;
+      end if;
+      if v_parent.stock_quantity <> 0 then
+        raise exception '% still has % units in stock. Adjust its stock to 0 before adding variants',
+          v_parent.name, v_parent.stock_quantity;
+      end if;
+    end if;
+
+    new.name := v_parent.name || ' - ' || public.variant_label(new.variant_attributes);
+    new.category := v_parent.category;
+  elsif tg_op = 'UPDATE' and new.stock_quantity <> 0 and exists (
+    select 1 from products where parent_id = new.id
+  ) then
+    raise exception 'Stock for % is held on its variants', new.name;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger products_sync_variant
+  before insert or update on public.products
+  for each row execute function public.sync_product_variant();
+
+-- Renaming or recategorising a parent renames and recategorises its variants
+create or replace function public.cascade_product_to_variants()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  update products
+  set updated_at = now()
+  where parent_id = new.id;
+  return null;
+end;
+$$;
+
+create trigger products_cascade_to_variants
+  after update of name, category on public.products
+  for each row
+  when (old.name is distinct from new.name or old.category is distinct from new.category)
+  execute function public.cascade_product_to_variants();
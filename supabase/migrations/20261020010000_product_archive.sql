@@ -0,0 +1,38 @@
+-- Products are archived rather than deleted once they have history. Hard
+-- deletion is only allowed for products that were never sold or ordered;
+-- their stock movements and price list entries go with them.
+create or replace function public.delete_product(p_product_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_product public.products;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_product from products where id = p_product_id for update;
+  if not found then
+    raise exception 'Product not found';
+  end if;
+
+  if exists (select 1 from sale_items where product_id = p_product_id) then
+    raise exception '% has been sold. Archive it instead so its sales history is kept', v_product.name;
+  end if;
+
+  if exists (select 1 from purchase_order_items where product_id = p_product_id) then
+    raise exception '% is on purchase orders. Archive it instead', v_product.name;
+  end if;
+
+  if exists (select 1 from products where parent_id = p_product_id) then
+    raise exception '% has variants. Delete them first', v_product.name;
+  end if;
+
+  delete from products where id = p_product_id;
+end;
+$$;
+
+grant execute on function public.delete_product(uuid) to authenticated;
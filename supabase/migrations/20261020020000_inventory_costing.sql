@@ -0,0 +1,963 @@
+-- Inventory costing. Stock on hand is held in cost layers: every stock
+-- increase adds a layer at the unit cost it came in at, and every decrease
+-- takes units from the oldest layers first. The shop-wide costing method
+-- decides how layers are valued:
+--   fifo              layers are kept apart, so sales cost what the oldest
+--                     units on hand cost
+--   weighted_average  layers are merged on every receipt, so sales cost the
+--                     average of everything on hand
+-- Layers are maintained by the stock movement trigger, so every path that
+-- changes stock is covered. Sales record the cost of the units they took in
+-- sale_items.unit_cost, and products.cost follows the average cost of the
+-- stock on hand.
+create type public.costing_method as enum ('weighted_average', 'fifo');
+
+alter table public.app_settings
+  add column costing_method public.costing_method not null default 'weighted_average';
+
+alter table public.stock_movements
+  add column unit_cost numeric;
+
+create table public.cost_layers (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products(id) on delete cascade,
+  -- The movement that brought the units in; empty for revaluations
+  stock_movement_id uuid references public.stock_movements(id) on delete set null,
+  unit_cost numeric not null check (unit_cost >= 0),
+  quantity_received integer not null check (quantity_received > 0),
+  quantity_remaining integer not null check (quantity_remaining >= 0 and quantity_remaining <= quantity_received),
+  created_at timestamptz not null default clock_timestamp()
+);
+
+create index cost_layers_open_idx on public.cost_layers(product_id, created_at) where quantity_remaining > 0;
+
+alter table public.cost_layers enable row level security;
+
+-- Rows are only ever written by the costing triggers below
+create policy "Authenticated users can view cost layers"
+  on public.cost_layers for select to authenticated
+  using (true);
+
+-- Existing stock opens a single layer at the product's current cost
+insert into public.cost_layers (product_id, unit_cost, quantity_received, quantity_remaining)
+select id, greatest(cost, 0), stock_quantity, stock_quantity
+from public.products
+where stock_quantity > 0;
+
+-- Stock coming back from a sale or in from a supplier carries a known cost;
+-- functions declare it per line, after set_stock_movement_context. Other
+-- additions come in at the product's current cost.
+create or replace function public.set_stock_movement_cost(p_unit_cost numeric)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform set_config('app.stock_movement_cost', coalesce(p_unit_cost::text, ''), true);
+end;
+$$;
+
+-- Unit cost of the last stock movement written in this transaction
+create or replace function public.last_stock_movement_cost()
+returns numeric
+language sql
+set search_path = public
+as $$
+  select nullif(current_setting('app.stock_movement_last_cost', true), '')::numeric
+$$;
+
+create or replace function public.set_stock_movement_context(
+  p_type public.stock_movement_type,
+  p_reference_id uuid default null,
+  p_reason text default null
+)
+returns void
+language plpgsql
+set search_path = public
+as $$
+begin
+  perform set_config('app.stock_movement_type', p_type::text, true);
+  perform set_config('app.stock_movement_reference', coalesce(p_reference_id::text, ''), true);
+  perform set_config('app.stock_movement_reason', coalesce(trim(p_reason), ''), true);
+  perform set_config('app.stock_movement_cost', '', true);
+end;
+$$;
+
+-- Collapses a product's open layers into one at their average cost
+create or replace function public.merge_cost_layers(p_product_id uuid, p_stock_movement_id uuid default null)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_quantity integer;
+  v_value numeric;
+  v_layers integer;
+begin
+  select coalesce(sum(quantity_remaining), 0), coalesce(sum(quantity_remaining * unit_cost), 0), count(*)
+  into v_quantity, v_value, v_layers
+  from cost_layers
+  where product_id = p_product_id and quantity_remaining > 0;
+
+  if v_layers <= 1 then
+    return;
+  end if;
+
+  update cost_layers
+  set quantity_remaining = 0
+  where product_id = p_product_id and quantity_remaining > 0;
+
+  insert into cost_layers (product_id, stock_movement_id, unit_cost, quantity_received, quantity_remaining)
+  values (p_product_id, p_stock_movement_id, v_value / v_quantity, v_quantity, v_quantity);
+end;
+$$;
+
+-- Takes units from the oldest layers and returns their average unit cost.
+-- Units not covered by a layer are costed at p_fallback_cost.
+create or replace function public.take_cost_layers(p_product_id uuid, p_quantity integer, p_fallback_cost numeric)
+returns numeric
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_layer public.cost_layers;
+  v_needed integer := p_quantity;
+  v_taken integer;
+  v_value numeric := 0;
+begin
+  for v_layer in
+    select * from cost_layers
+    where product_id = p_product_id and quantity_remaining > 0
+    order by created_at
+    for update
+  loop
+    exit when v_needed = 0;
+    v_taken := least(v_needed, v_layer.quantity_remaining);
+
+    update cost_layers
+    set quantity_remaining = quantity_remaining - v_taken
+    where id = v_layer.id;
+
+    v_value := v_value + v_taken * v_layer.unit_cost;
+    v_needed := v_needed - v_taken;
+  end loop;
+
+  v_value := v_value + v_needed * coalesce(p_fallback_cost, 0);
+  return v_value / p_quantity;
+end;
+$$;
+
+-- Keeps products.cost at the average cost of the stock on hand. Products
+-- with no stock keep their last cost.
+create or replace function public.sync_product_cost(p_product_id uuid)
+returns void
+language plpgsql
+set search_path = public
+as $$
+declare
+  v_cost numeric;
+begin
+  select sum(quantity_remaining * unit_cost) / nullif(sum(quantity_remaining), 0)
+  into v_cost
+  from cost_layers
+  where product_id = p_product_id and quantity_remaining > 0;
+
+  if v_cost is not null then
+    update products
+    set cost = round(v_cost, 2)
+    where id = p_product_id and cost is distinct from round(v_cost, 2);
+  end if;
+end;
+$$;
+
+create or replace function public.log_stock_movement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_change integer := new.stock_quantity - case when tg_op = 'INSERT' then 0 else old.stock_quantity end;
+  v_type text := nullif(current_setting('app.stock_movement_type', true), '');
+  v_reason text := nullif(current_setting('app.stock_movement_reason', true), '');
+  v_unit_cost numeric;
+  v_movement_id uuid;
+begin
+  if v_change = 0 then
+    return new;
+  end if;
+
+  if v_type is null then
+    if tg_op <> 'INSERT' then
+      raise exception 'Stock for % can only change through a sale, return, purchase receipt, adjustment or stocktake', new.name;
+    end if;
+    v_type := 'adjustment';
+    v_reason := 'Opening stock';
+  end if;
+
+  if v_change > 0 then
+    v_unit_cost := greatest(
+      coalesce(nullif(current_setting('app.stock_movement_cost', true), '')::numeric, new.cost, 0),
+      0
+    );
+  else
+    v_unit_cost := take_cost_layers(new.id, -v_change, new.cost);
+  end if;
+
+  insert into stock_movements (
+    product_id, movement_type, quantity_change, quantity_after, reference_id, reason, user_id, unit_cost
+  )
+  values (
+    new.id,
+    v_type::public.stock_movement_type,
+    v_change,
+    new.stock_quantity,
+    nullif(current_setting('app.stock_movement_reference', true), '')::uuid,
+    v_reason,
+    auth.uid(),
+    v_unit_cost
+  )
+  returning id into v_movement_id;
+
+  if v_change > 0 then
+    insert into cost_layers (product_id, stock_movement_id, unit_cost, quantity_received, quantity_remaining)
+    values (new.id, v_movement_id, v_unit_cost, v_change, v_change);
+
+    if (select costing_method from app_settings limit 1) = 'weighted_average' then
+      perform merge_cost_layers(new.id, v_movement_id);
+    end if;
+  end if;
+
+  perform set_config('app.stock_movement_last_cost', v_unit_cost::text, true);
+  perform sync_product_cost(new.id);
+
+  return new;
+end;
+$$;
+
+-- Changing a product's cost by hand revalues its stock on hand at that cost.
+-- Updates made by sync_product_cost run inside another trigger and are
+-- skipped.
+create or replace function public.revalue_product_stock()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if pg_trigger_depth() > 1 or new.stock_quantity <= 0 then
+    return null;
+  end if;
+
+  update cost_layers
+  set quantity_remaining = 0
+  where product_id = new.id and quantity_remaining > 0;
+
+  insert into cost_layers (product_id, unit_cost, quantity_received, quantity_remaining)
+  values (new.id, greatest(new.cost, 0), new.stock_quantity, new.stock_quantity);
+
+  perform sync_product_cost(new.id);
+  return null;
+end;
+$$;
+
+create trigger products_revalue_stock
+  after update of cost on public.products
+  for each row
+  when (old.cost is distinct from new.cost)
+  execute function public.revalue_product_stock();
+
+-- Switching to weighted average merges the layers FIFO kept apart
+create or replace function public.apply_costing_method()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_product_id uuid;
+begin
+  if new.costing_method = 'weighted_average' then
+    for v_product_id in
+      select product_id from cost_layers
+      where quantity_remaining > 0
+      group by product_id
+      having count(*) > 1
+    loop
+      perform merge_cost_layers(v_product_id);
+      perform sync_product_cost(v_product_id);
+    end loop;
+  end if;
+  return null;
+end;
+$$;
+
+create trigger app_settings_apply_costing_method
+  after update of costing_method on public.app_settings
+  for each row
+  when (old.costing_method is distinct from new.costing_method)
+  execute function public.apply_costing_method();
+
+-- Value of the stock on hand of active products, at the cost of its layers
+create or replace function public.inventory_value()
+returns numeric
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select coalesce(sum(l.quantity_remaining * l.unit_cost), 0)
+  from cost_layers l
+  join products p on p.id = l.product_id
+  where l.quantity_remaining > 0 and p.is_active
+$$;
+
+grant execute on function public.inventory_value() to authenticated;
+
+-- The functions below are unchanged apart from declaring the cost of the
+-- stock they put back or bring in, and costing sales from the layers
+
+-- Deleting a sale puts its items back on the shelf, at the cost they were
+-- sold at
+create or replace function public.delete_sale(p_sale_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  perform 1 from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  perform set_stock_movement_context('sale', p_sale_id, 'Sale deleted');
+
+  for v_item in
+    select product_id, sum(quantity) as quantity, sum(quantity * unit_cost) / sum(quantity) as unit_cost
+    from sale_items
+    where sale_id = p_sale_id
+    group by product_id
+  loop
+    perform set_stock_movement_cost(v_item.unit_cost);
+
+    update products
+    set stock_quantity = stock_quantity + v_item.quantity,
+        updated_at = now()
+    where id = v_item.product_id;
+  end loop;
+
+  delete from sales where id = p_sale_id;
+end;
+$$;
+
+grant execute on function public.delete_sale(uuid) to authenticated;
+
+create or replace function public.create_sale(
+  p_customer_name text,
+  p_items jsonb,
+  p_payment_status public.payment_status default 'pending',
+  p_due_date date default null,
+  p_customer_email text default null,
+  p_customer_phone text default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null,
+  p_credit_override_reason text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_settings public.app_settings;
+  v_tax_rate numeric;
+  v_tax_inclusive boolean;
+  v_customer_id uuid;
+  v_sale public.sales;
+  v_item jsonb;
+  v_product public.products;
+  v_quantity integer;
+  v_unit_price numeric;
+  v_gross numeric;
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_unit_cost numeric;
+  v_totals record;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if coalesce(trim(p_customer_name), '') = '' then
+    raise exception 'Customer name is required';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  select * into v_settings from app_settings limit 1;
+  v_tax_rate := coalesce(p_tax_rate, v_settings.tax_rate, 0);
+  v_tax_inclusive := coalesce(p_tax_inclusive, v_settings.prices_include_tax, true);
+
+  -- Validate every line and compute the totals before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product
+    from products
+    where id = (v_item->>'product_id')::uuid and is_active
+    for update;
+
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    v_gross := v_quantity * v_unit_price;
+    v_line_discount := calculate_discount(
+      v_gross,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+    v_subtotal := v_subtotal + v_gross - v_line_discount;
+  end loop;
+
+  select * into v_totals
+  from compute_sale_totals(v_subtotal, p_discount_type, p_discount_value, v_tax_rate, v_tax_inclusive);
+
+  select id into v_customer_id
+  from customers
+  where name = p_customer_name
+  order by created_at
+  limit 1;
+
+  if v_customer_id is null then
+    insert into customers (name, email, phone)
+    values (p_customer_name, nullif(p_customer_email, ''), nullif(p_customer_phone, ''))
+    returning id into v_customer_id;
+  end if;
+
+  insert into sales (
+    customer_id, user_id, payment_status, due_date, notes, total_cost,
+    subtotal, discount_type, discount_value, discount_amount,
+    tax_rate, tax_inclusive, tax_amount, net_amount, total_amount
+  )
+  values (
+    v_customer_id, v_user_id, p_payment_status, p_due_date, nullif(trim(p_notes), ''), 0,
+    v_subtotal, p_discount_type, coalesce(p_discount_value, 0), v_totals.discount_amount,
+    v_tax_rate, v_tax_inclusive, v_totals.tax_amount, v_totals.net_amount, v_totals.total_amount
+  )
+  returning * into v_sale;
+
+  perform enforce_credit_limit(v_sale, p_credit_override_reason);
+  perform set_stock_movement_context('sale', v_sale.id);
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    -- Guarded decrement: also catches the same product listed twice
+    update products
+    set stock_quantity = stock_quantity - v_quantity,
+        updated_at = now()
+    where id = (v_item->>'product_id')::uuid
+      and stock_quantity >= v_quantity
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = (v_item->>'product_id')::uuid;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    -- What the units taken from stock cost under the costing method
+    v_unit_cost := last_stock_movement_cost();
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      v_sale.id, v_product.id, v_quantity, v_unit_price, v_unit_cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+  end loop;
+
+  update sales
+  set total_cost = v_total_cost
+  where id = v_sale.id
+  returning * into v_sale;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.create_sale(
+  text, jsonb, public.payment_status, date, text, text, public.discount_type, numeric, numeric, boolean, text, text
+) to authenticated;
+
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_payment_status public.payment_status,
+  p_due_date date default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null,
+  p_credit_override_reason text default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_item jsonb;
+  v_change record;
+  v_product public.products;
+  v_old_item_ids uuid[];
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_taken_costs jsonb := '{}';
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  v_old_item_ids := array(select id from sale_items where sale_id = p_sale_id);
+
+  perform set_stock_movement_context('sale', p_sale_id, 'Sale edited');
+
+  -- Apply the stock difference per product: positive deltas take stock,
+  -- negative deltas (reduced or removed lines) put it back at the cost it
+  -- was sold at
+  for v_change in
+    select
+      coalesce(n.product_id, o.product_id) as product_id,
+      coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as delta,
+      o.unit_cost
+    from (
+      select (e->>'product_id')::uuid as product_id, sum((e->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) n
+    full join (
+      select product_id, sum(quantity) as quantity, sum(quantity * unit_cost) / sum(quantity) as unit_cost
+      from sale_items
+      where sale_id = p_sale_id
+      group by product_id
+    ) o on o.product_id = n.product_id
+  loop
+    continue when v_change.delta = 0;
+
+    perform set_stock_movement_cost(v_change.unit_cost);
+
+    update products
+    set stock_quantity = stock_quantity - v_change.delta,
+        updated_at = now()
+    where id = v_change.product_id
+      and stock_quantity - v_change.delta >= 0
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = v_change.product_id;
+      if not found then
+        raise exception 'Product % not found', v_change.product_id;
+      end if;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    if v_change.delta > 0 then
+      v_taken_costs := v_taken_costs || jsonb_build_object(v_product.id, last_stock_movement_cost());
+    end if;
+  end loop;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product from products where id = (v_item->>'product_id')::uuid;
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    -- Lines kept from the original sale keep the cost they were sold at
+    select unit_cost into v_unit_cost
+    from sale_items
+    where id = any(v_old_item_ids) and product_id = v_product.id
+    limit 1;
+
+    if not found then
+      if not v_product.is_active then
+        raise exception 'Product % is no longer active', v_product.name;
+      end if;
+      v_unit_cost := coalesce((v_taken_costs->>v_product.id::text)::numeric, v_product.cost);
+    end if;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      p_sale_id, v_product.id, v_quantity, v_unit_price, v_unit_cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+
+    v_subtotal := v_subtotal + v_quantity * v_unit_price - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+  end loop;
+
+  delete from sale_items where id = any(v_old_item_ids);
+
+  select * into v_totals
+  from compute_sale_totals(
+    v_subtotal,
+    p_discount_type,
+    p_discount_value,
+    coalesce(p_tax_rate, v_sale.tax_rate),
+    coalesce(p_tax_inclusive, v_sale.tax_inclusive)
+  );
+
+  update sales
+  set total_cost = v_total_cost,
+      subtotal = v_subtotal,
+      discount_type = p_discount_type,
+      discount_value = coalesce(p_discount_value, 0),
+      discount_amount = v_totals.discount_amount,
+      tax_rate = coalesce(p_tax_rate, tax_rate),
+      tax_inclusive = coalesce(p_tax_inclusive, tax_inclusive),
+      tax_amount = v_totals.tax_amount,
+      net_amount = v_totals.net_amount,
+      total_amount = v_totals.total_amount,
+      payment_status = p_payment_status,
+      due_date = p_due_date,
+      notes = nullif(trim(p_notes), ''),
+      updated_at = now()
+  where id = p_sale_id
+  returning * into v_sale;
+
+  perform enforce_credit_limit(v_sale, p_credit_override_reason);
+
+  if p_payment_status = 'paid' then
+    update debtors
+    set is_resolved = true,
+        updated_at = now()
+    where sale_id = p_sale_id and not is_resolved;
+  else
+    update debtors
+    set amount_owed = v_sale.total_amount,
+        due_date = coalesce(p_due_date, due_date),
+        is_resolved = false,
+        updated_at = now()
+    where sale_id = p_sale_id;
+
+    if not found then
+      insert into debtors (sale_id, customer_id, amount_owed, due_date)
+      values (p_sale_id, v_sale.customer_id, v_sale.total_amount, coalesce(p_due_date, current_date + 30));
+    end if;
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.update_sale(
+  uuid, jsonb, public.payment_status, date, public.discount_type, numeric, numeric, boolean, text, text
+) to authenticated;
+
+create or replace function public.create_sale_return(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_reason text default null,
+  p_return_date date default current_date
+)
+returns public.sale_returns
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_sale public.sales;
+  v_return public.sale_returns;
+  v_debtor public.debtors;
+  v_item jsonb;
+  v_sale_item public.sale_items;
+  v_quantity integer;
+  v_returned integer;
+  v_refund numeric;
+  v_line_tax numeric;
+  v_total_amount numeric := 0;
+  v_total_cost numeric := 0;
+  v_tax_amount numeric := 0;
+  v_debt_reduction numeric := 0;
+begin
+  if v_user_id is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Select at least one item to return';
+  end if;
+
+  -- Validate the lines and value the return before writing anything
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item
+    from sale_items
+    where id = (v_item->>'sale_item_id')::uuid and sale_id = p_sale_id
+    for update;
+
+    if not found then
+      raise exception 'Item % is not part of this sale', v_item->>'sale_item_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid return quantity';
+    end if;
+
+    v_refund := public.sale_item_refund(v_sale, v_sale_item, v_quantity);
+    v_total_amount := v_total_amount + v_refund;
+    v_tax_amount := v_tax_amount + public.refund_tax(v_sale, v_refund);
+    v_total_cost := v_total_cost + v_quantity * v_sale_item.unit_cost;
+  end loop;
+
+  select * into v_debtor
+  from debtors
+  where sale_id = p_sale_id and not is_resolved
+  for update;
+
+  if found then
+    v_debt_reduction := least(v_total_amount, v_debtor.amount_owed - v_debtor.amount_paid);
+
+    update debtors
+    set amount_owed = amount_owed - v_debt_reduction,
+        updated_at = now()
+    where id = v_debtor.id
+    returning * into v_debtor;
+
+    if v_debtor.is_resolved then
+      update sales
+      set payment_status = 'paid',
+          updated_at = now()
+      where id = p_sale_id;
+    end if;
+  end if;
+
+  insert into sale_returns (
+    sale_id, customer_id, user_id, return_date, reason,
+    total_amount, total_cost, tax_amount, debt_reduction, credit_amount
+  )
+  values (
+    p_sale_id, v_sale.customer_id, v_user_id, coalesce(p_return_date, current_date), nullif(p_reason, ''),
+    v_total_amount, v_total_cost, v_tax_amount, v_debt_reduction, v_total_amount - v_debt_reduction
+  )
+  returning * into v_return;
+
+  perform set_stock_movement_context('return', p_sale_id, p_reason);
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+
+    select * into v_sale_item from sale_items where id = (v_item->>'sale_item_id')::uuid;
+
+    -- Checked after earlier lines are written so repeated items add up
+    select coalesce(sum(quantity), 0) into v_returned
+    from sale_return_items
+    where sale_item_id = v_sale_item.id;
+
+    if v_returned + v_quantity > v_sale_item.quantity then
+      raise exception 'Cannot return more than the % units sold', v_sale_item.quantity;
+    end if;
+
+    v_refund := public.sale_item_refund(v_sale, v_sale_item, v_quantity);
+    v_line_tax := public.refund_tax(v_sale, v_refund);
+
+    insert into sale_return_items (
+      return_id, sale_item_id, product_id, quantity, unit_price, unit_cost, refund_amount, net_amount
+    )
+    values (
+      v_return.id, v_sale_item.id, v_sale_item.product_id, v_quantity,
+      v_sale_item.unit_price, v_sale_item.unit_cost, v_refund, v_refund - v_line_tax
+    );
+
+    perform set_stock_movement_cost(v_sale_item.unit_cost);
+
+    update products
+    set stock_quantity = stock_quantity + v_quantity,
+        updated_at = now()
+    where id = v_sale_item.product_id;
+  end loop;
+
+  return v_return;
+end;
+$$;
+
+grant execute on function public.create_sale_return(uuid, jsonb, text, date) to authenticated;
+
+-- Receives some or all of the outstanding quantity on each line. p_items is
+-- a list of {purchase_order_item_id, quantity}.
+create or replace function public.receive_purchase_order(
+  p_purchase_order_id uuid,
+  p_items jsonb
+)
+returns public.purchase_orders
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_order public.purchase_orders;
+  v_item jsonb;
+  v_line public.purchase_order_items;
+  v_quantity integer;
+  v_received_units integer := 0;
+  v_received_value numeric := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can receive stock';
+  end if;
+
+  select * into v_order from purchase_orders where id = p_purchase_order_id for update;
+  if not found then
+    raise exception 'Purchase order not found';
+  end if;
+
+  if v_order.status in ('received', 'cancelled') then
+    raise exception 'This purchase order is already %', v_order.status;
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'Enter the quantities received';
+  end if;
+
+  perform set_stock_movement_context(
+    'purchase',
+    p_purchase_order_id,
+    'PO-' || upper(left(p_purchase_order_id::text, 8))
+  );
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    continue when coalesce(v_quantity, 0) = 0;
+
+    select * into v_line
+    from purchase_order_items
+    where id = (v_item->>'purchase_order_item_id')::uuid
+      and purchase_order_id = p_purchase_order_id
+    for update;
+
+    if not found then
+      raise exception 'Item % is not on this purchase order', v_item->>'purchase_order_item_id';
+    end if;
+    if v_quantity < 0 or v_line.quantity_received + v_quantity > v_line.quantity then
+      raise exception 'Cannot receive more than the % units still outstanding',
+        v_line.quantity - v_line.quantity_received;
+    end if;
+
+    update purchase_order_items
+    set quantity_received = quantity_received + v_quantity
+    where id = v_line.id;
+
+    perform set_stock_movement_cost(v_line.unit_cost);
+
+    update products
+    set stock_quantity = stock_quantity + v_quantity,
+        updated_at = now()
+    where id = v_line.product_id;
+
+    v_received_units := v_received_units + v_quantity;
+    v_received_value := v_received_value + v_quantity * v_line.unit_cost;
+  end loop;
+
+  if v_received_units = 0 then
+    raise exception 'Enter the quantities received';
+  end if;
+
+  update purchase_orders
+  set received_amount = received_amount + v_received_value,
+      status = case
+        when exists (
+          select 1 from purchase_order_items
+          where purchase_order_id = p_purchase_order_id and quantity_received < quantity
+        ) then 'partially_received'::public.purchase_order_status
+        else 'received'::public.purchase_order_status
+      end,
+      updated_at = now()
+  where id = p_purchase_order_id
+  returning * into v_order;
+
+  return v_order;
+end;
+$$;
+
+grant execute on function public.receive_purchase_order(uuid, jsonb) to authenticated;
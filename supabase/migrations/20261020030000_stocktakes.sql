@@ -0,0 +1,230 @@
+-- Stocktakes (physical inventory counts). Starting a stocktake lists the
+-- products to count, optionally only those in one category. While it is
+-- open, staff record what they counted; each count is compared with the
+-- product's current stock. Approving it posts the differences to the stock
+-- ledger as stocktake movements and freezes the variance report with the
+-- stock and cost at that moment. Products left uncounted are not adjusted.
+create type public.stocktake_status as enum ('counting', 'approved', 'cancelled');
+
+create table public.stocktakes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id),
+  category text,
+  status public.stocktake_status not null default 'counting',
+  notes text,
+  -- Recorded on every adjustment the stocktake posts
+  reason text,
+  approved_by uuid references auth.users(id),
+  approved_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.stocktake_items (
+  id uuid primary key default gen_random_uuid(),
+  stocktake_id uuid not null references public.stocktakes(id) on delete cascade,
+  product_id uuid not null references public.products(id) on delete cascade,
+  counted_quantity integer check (counted_quantity >= 0),
+  counted_by uuid references auth.users(id),
+  counted_at timestamptz,
+  -- Stock on hand and unit cost when the stocktake was approved
+  expected_quantity integer,
+  unit_cost numeric,
+  unique (stocktake_id, product_id)
+);
+
+create index stocktake_items_product_id_idx on public.stocktake_items(product_id);
+
+alter table public.stocktakes enable row level security;
+alter table public.stocktake_items enable row level security;
+
+create policy "Authenticated users can view stocktakes"
+  on public.stocktakes for select to authenticated
+  using (true);
+
+create policy "Managers can manage stocktakes"
+  on public.stocktakes for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Authenticated users can view stocktake items"
+  on public.stocktake_items for select to authenticated
+  using (true);
+
+-- Anyone can count; approving is left to managers
+create policy "Authenticated users can count open stocktakes"
+  on public.stocktake_items for update to authenticated
+  using (exists (select 1 from public.stocktakes s where s.id = stocktake_id and s.status = 'counting'));
+
+create or replace function public.start_stocktake(
+  p_category text default null,
+  p_notes text default null
+)
+returns public.stocktakes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can start a stocktake';
+  end if;
+
+  -- Two open counts would post the same differences twice
+  if exists (select 1 from stocktakes where status = 'counting') then
+    raise exception 'Approve or cancel the open stocktake before starting another';
+  end if;
+
+  insert into stocktakes (user_id, category, notes)
+  values (auth.uid(), nullif(trim(p_category), ''), nullif(trim(p_notes), ''))
+  returning * into v_stocktake;
+
+  -- Variant parents hold no stock, so only their variants are counted
+  insert into stocktake_items (stocktake_id, product_id)
+  select v_stocktake.id, p.id
+  from products p
+  where p.is_active
+    and (v_stocktake.category is null or p.category = v_stocktake.category)
+    and not exists (select 1 from products v where v.parent_id = p.id);
+
+  if not found then
+    raise exception 'There are no products to count%',
+      coalesce(' in ' || v_stocktake.category, '');
+  end if;
+
+  return v_stocktake;
+end;
+$$;
+
+grant execute on function public.start_stocktake(text, text) to authenticated;
+
+-- p_counts is a list of {product_id, counted_quantity}; a null quantity
+-- clears the count
+create or replace function public.record_stocktake_counts(p_stocktake_id uuid, p_counts jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_count jsonb;
+  v_quantity integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_stocktake from stocktakes where id = p_stocktake_id;
+  if not found then
+    raise exception 'Stocktake not found';
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'This stocktake is already %', v_stocktake.status;
+  end if;
+
+  if p_counts is null or jsonb_typeof(p_counts) <> 'array' then
+    raise exception 'Enter the counted quantities';
+  end if;
+
+  for v_count in select * from jsonb_array_elements(p_counts) loop
+    v_quantity := (v_count->>'counted_quantity')::integer;
+    if v_quantity < 0 then
+      raise exception 'Counted quantities cannot be negative';
+    end if;
+
+    update stocktake_items
+    set counted_quantity = v_quantity,
+        counted_by = case when v_quantity is null then null else auth.uid() end,
+        counted_at = case when v_quantity is null then null else now() end
+    where stocktake_id = p_stocktake_id
+      and product_id = (v_count->>'product_id')::uuid;
+
+    if not found then
+      raise exception 'Product % is not part of this stocktake', v_count->>'product_id';
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.record_stocktake_counts(uuid, jsonb) to authenticated;
+
+create or replace function public.approve_stocktake(p_stocktake_id uuid, p_reason text)
+returns public.stocktakes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can approve a stocktake';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for stocktake adjustments';
+  end if;
+
+  select * into v_stocktake from stocktakes where id = p_stocktake_id for update;
+  if not found then
+    raise exception 'Stocktake not found';
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'This stocktake is already %', v_stocktake.status;
+  end if;
+
+  if not exists (
+    select 1 from stocktake_items
+    where stocktake_id = p_stocktake_id and counted_quantity is not null
+  ) then
+    raise exception 'Count at least one product before approving';
+  end if;
+
+  perform set_stock_movement_context('stocktake', p_stocktake_id, p_reason);
+
+  for v_item in
+    select i.id, i.counted_quantity, p.id as product_id, p.stock_quantity, p.cost
+    from stocktake_items i
+    join products p on p.id = i.product_id
+    where i.stocktake_id = p_stocktake_id and i.counted_quantity is not null
+    for update of i, p
+  loop
+    update stocktake_items
+    set expected_quantity = v_item.stock_quantity,
+        unit_cost = v_item.cost
+    where id = v_item.id;
+
+    if v_item.counted_quantity <> v_item.stock_quantity then
+      update products
+      set stock_quantity = v_item.counted_quantity,
+          updated_at = now()
+      where id = v_item.product_id;
+    end if;
+  end loop;
+
+  update stocktakes
+  set status = 'approved',
+      reason = trim(p_reason),
+      approved_by = auth.uid(),
+      approved_at = now(),
+      updated_at = now()
+  where id = p_stocktake_id
+  returning * into v_stocktake;
+
+  return v_stocktake;
+end;
+$$;
+
+grant execute on function public.approve_stocktake(uuid, text) to authenticated;
@@ -0,0 +1,288 @@
+-- Managed product categories. Categories form a two-level hierarchy: top-level
+-- categories and their sub-categories. Names are unique regardless of case,
+-- so "Phones" and "phones" are the same category.
+--
+-- Products reference their category through category_id. products.category
+-- is kept as a copy of the category's name so pricing rules, stocktakes and
+-- imports that match on the name keep working: writing a name resolves it to
+-- the matching category, creating a top-level one when there is none.
+create table public.categories (
+  id uuid primary key default gen_random_uuid(),
+  name text not null check (trim(name) <> ''),
+  parent_id uuid references public.categories(id),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index categories_name_key on public.categories (lower(name));
+create index categories_parent_id_idx on public.categories(parent_id);
+
+alter table public.categories enable row level security;
+
+create policy "Authenticated users can view categories"
+  on public.categories for select to authenticated
+  using (true);
+
+create policy "Managers can manage categories"
+  on public.categories for all to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create or replace function public.check_category()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_parent public.categories;
+begin
+  new.name := trim(new.name);
+
+  if new.parent_id is not null then
+    if new.parent_id = new.id then
+      raise exception 'A category cannot be its own parent';
+    end if;
+
+    select * into v_parent from categories where id = new.parent_id;
+    if not found then
+      raise exception 'Parent category not found';
+    end if;
+    if v_parent.parent_id is not null then
+      raise exception '% is already a sub-category. Choose a top-level category', v_parent.name;
+    end if;
+    if tg_op = 'UPDATE' and exists (select 1 from categories where parent_id = new.id) then
+      raise exception '% has sub-categories and cannot become one itself', new.name;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger categories_check
+  before insert or update on public.categories
+  for each row execute function public.check_category();
+
+-- Existing free-text categories become top-level categories, using the most
+-- common spelling of each
+insert into public.categories (name)
+select distinct on (lower(trim(category))) trim(category)
+from public.products
+where coalesce(trim(category), '') <> ''
+group by trim(category)
+order by lower(trim(category)), count(*) desc, trim(category);
+
+alter table public.products
+  add column category_id uuid references public.categories(id);
+
+create index products_category_id_idx on public.products(category_id);
+
+update public.products p
+set category_id = c.id,
+    category = c.name
+from public.categories c
+where lower(trim(p.category)) = lower(c.name);
+
+update public.products
+set category = null
+where category_id is null and category is not null;
+
+-- Pricing rules follow the same spelling. Where two spellings both had a
+-- rule, the one for the kept spelling wins.
+delete from public.category_pricing cp
+using public.categories c
+where lower(cp.category) = lower(c.name)
+  and cp.category <> c.name
+  and exists (select 1 from public.category_pricing k where k.category = c.name);
+
+update public.category_pricing cp
+set category = c.name
+from public.categories c
+where lower(cp.category) = lower(c.name)
+  and cp.category <> c.name;
+
+-- Keeps products.category and category_id in step. A changed category_id
+-- wins; otherwise a changed name is resolved to its category.
+create or replace function public.sync_product_category()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.category_id is not null
+    or tg_op = 'UPDATE' and new.category_id is distinct from old.category_id then
+    new.category := (select name from categories where id = new.category_id);
+  elsif tg_op = 'INSERT' or new.category is distinct from old.category then
+    if coalesce(trim(new.category), '') = '' then
+      new.category_id := null;
+      new.category := null;
+    else
+      select id, name into new.category_id, new.category
+      from categories
+      where lower(name) = lower(trim(new.category));
+
+      if not found then
+        insert into categories (name)
+        values (trim(new.category))
+        returning id, name into new.category_id, new.category;
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Named to run before products_sync_variant, which copies the parent's
+-- category onto variants
+create trigger products_sync_category
+  before insert or update on public.products
+  for each row execute function public.sync_product_category();
+
+create or replace function public.sync_product_variant()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_parent public.products;
+begin
+  if new.parent_id is not null then
+    select * into v_parent from products where id = new.parent_id;
+    if not found then
+      raise exception 'Parent product not found';
+    end if;
+    if v_parent.parent_id is not null then
+      raise exception 'A variant cannot have variants of its own';
+    end if;
+    if public.variant_label(new.variant_attributes) is null then
+      raise exception 'A variant needs at least one option, such as size or colour';
+    end if;
+
+    if tg_op = 'INSERT' or new.parent_id is distinct from old.parent_id then
+      if exists (select 1 from products where parent_id = new.id) then
+        raise exception '% has variants and cannot become a variant itself', new.name;
+      end if;
+      if v_parent.stock_quantity <> 0 then
+        raise exception '% still has % units in stock. Adjust its stock to 0 before adding variants',
+          v_parent.name, v_parent.stock_quantity;
+      end if;
+    end if;
+
+    new.name := v_parent.name || ' - ' || public.variant_label(new.variant_attributes);
+    new.category := v_parent.category;
+    new.category_id := v_parent.category_id;
+  elsif tg_op = 'UPDATE' and new.stock_quantity <> 0 and exists (
+    select 1 from products where parent_id = new.id
+  ) then
+    raise exception 'Stock for % is held on its variants', new.name;
+  end if;
+
+  return new;
+end;
+$$;
+
+-- Picking a category for a parent sets category_id only, so the cascade to
+-- variants has to watch it too
+drop trigger products_cascade_to_variants on public.products;
+
+create trigger products_cascade_to_variants
+  after update of name, category, category_id on public.products
+  for each row
+  when (
+    old.name is distinct from new.name
+    or old.category is distinct from new.category
+    or old.category_id is distinct from new.category_id
+  )
+  execute function public.cascade_product_to_variants();
+
+-- Renaming a category renames it on its products and pricing rule
+create or replace function public.rename_category()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update products
+  set category = new.name,
+      updated_at = now()
+  where category_id = new.id;
+
+  update category_pricing
+  set category = new.name,
+      updated_at = now()
+  where category = old.name;
+
+  return null;
+end;
+$$;
+
+create trigger categories_rename
+  after update of name on public.categories
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.rename_category();
+
+-- Counting a top-level category includes its sub-categories
+create or replace function public.start_stocktake(
+  p_category text default null,
+  p_notes text default null
+)
+returns public.stocktakes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_category_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can start a stocktake';
+  end if;
+
+  -- Two open counts would post the same differences twice
+  if exists (select 1 from stocktakes where status = 'counting') then
+    raise exception 'Approve or cancel the open stocktake before starting another';
+  end if;
+
+  if nullif(trim(p_category), '') is not null then
+    select id into v_category_id from categories where lower(name) = lower(trim(p_category));
+    if not found then
+      raise exception 'Category % not found', p_category;
+    end if;
+  end if;
+
+  insert into stocktakes (user_id, category, notes)
+  values (
+    auth.uid(),
+    (select name from categories where id = v_category_id),
+    nullif(trim(p_notes), '')
+  )
+  returning * into v_stocktake;
+
+  -- Variant parents hold no stock, so only their variants are counted
+  insert into stocktake_items (stocktake_id, product_id)
+  select v_stocktake.id, p.id
+  from products p
+  left join categories c on c.id = p.category_id
+  where p.is_active
+    and (v_category_id is null or c.id = v_category_id or c.parent_id = v_category_id)
+    and not exists (select 1 from products v where v.parent_id = p.id);
+
+  if not found then
+    raise exception 'There are no products to count%',
+      coalesce(' in ' || v_stocktake.category, '');
+  end if;
+
+  return v_stocktake;
+end;
+$$;
@@ -0,0 +1,68 @@
+-- Credit limit overrides are an audit log and must outlive the customer
+-- they were given for. Merging customers deleted the duplicate and, through
+-- the cascade, its overrides; they now move to the surviving customer, and a
+-- customer with overrides can't be deleted.
+alter table public.credit_limit_overrides
+  drop constraint credit_limit_overrides_customer_id_fkey,
+  add constraint credit_limit_overrides_customer_id_fkey
+    foreign key (customer_id) references public.customers(id) on delete restrict;
+
+-- merge_customers runs as the manager merging, so they need to be able to
+-- re-point overrides
+create policy "Managers can move credit limit overrides between customers"
+  on public.credit_limit_overrides for update to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+-- Moves everything recorded against the duplicate to the surviving customer,
+-- fills in contact details the survivor is missing and deletes the duplicate.
+create or replace function public.merge_customers(p_survivor_id uuid, p_duplicate_id uuid)
+returns public.customers
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_survivor public.customers;
+  v_duplicate public.customers;
+begin
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can merge customers';
+  end if;
+
+  if p_survivor_id = p_duplicate_id then
+    raise exception 'Choose two different customers to merge';
+  end if;
+
+  select * into v_survivor from customers where id = p_survivor_id for update;
+  if not found then
+    raise exception 'Customer to keep not found';
+  end if;
+
+  select * into v_duplicate from customers where id = p_duplicate_id for update;
+  if not found then
+    raise exception 'Duplicate customer not found';
+  end if;
+
+  update sales set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update debtors set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update payments set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update sale_returns set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+  update credit_limit_overrides set customer_id = p_survivor_id where customer_id = p_duplicate_id;
+
+  delete from customers where id = p_duplicate_id;
+
+  update customers
+  set email = coalesce(email, v_duplicate.email),
+      phone = coalesce(phone, v_duplicate.phone),
+      address = coalesce(address, v_duplicate.address),
+      price_list_id = coalesce(price_list_id, v_duplicate.price_list_id),
+      updated_at = now()
+  where id = p_survivor_id
+  returning * into v_survivor;
+
+  return v_survivor;
+end;
+$$;
+
+grant execute on function public.merge_customers(uuid, uuid) to authenticated;
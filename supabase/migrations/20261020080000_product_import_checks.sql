@@ -0,0 +1,105 @@
+-- Import rows matching an archived product, or setting stock on a product
+-- whose stock is held on its variants, are rejected with the row they came
+-- from instead of changing the product. Archived products have to be
+-- restored first, and variant stock is imported against the variant SKUs.
+create or replace function public.import_products(p_rows jsonb)
+returns table (created integer, updated integer)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_row jsonb;
+  v_line integer := 0;
+  v_sku text;
+  v_matches integer;
+  v_product_id uuid;
+  v_product public.products;
+  v_created integer := 0;
+  v_updated integer := 0;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if p_rows is null or jsonb_typeof(p_rows) <> 'array' or jsonb_array_length(p_rows) = 0 then
+    raise exception 'There are no rows to import';
+  end if;
+
+  perform set_stock_movement_context('adjustment', null, 'Product import');
+
+  for v_row in select * from jsonb_array_elements(p_rows) loop
+    v_line := v_line + 1;
+    v_sku := nullif(trim(v_row->>'sku'), '');
+    v_product_id := null;
+
+    if (v_row->>'stock_quantity')::integer < 0 then
+      raise exception 'Row %: stock cannot be negative', v_line;
+    end if;
+
+    if v_sku is not null then
+      select count(*), (array_agg(id))[1]
+      into v_matches, v_product_id
+      from products
+      where lower(sku) = lower(v_sku);
+
+      if v_matches > 1 then
+        raise exception 'Row %: SKU % matches % products', v_line, v_sku, v_matches;
+      end if;
+    end if;
+
+    if v_product_id is not null then
+      select * into v_product from products where id = v_product_id;
+
+      if not v_product.is_active then
+        raise exception 'Row %: % is archived. Restore it before importing changes to it', v_line, v_product.name;
+      end if;
+      if v_row ? 'stock_quantity' and exists (select 1 from products where parent_id = v_product_id) then
+        raise exception 'Row %: stock for % is held on its variants', v_line, v_product.name;
+      end if;
+    end if;
+
+    if v_product_id is null then
+      if coalesce(trim(v_row->>'name'), '') = '' then
+        raise exception 'Row %: a name is required for new products', v_line;
+      end if;
+
+      insert into products (
+        name, sku, description, category, cost, price, min_margin_percent,
+        stock_quantity, reorder_level, reorder_quantity
+      )
+      values (
+        trim(v_row->>'name'),
+        v_sku,
+        v_row->>'description',
+        v_row->>'category',
+        coalesce((v_row->>'cost')::numeric, 0),
+        coalesce((v_row->>'price')::numeric, 0),
+        (v_row->>'min_margin_percent')::numeric,
+        coalesce((v_row->>'stock_quantity')::integer, 0),
+        coalesce((v_row->>'reorder_level')::integer, 10),
+        (v_row->>'reorder_quantity')::integer
+      );
+      v_created := v_created + 1;
+    else
+      update products
+      set name = coalesce(nullif(trim(v_row->>'name'), ''), name),
+          description = coalesce(v_row->>'description', description),
+          category = coalesce(v_row->>'category', category),
+          cost = coalesce((v_row->>'cost')::numeric, cost),
+          price = coalesce((v_row->>'price')::numeric, price),
+          min_margin_percent = coalesce((v_row->>'min_margin_percent')::numeric, min_margin_percent),
+          stock_quantity = coalesce((v_row->>'stock_quantity')::integer, stock_quantity),
+          reorder_level = coalesce((v_row->>'reorder_level')::integer, reorder_level),
+          reorder_quantity = coalesce((v_row->>'reorder_quantity')::integer, reorder_quantity),
+          updated_at = now()
+      where id = v_product_id;
+      v_updated := v_updated + 1;
+    end if;
+  end loop;
+
+  return query select v_created, v_updated;
+end;
+$$;
+
+grant execute on function public.import_products(jsonb) to authenticated;
@@ -0,0 +1,164 @@
+-- A stocktake count is compared with the stock on hand when it was counted,
+-- not when the stocktake is approved. Approval used to overwrite stock with
+-- the count, which reversed every sale, return or receipt made in between
+-- and reported it as a variance. Approval now adjusts stock by the variance,
+-- so movements after the count are kept.
+--
+-- expected_quantity is now the stock on hand when the count was recorded;
+-- unit_cost is still taken at approval.
+
+-- Counts recorded before this change are compared with the stock on hand now
+update public.stocktake_items i
+set expected_quantity = p.stock_quantity
+from public.products p, public.stocktakes s
+where p.id = i.product_id
+  and s.id = i.stocktake_id
+  and s.status = 'counting'
+  and i.counted_quantity is not null
+  and i.expected_quantity is null;
+
+-- p_counts is a list of {product_id, counted_quantity}; a null quantity
+-- clears the count. Changing a count takes a fresh snapshot of the stock on
+-- hand.
+create or replace function public.record_stocktake_counts(p_stocktake_id uuid, p_counts jsonb)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_count jsonb;
+  v_quantity integer;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_stocktake from stocktakes where id = p_stocktake_id;
+  if not found then
+    raise exception 'Stocktake not found';
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'This stocktake is already %', v_stocktake.status;
+  end if;
+
+  if p_counts is null or jsonb_typeof(p_counts) <> 'array' then
+    raise exception 'Enter the counted quantities';
+  end if;
+
+  for v_count in select * from jsonb_array_elements(p_counts) loop
+    v_quantity := (v_count->>'counted_quantity')::integer;
+    if v_quantity < 0 then
+      raise exception 'Counted quantities cannot be negative';
+    end if;
+
+    update stocktake_items i
+    set counted_quantity = v_quantity,
+        counted_by = case when v_quantity is null then null else auth.uid() end,
+        counted_at = case when v_quantity is null then null else now() end,
+        expected_quantity = case
+          when v_quantity is null then null
+          when i.counted_quantity is distinct from v_quantity then p.stock_quantity
+          else i.expected_quantity
+        end
+    from products p
+    where p.id = i.product_id
+      and i.stocktake_id = p_stocktake_id
+      and i.product_id = (v_count->>'product_id')::uuid;
+
+    if not found then
+      raise exception 'Product % is not part of this stocktake', v_count->>'product_id';
+    end if;
+  end loop;
+end;
+$$;
+
+grant execute on function public.record_stocktake_counts(uuid, jsonb) to authenticated;
+
+create or replace function public.approve_stocktake(p_stocktake_id uuid, p_reason text)
+returns public.stocktakes
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_stocktake public.stocktakes;
+  v_item record;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  if not public.is_manager() then
+    raise exception 'Only managers and admins can approve a stocktake';
+  end if;
+
+  if coalesce(trim(p_reason), '') = '' then
+    raise exception 'A reason is required for stocktake adjustments';
+  end if;
+
+  select * into v_stocktake from stocktakes where id = p_stocktake_id for update;
+  if not found then
+    raise exception 'Stocktake not found';
+  end if;
+  if v_stocktake.status <> 'counting' then
+    raise exception 'This stocktake is already %', v_stocktake.status;
+  end if;
+
+  if not exists (
+    select 1 from stocktake_items
+    where stocktake_id = p_stocktake_id and counted_quantity is not null
+  ) then
+    raise exception 'Count at least one product before approving';
+  end if;
+
+  perform set_stock_movement_context('stocktake', p_stocktake_id, p_reason);
+
+  -- Stock moves by the variance found at counting time; sales, returns and
+  -- receipts since the count stay in the stock on hand
+  for v_item in
+    select
+      i.id,
+      i.counted_quantity - coalesce(i.expected_quantity, p.stock_quantity) as variance,
+      p.id as product_id,
+      p.name,
+      p.stock_quantity,
+      p.cost
+    from stocktake_items i
+    join products p on p.id = i.product_id
+    where i.stocktake_id = p_stocktake_id and i.counted_quantity is not null
+    for update of i, p
+  loop
+    update stocktake_items
+    set expected_quantity = counted_quantity - v_item.variance,
+        unit_cost = v_item.cost
+    where id = v_item.id;
+
+    continue when v_item.variance = 0;
+
+    if v_item.stock_quantity + v_item.variance < 0 then
+      raise exception 'Stock for % has fallen below its count since it was counted. Count it again',
+        v_item.name;
+    end if;
+
+    update products
+    set stock_quantity = stock_quantity + v_item.variance,
+        updated_at = now()
+    where id = v_item.product_id;
+  end loop;
+
+  update stocktakes
+  set status = 'approved',
+      reason = trim(p_reason),
+      approved_by = auth.uid(),
+      approved_at = now(),
+      updated_at = now()
+  where id = p_stocktake_id
+  returning * into v_stocktake;
+
+  return v_stocktake;
+end;
+$$;
+
+grant execute on function public.approve_stocktake(uuid, text) to authenticated;
@@ -0,0 +1,33 @@
+-- Products can only be put in a category that already exists. A category
+-- name typed into a product or import row is matched to its category
+-- regardless of case, and a name with no category is an error. The trigger
+-- used to create the missing category as the definer, bypassing the rule
+-- that only managers add categories, and let stray spellings back in.
+create or replace function public.sync_product_category()
+returns trigger
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' and new.category_id is not null
+    or tg_op = 'UPDATE' and new.category_id is distinct from old.category_id then
+    new.category := (select name from categories where id = new.category_id);
+  elsif tg_op = 'INSERT' or new.category is distinct from old.category then
+    if coalesce(trim(new.category), '') = '' then
+      new.category_id := null;
+      new.category := null;
+    else
+      select id, name into new.category_id, new.category
+      from categories
+      where lower(name) = lower(trim(new.category));
+
+      if not found then
+        raise exception 'Category % does not exist. Add it under Categories first', trim(new.category);
+      end if;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
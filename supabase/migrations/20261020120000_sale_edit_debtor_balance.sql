@@ -0,0 +1,251 @@
+-- Editing a sale brings its debtor to the new total, less what returns have
+-- already taken off the debt, before anything else happens to it. Settling
+-- a sale on edit used to pay off the old amount owed, and a pending edit
+-- could leave less owed than was already paid. An edit that takes the total
+-- below what has been paid is now rejected; the difference is refunded
+-- through a return instead.
+create or replace function public.update_sale(
+  p_sale_id uuid,
+  p_items jsonb,
+  p_payment_status public.payment_status,
+  p_due_date date default null,
+  p_discount_type public.discount_type default null,
+  p_discount_value numeric default 0,
+  p_tax_rate numeric default null,
+  p_tax_inclusive boolean default null,
+  p_notes text default null,
+  p_credit_override_reason text default null,
+  p_customer_id uuid default null
+)
+returns public.sales
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_sale public.sales;
+  v_item jsonb;
+  v_change record;
+  v_product public.products;
+  v_old_item_ids uuid[];
+  v_quantity integer;
+  v_unit_price numeric;
+  v_unit_cost numeric;
+  v_unit_costs jsonb := '{}';
+  v_line_discount numeric;
+  v_subtotal numeric := 0;
+  v_total_cost numeric := 0;
+  v_totals record;
+  v_debtor public.debtors;
+  v_amount_owed numeric;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  select * into v_sale from sales where id = p_sale_id for update;
+  if not found then
+    raise exception 'Sale not found';
+  end if;
+
+  if p_items is null or jsonb_typeof(p_items) <> 'array' or jsonb_array_length(p_items) = 0 then
+    raise exception 'A sale needs at least one item';
+  end if;
+
+  -- A sale can move to another customer until money or goods have come back
+  -- against it; its debt moves along and the credit check below runs
+  -- against the new customer
+  if p_customer_id is not null and p_customer_id <> v_sale.customer_id then
+    perform 1 from customers where id = p_customer_id and is_active;
+    if not found then
+      raise exception 'Customer not found';
+    end if;
+
+    if exists (select 1 from payments where sale_id = p_sale_id)
+      or exists (select 1 from sale_returns where sale_id = p_sale_id) then
+      raise exception 'A sale with payments or returns can''t be moved to another customer';
+    end if;
+
+    update debtors set customer_id = p_customer_id where sale_id = p_sale_id;
+  end if;
+
+  v_old_item_ids := array(select id from sale_items where sale_id = p_sale_id);
+
+  perform set_stock_movement_context('sale', p_sale_id, 'Sale edited');
+
+  -- Apply the stock difference per product: positive deltas take stock,
+  -- negative deltas (reduced or removed lines) put it back at the cost it
+  -- was sold at
+  for v_change in
+    select
+      coalesce(n.product_id, o.product_id) as product_id,
+      n.quantity as new_quantity,
+      coalesce(o.quantity, 0) as old_quantity,
+      coalesce(n.quantity, 0) - coalesce(o.quantity, 0) as delta,
+      o.unit_cost
+    from (
+      select (e->>'product_id')::uuid as product_id, sum((e->>'quantity')::integer) as quantity
+      from jsonb_array_elements(p_items) e
+      group by 1
+    ) n
+    full join (
+      select product_id, sum(quantity) as quantity, sum(quantity * unit_cost) / sum(quantity) as unit_cost
+      from sale_items
+      where sale_id = p_sale_id
+      group by product_id
+    ) o on o.product_id = n.product_id
+  loop
+    if v_change.delta = 0 then
+      v_unit_costs := v_unit_costs || jsonb_build_object(v_change.product_id, v_change.unit_cost);
+      continue;
+    end if;
+
+    perform set_stock_movement_cost(v_change.unit_cost);
+
+    update products
+    set stock_quantity = stock_quantity - v_change.delta,
+        updated_at = now()
+    where id = v_change.product_id
+      and stock_quantity - v_change.delta >= 0
+    returning * into v_product;
+
+    if not found then
+      select * into v_product from products where id = v_change.product_id;
+      if not found then
+        raise exception 'Product % not found', v_change.product_id;
+      end if;
+      raise exception 'Not enough stock for %', v_product.name;
+    end if;
+
+    if v_change.delta > 0 then
+      v_unit_cost := (v_change.old_quantity * coalesce(v_change.unit_cost, 0)
+        + v_change.delta * last_stock_movement_cost()) / v_change.new_quantity;
+    else
+      v_unit_cost := v_change.unit_cost;
+    end if;
+    v_unit_costs := v_unit_costs || jsonb_build_object(v_product.id, v_unit_cost);
+  end loop;
+
+  for v_item in select * from jsonb_array_elements(p_items) loop
+    v_quantity := (v_item->>'quantity')::integer;
+    v_unit_price := (v_item->>'unit_price')::numeric;
+
+    select * into v_product from products where id = (v_item->>'product_id')::uuid;
+    if not found then
+      raise exception 'Product % not found', v_item->>'product_id';
+    end if;
+    if v_quantity is null or v_quantity <= 0 then
+      raise exception 'Invalid quantity for %', v_product.name;
+    end if;
+    if v_unit_price is null or v_unit_price < 0 then
+      raise exception 'Invalid price for %', v_product.name;
+    end if;
+
+    -- Archived products can stay on a sale they were already on, but not
+    -- be added to it
+    if not v_product.is_active and not exists (
+      select 1 from sale_items where id = any(v_old_item_ids) and product_id = v_product.id
+    ) then
+      raise exception 'Product % is no longer active', v_product.name;
+    end if;
+
+    v_unit_cost := (v_unit_costs->>v_product.id::text)::numeric;
+
+    v_line_discount := calculate_discount(
+      v_quantity * v_unit_price,
+      (v_item->>'discount_type')::public.discount_type,
+      (v_item->>'discount_value')::numeric
+    );
+
+    insert into sale_items (
+      sale_id, product_id, quantity, unit_price, unit_cost,
+      discount_type, discount_value, discount_amount, line_total
+    )
+    values (
+      p_sale_id, v_product.id, v_quantity, v_unit_price, v_unit_cost,
+      (v_item->>'discount_type')::public.discount_type,
+      coalesce((v_item->>'discount_value')::numeric, 0),
+      v_line_discount,
+      v_quantity * v_unit_price - v_line_discount
+    );
+
+    v_subtotal := v_subtotal + v_quantity * v_unit_price - v_line_discount;
+    v_total_cost := v_total_cost + v_quantity * v_unit_cost;
+  end loop;
+
+  delete from sale_items where id = any(v_old_item_ids);
+
+  select * into v_totals
+  from compute_sale_totals(
+    v_subtotal,
+    p_discount_type,
+    p_discount_value,
+    coalesce(p_tax_rate, v_sale.tax_rate),
+    coalesce(p_tax_inclusive, v_sale.tax_inclusive)
+  );
+
+  update sales
+  set total_cost = v_total_cost,
+      subtotal = v_subtotal,
+      discount_type = p_discount_type,
+      discount_value = coalesce(p_discount_value, 0),
+      discount_amount = v_totals.discount_amount,
+      tax_rate = coalesce(p_tax_rate, tax_rate),
+      tax_inclusive = coalesce(p_tax_inclusive, tax_inclusive),
+      tax_amount = v_totals.tax_amount,
+      net_amount = v_totals.net_amount,
+      total_amount = v_totals.total_amount,
+      payment_status = p_payment_status,
+      due_date = p_due_date,
+      notes = nullif(trim(p_notes), ''),
+      customer_id = coalesce(p_customer_id, customer_id),
+      updated_at = now()
+  where id = p_sale_id
+  returning * into v_sale;
+
+  perform enforce_credit_limit(v_sale, p_credit_override_reason);
+
+  v_amount_owed := v_sale.total_amount - coalesce(
+    (select sum(debt_reduction) from sale_returns where sale_id = p_sale_id),
+    0
+  );
+
+  select * into v_debtor from debtors where sale_id = p_sale_id for update;
+
+  if found then
+    if v_debtor.amount_paid > v_amount_owed then
+      raise exception 'RWF % has already been paid on this sale, more than its new balance of RWF %. Record a return to refund the difference',
+        v_debtor.amount_paid, v_amount_owed;
+    end if;
+
+    update debtors
+    set amount_owed = v_amount_owed,
+        due_date = coalesce(p_due_date, due_date),
+        updated_at = now()
+    where id = v_debtor.id
+    returning * into v_debtor;
+
+    -- Whatever is still owed is taken as paid in cash today
+    if p_payment_status = 'paid' and v_debtor.amount_paid < v_debtor.amount_owed then
+      perform record_payment(v_debtor.id, v_debtor.amount_owed - v_debtor.amount_paid, 'cash', current_date, 'Settled on sale edit');
+      select * into v_sale from sales where id = p_sale_id;
+    elsif v_debtor.is_resolved and v_sale.payment_status <> 'paid' then
+      -- Payments already cover the new balance
+      update sales
+      set payment_status = 'paid',
+          updated_at = now()
+      where id = p_sale_id
+      returning * into v_sale;
+    end if;
+  elsif p_payment_status <> 'paid' then
+    insert into debtors (sale_id, customer_id, amount_owed, due_date)
+    values (p_sale_id, v_sale.customer_id, v_amount_owed, coalesce(p_due_date, current_date + 30));
+  end if;
+
+  return v_sale;
+end;
+$$;
+
+grant execute on function public.update_sale(
+  uuid, jsonb, public.payment_status, date, public.discount_type, numeric, numeric, boolean, text, text, uuid
+) to authenticated;
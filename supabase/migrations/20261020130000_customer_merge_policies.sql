@@ -0,0 +1,13 @@
+-- merge_customers runs as the manager merging and moves payments and
+-- returns to the surviving customer. Neither table could be updated under
+-- RLS, so the moves changed nothing and deleting the duplicate then failed
+-- on their customer references.
+create policy "Managers can move payments between customers"
+  on public.payments for update to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
+
+create policy "Managers can move sale returns between customers"
+  on public.sale_returns for update to authenticated
+  using (public.is_manager())
+  with check (public.is_manager());
@@ -0,0 +1,7 @@
+-- Deleting a sale no longer deletes the credit limit overrides given for it.
+-- The override keeps the amounts and reason; only the link to the sale goes.
+alter table public.credit_limit_overrides
+  alter column sale_id drop not null,
+  drop constraint credit_limit_overrides_sale_id_fkey,
+  add constraint credit_limit_overrides_sale_id_fkey
+    foreign key (sale_id) references public.sales(id) on delete set null;